@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getAlertRules, getAlertRuleStats, getLeads, saveAlertRules } from "@/lib/db";
+import { decideAlert, DEFAULT_ALERT_RULES, normalizeAlertRules } from "@/lib/alertRules";
+
+const PREVIEW_LEADS = 200;
+
+export async function GET() {
+  return NextResponse.json({ ...getAlertRules(), stats: getAlertRuleStats() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    if (action === "save" && body.rules) {
+      const rules = normalizeAlertRules(body.rules);
+      saveAlertRules(rules);
+      return NextResponse.json({ success: true, rules });
+    }
+
+    if (action === "reset") {
+      saveAlertRules(DEFAULT_ALERT_RULES);
+      return NextResponse.json({ success: true, rules: DEFAULT_ALERT_RULES });
+    }
+
+    // Unsaved rules against the latest Watchtower leads: how much would still be announced
+    if (action === "preview" && body.rules) {
+      const rules = normalizeAlertRules(body.rules);
+      const leads = getLeads({ source: "watchtower", limit: PREVIEW_LEADS });
+      const decisions = leads.map(lead => decideAlert(lead, lead.alertDecision?.tag || (lead.sourceQuery || "").replace(/^#/, ""), rules));
+      const byRule: Record<string, number> = {};
+      decisions.forEach(d => { byRule[d.ruleId || "fallback"] = (byRule[d.ruleId || "fallback"] || 0) + 1; });
+      return NextResponse.json({ success: true, total: leads.length, alerted: decisions.filter(d => d.alerted).length, byRule });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
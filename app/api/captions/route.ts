@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getPostClasses, savePostClasses } from "@/lib/db";
+import { DEFAULT_POST_CLASSES, parseCaption } from "@/lib/captionParser";
+import { PostClass } from "@/lib/types";
+
+// "Label: keyword, keyword" rows from the editor; blank labels and keywords are dropped
+const cleanClasses = (classes: PostClass[]): PostClass[] =>
+  classes
+    .map(c => ({ label: String(c.label || "").trim(), keywords: (c.keywords || []).map(k => String(k).trim()).filter(Boolean) }))
+    .filter(c => c.label && c.keywords.length > 0);
+
+export async function GET() {
+  return NextResponse.json(getPostClasses());
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    // Save classes → every stored caption is re-classified
+    if (action === "save" && Array.isArray(body.classes)) {
+      const classes = cleanClasses(body.classes);
+      return NextResponse.json({ success: true, classes, reclassified: savePostClasses(classes) });
+    }
+
+    if (action === "reset") {
+      return NextResponse.json({ success: true, classes: DEFAULT_POST_CLASSES, reclassified: savePostClasses(DEFAULT_POST_CLASSES) });
+    }
+
+    // Try a caption against the saved classes (or the unsaved ones being edited)
+    if (action === "parse" && typeof body.text === "string") {
+      const classes = Array.isArray(body.classes) ? cleanClasses(body.classes) : getPostClasses();
+      return NextResponse.json({ success: true, details: parseCaption(body.text, classes) });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getCrmMapping, saveCrmMapping } from "@/lib/db";
+import { getCrmSettings } from "@/lib/config";
+import { createHubSpotClient, DEFAULT_CRM_MAPPING, LEAD_VALUES, pushLeads } from "@/lib/crm";
+import { CrmMapping } from "@/lib/types";
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// 🤝 /api/crm → whether HubSpot is set up, the field mapping, and the lead values it can use
+export async function GET() {
+  const settings = getCrmSettings();
+  return NextResponse.json({
+    configured: !!settings.token,
+    baseUrl: settings.baseUrl,
+    mapping: getCrmMapping(),
+    values: Object.entries(LEAD_VALUES).map(([id, { label }]) => ({ id, label }))
+  });
+}
+
+const cleanMapping = (mapping: CrmMapping): CrmMapping => ({
+  contact: (mapping.contact || []).filter(m => m.property?.trim() && LEAD_VALUES[m.value]).map(m => ({ property: m.property.trim(), value: m.value })),
+  company: (mapping.company || []).filter(m => m.property?.trim() && LEAD_VALUES[m.value]).map(m => ({ property: m.property.trim(), value: m.value }))
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    // Push one lead or a selection (the remote ids are stored on each lead)
+    if (action === "push" && Array.isArray(body.leads)) {
+      const { results, leads } = await pushLeads(body.leads);
+      return NextResponse.json({
+        success: true,
+        pushed: results.filter(r => r.success).length,
+        failed: results.filter(r => !r.success),
+        results,
+        leads
+      });
+    }
+
+    if (action === "saveMapping" && body.mapping) {
+      saveCrmMapping(cleanMapping(body.mapping));
+      return NextResponse.json({ success: true, mapping: getCrmMapping() });
+    }
+    if (action === "resetMapping") {
+      saveCrmMapping(DEFAULT_CRM_MAPPING);
+      return NextResponse.json({ success: true, mapping: DEFAULT_CRM_MAPPING });
+    }
+
+    // Checks the token against the configured URL
+    if (action === "test") {
+      await createHubSpotClient().ping();
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" }, { status: 400 });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getLeads, getScoringRules, mergeStoredLeads } from "@/lib/db";
+import { findDuplicates, mergeLeads } from "@/lib/dedupe";
+import { scoreLead } from "@/lib/scoring";
+import { Lead } from "@/lib/types";
+
+// 🧬 DUPLICATES
+// find:  { leads? } → likely duplicate pairs (the given list, or every stored lead)
+// merge: { primary, secondary, choices } → one lead; stored records are merged in the database too
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    if (body.action === "find") {
+      const leads: Lead[] = Array.isArray(body.leads) ? body.leads : getLeads();
+      return NextResponse.json({ matches: findDuplicates(leads) });
+    }
+
+    if (body.action === "merge") {
+      const { primary, secondary, choices } = body as { primary: Lead; secondary: Lead; choices?: Record<string, "primary" | "secondary"> };
+      if (!primary?.id || !secondary?.id) return NextResponse.json({ error: "Pick two leads to merge." }, { status: 400 });
+
+      const merged = scoreLead(mergeLeads(primary, secondary, choices), getScoringRules());
+      const stored = getLeads({ ids: [primary.id, secondary.id] });
+      if (stored.length > 0) mergeStoredLeads(merged, secondary.id);
+
+      return NextResponse.json({ success: true, lead: merged, removedId: secondary.id });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" }, { status: 400 });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
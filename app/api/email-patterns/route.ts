@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getLeads, getScoringRules, updateLeads } from "@/lib/db";
+import { scoreLead } from "@/lib/scoring";
+import { generateEmailCandidates, learnDomainPatterns } from "@/lib/emailPatterns";
+import { Lead } from "@/lib/types";
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+    const lead: Lead = body.lead;
+    if (!lead) return NextResponse.json({ error: "Missing lead" }, { status: 400 });
+
+    // 📧 Ranked candidates, learning from every stored lead + the caller's result set
+    if (action === "candidates") {
+      const known = [...getLeads(), ...(body.knownLeads || [])];
+      const candidates = generateEmailCandidates(lead.contactName, lead.domain, learnDomainPatterns(known));
+      return NextResponse.json({ candidates });
+    }
+
+    // ✋ User picked a different address
+    if (action === "choose" && body.email) {
+      const updated: Lead = scoreLead({
+        ...lead,
+        predictedEmail: body.email,
+        emailVerificationStatus: "unknown",
+        emailVerificationReason: "Address changed, not verified yet",
+        emailVerifiedAt: undefined
+      }, getScoringRules());
+      updateLeads([updated]);
+      return NextResponse.json({ success: true, lead: updated });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
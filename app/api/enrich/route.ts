@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { applyEnrichment, crawlWebsite } from "@/lib/crawler";
+import { getScoringRules, updateLeads } from "@/lib/db";
+import { scoreLead } from "@/lib/scoring";
+import { Lead } from "@/lib/types";
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const CONCURRENCY = 2;
+
+// 🕸️ ENRICH: crawl each lead's website (homepage + contact/about) and update the lead
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const leads: Lead[] = body.leads || [];
+    const queue = leads.filter(l => l.website && l.website.startsWith("http") && l.domain !== "instagram.com");
+    const enriched: Lead[] = [];
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        const lead = queue.shift()!;
+        console.log(`🕸️ ENRICH: Crawling ${lead.website}...`);
+        const enrichment = await crawlWebsite(lead.website);
+        enriched.push(scoreLead(applyEnrichment(lead, enrichment), getScoringRules()));
+      }
+    };
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+    updateLeads(enriched); // Keep stored leads in sync
+    return NextResponse.json({ success: true, leads: enriched, skipped: leads.length - enriched.length });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, EXPORT_FORMATS, ExportFormat, exportLeads, resolveExportLeads } from "@/lib/exporter";
+
+export const runtime = 'nodejs';
+
+// 📤 /api/export → the columns and formats to choose from
+export async function GET() {
+  return NextResponse.json({
+    columns: EXPORT_COLUMNS.map(({ id, label }) => ({ id, label })),
+    defaultColumns: DEFAULT_EXPORT_COLUMNS,
+    formats: EXPORT_FORMATS
+  });
+}
+
+// Body: { format, columns?, scope: { listId } | { filter } | { leads }, name? } → the file itself
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const format: ExportFormat = body.format || "csv";
+    if (!EXPORT_FORMATS.some(f => f.id === format)) return NextResponse.json({ error: `Unknown format "${format}"` }, { status: 400 });
+
+    const leads = resolveExportLeads(body.scope || {});
+    if (leads.length === 0) return NextResponse.json({ error: "Nothing to export." }, { status: 400 });
+
+    const file = await exportLeads(leads, format, Array.isArray(body.columns) ? body.columns : undefined);
+    const name = String(body.name || "caratbridge_leads").replace(/[^\w.-]+/g, "_");
+    const fileName = `${name}_${new Date().toISOString().slice(0, 10)}.${file.extension}`;
+
+    return new NextResponse(file.body as BodyInit, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "X-Lead-Count": String(leads.length)
+      }
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { ColumnMapping, guessMapping, importLeads, parseSpreadsheet, previewImport } from "@/lib/importer";
+
+export const runtime = 'nodejs';
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+// 📥 Multipart form: file + action ("preview" → headers, mapping and a dry run; "import" → into a list)
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData();
+    const action = form.get("action");
+    const file = form.get("file");
+
+    if (!(file instanceof File)) return NextResponse.json({ error: "Choose a CSV, TSV or XLSX file." }, { status: 400 });
+    if (!/\.(csv|tsv|txt|xlsx)$/i.test(file.name)) return NextResponse.json({ error: "Only .csv, .tsv, .txt and .xlsx files can be imported." }, { status: 400 });
+    if (file.size > MAX_FILE_BYTES) return NextResponse.json({ error: "File is over 10 MB." }, { status: 400 });
+
+    const sheet = await parseSpreadsheet(Buffer.from(await file.arrayBuffer()), file.name);
+    if (sheet.headers.length === 0) return NextResponse.json({ error: "The file is empty." }, { status: 400 });
+
+    const rawMapping = form.get("mapping");
+    const mapping: ColumnMapping = typeof rawMapping === "string" && rawMapping
+      ? sheet.headers.map((_, i) => JSON.parse(rawMapping)[i] || null)
+      : guessMapping(sheet.headers);
+
+    if (action === "preview") {
+      return NextResponse.json({
+        headers: sheet.headers,
+        rows: sheet.rows.slice(0, 5),
+        mapping,
+        ...previewImport(sheet, mapping, file.name)
+      });
+    }
+
+    if (action === "import") {
+      const listId = form.get("listId");
+      const newListName = form.get("newListName");
+      const result = importLeads(sheet, mapping, file.name, {
+        listId: typeof listId === "string" && listId ? listId : undefined,
+        newListName: typeof newListName === "string" ? newListName : undefined
+      });
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" }, { status: 400 });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
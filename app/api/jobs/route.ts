@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { cancelSearchJob, findSearchJob, listSearchJobs, startSearchJob, SearchJobEvent, watchSearchJob } from "@/lib/searchJobs";
+
+const HEARTBEAT_MS = 15 * 1000; // A comment line now and then, so proxies don't drop a quiet stream
+
+// 🛰️ /api/jobs → recent search jobs
+//    /api/jobs?id=...            → one job and its results so far
+//    /api/jobs?id=...&stream=1   → the same, then live updates (SSE) until the job ends
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  if (!id) return NextResponse.json({ jobs: listSearchJobs() });
+
+  const current = findSearchJob(id);
+  if (!current) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  if (!searchParams.get("stream")) return NextResponse.json(current);
+
+  const encoder = new TextEncoder();
+  let unwatch = () => {};
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  const stop = () => {
+    unwatch();
+    clearInterval(heartbeat);
+  };
+  const stream = new ReadableStream({
+    start(controller) {
+      heartbeat = setInterval(() => controller.enqueue(encoder.encode(":\n\n")), HEARTBEAT_MS);
+      const send = (event: SearchJobEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (event.job.status !== "running") {
+          stop();
+          controller.close();
+        }
+      };
+      unwatch = watchSearchJob(id, send);
+      request.signal.addEventListener("abort", () => stop());
+      send(findSearchJob(id) || current); // Re-read: the job may have ended before we started watching
+    },
+    cancel() {
+      stop();
+    }
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache, no-transform", "Connection": "keep-alive" }
+  });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    if (body.action === "start") {
+      if (!body.params?.source) return NextResponse.json({ error: "Send params with a source" }, { status: 400 });
+      return NextResponse.json({ success: true, job: startSearchJob({ source: String(body.params.source), input: body.params.input || {} }) });
+    }
+
+    if (body.action === "cancel") {
+      if (!cancelSearchJob(body.id)) return NextResponse.json({ error: "Job is not running" }, { status: 400 });
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" }, { status: 400 });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
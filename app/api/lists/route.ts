@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { addLeadsToList, createList, deleteList, getListLeads, getLists, removeLeadsFromList, renameList } from "@/lib/db";
+
+// 📁 /api/lists → every saved list, /api/lists?id=... → that list and its leads
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  if (!id) return NextResponse.json(getLists());
+
+  const list = getLists().find(l => l.id === id);
+  if (!list) return NextResponse.json({ error: "List not found" }, { status: 404 });
+  return NextResponse.json({ list, leads: getListLeads(id) });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action, listId } = body;
+
+    // Create (optionally with leads in one go)
+    if (action === "create") {
+      if (!body.name || !body.name.trim()) return NextResponse.json({ error: "A list needs a name." }, { status: 400 });
+      const list = createList(body.name);
+      const result = Array.isArray(body.leads) ? addLeadsToList(list.id, body.leads) : { added: [], skipped: 0 };
+      return NextResponse.json({ success: true, list, ...result });
+    }
+
+    if (!listId) return NextResponse.json({ error: "Missing listId" }, { status: 400 });
+
+    if (action === "add" && Array.isArray(body.leads)) {
+      return NextResponse.json({ success: true, ...addLeadsToList(listId, body.leads) });
+    }
+    if (action === "remove" && Array.isArray(body.leadIds)) {
+      removeLeadsFromList(listId, body.leadIds);
+      return NextResponse.json({ success: true });
+    }
+    if (action === "rename" && body.name) {
+      renameList(listId, body.name);
+      return NextResponse.json({ success: true });
+    }
+    if (action === "delete") {
+      deleteList(listId);
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" }, { status: 400 });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -1,82 +1,46 @@
 import { NextResponse } from "next/server";
-import { ApifyClient } from "apify-client";
-import { getDb, saveDb, addLeadsToDb, addTag, removeTag, setRunningStatus } from "@/lib/db";
-import { getApiKeys } from "@/lib/config";
+import { getDb, getScans, addTag, removeTag, setRunningStatus } from "@/lib/db";
+import { ensureWatchScheduler, getWatchStatus, getWatchTags, runWatchScan, setDefaultInterval, setTagChannels, setTagInterval } from "@/lib/watchtower";
 
 export const runtime = 'nodejs'; 
 export const maxDuration = 60; 
 
-function getTimeAgo(isoDate: string) {
-    if (!isoDate) return "Unknown";
-    const created = new Date(isoDate);
-    const now = new Date();
-    const diffMs = now.getTime() - created.getTime(); 
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMins / 60);
-    const diffDays = Math.floor(diffHours / 24);
-
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    return `${diffDays}d ago`;
-}
-
-async function sendDiscordAlert(webhookUrl: string, leads: any[]) {
-    if (!webhookUrl || leads.length === 0) return;
-    for (const lead of leads) {
-        try {
-            await fetch(webhookUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    username: "CaratBridge Watchtower",
-                    embeds: [{
-                        title: `💎 Fresh Post: @${lead.companyName}`,
-                        url: lead.website,
-                        color: 3066993,
-                        fields: [
-                            { name: "Time", value: lead.postAge, inline: true },
-                            { name: "Source", value: lead.businessType, inline: true },
-                            { name: "Caption", value: lead.notes || "-" }
-                        ],
-                        footer: { text: "CaratBridge Secret Finder" },
-                        timestamp: new Date().toISOString()
-                    }]
-                })
-            });
-        } catch (e) { console.error("Discord Error", e); }
-    }
-}
-
 export async function POST(request: Request) {
+  ensureWatchScheduler();
   try {
     const body = await request.json();
-    const { action, tag, force, limit } = body;
+    const { action, tag, limit, minutes } = body;
 
     // --- ACTIONS ---
     if (action === "start") { setRunningStatus(true); return NextResponse.json({ success: true, message: "Started" }); }
     if (action === "stop") { setRunningStatus(false); return NextResponse.json({ success: true, message: "Stopped" }); }
     if (action === "add" && tag) { addTag(tag); return NextResponse.json({ success: true }); }
     if (action === "remove" && tag) { removeTag(tag); return NextResponse.json({ success: true }); }
-    if (action === "load") return NextResponse.json(getDb());
-
-    // --- SCANNER ---
-    if (action === "scan") {
-      const { APIFY_TOKEN, DISCORD_WEBHOOK } = getApiKeys();
-      if (!APIFY_TOKEN) return NextResponse.json({ error: "Missing APIFY_TOKEN" });
-
-      const db = getDb();
-
-      // 1. FORCE LOAD TAGS FROM ENV
-      let tagsToScan = [];
+    if (action === "load") return NextResponse.json({ ...getDb(), schedule: getWatchStatus() });
+    if (action === "history") return NextResponse.json({ scans: getScans(limit || 30) });
+
+    // --- SCHEDULE ---
+    if (action === "interval") {
+      if (!(Number(minutes) >= 1)) return NextResponse.json({ error: "Interval must be at least 1 minute" }, { status: 400 });
+      if (tag) setTagInterval(tag, Number(minutes));
+      else setDefaultInterval(Number(minutes));
+      return NextResponse.json({ success: true, schedule: getWatchStatus() });
+    }
+    if (action === "resetInterval" && tag) {
+      setTagInterval(tag, undefined);
+      return NextResponse.json({ success: true, schedule: getWatchStatus() });
+    }
 
-      // 🔍 DEBUG: Read Raw Env Var
-      const rawEnvTags = process.env.WATCH_TAGS; 
+    // --- ALERT ROUTING (channels: ids, or null for every configured channel) ---
+    if (action === "channels" && tag) {
+      setTagChannels(tag, Array.isArray(body.channels) ? body.channels : undefined);
+      return NextResponse.json({ success: true, schedule: getWatchStatus() });
+    }
 
-      if (rawEnvTags) {
-          tagsToScan = rawEnvTags.split(',').map(t => t.trim());
-      } else if (db.monitoredTags && db.monitoredTags.length > 0) {
-          tagsToScan = db.monitoredTags;
-      }
+    // --- SCANNER (manual check / external cron: every tag, now) ---
+    if (action === "scan") {
+      const rawEnvTags = process.env.WATCH_TAGS;
+      const tagsToScan = getWatchTags();
 
       if (tagsToScan.length === 0) {
           return NextResponse.json({ 
@@ -86,73 +50,15 @@ export async function POST(request: Request) {
           });
       }
 
-      const client = new ApifyClient({ token: APIFY_TOKEN });
-      let totalNewLeads = 0;
-      const scanLimit = limit || 20;
-
-      for (const monitoredTag of tagsToScan) {
-        try {
-          console.log(`🕵️‍♂️ Checking #${monitoredTag}...`);
-
-          const run = await client.actor("apify/instagram-hashtag-scraper").call({
-              "hashtags": [monitoredTag],
-              "resultsLimit": scanLimit, 
-              "resultsType": "posts", 
-          });
-
-          const { items } = await client.dataset(run.defaultDatasetId).listItems();
-
-          // SORT NEWEST FIRST
-          items.sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-
-          if (items && items.length > 0) {
-              const leads = items.map((item: any) => {
-                   const created = new Date(item.timestamp);
-                   const now = new Date();
-                   const diffHours = (now.getTime() - created.getTime()) / (1000 * 60 * 60);
-
-                   // 🚫 FILTER: STRICT 48 HOURS
-                   if (diffHours > 48) return null;
-
-                   const username = item.ownerUsername || item.owner?.username || "Unknown";
-                   const caption = item.caption || "";
-                   const emailMatch = caption.match(/([a-zA-Z0-9._-]+@[a-zA-Z0-9._-]+\.[a-zA-Z0-9._-]+)/gi);
-                   const age = getTimeAgo(item.timestamp);
-
-                   return {
-                      id: `post-${item.id}`, 
-                      companyName: username,
-                      website: `https://instagram.com/${username}`,
-                      country: "Global",
-                      region: "Instagram",
-                      businessType: `#${monitoredTag}`,
-                      contactName: username,
-                      contactRole: "Owner",
-                      rawEmail: emailMatch ? emailMatch[0] : undefined,
-                      predictedEmail: undefined,
-                      domain: "instagram.com",
-                      emailVerificationStatus: emailMatch ? "valid" : "unknown",
-                      score: 90, 
-                      postAge: age,
-                      notes: `[${age}] "${caption.substring(0, 50)}..."`
-                   };
-              }).filter(item => item !== null);
-
-              const newLeadsFound = addLeadsToDb(leads);
-
-              if (newLeadsFound.length > 0) {
-                  if (DISCORD_WEBHOOK) await sendDiscordAlert(DISCORD_WEBHOOK, newLeadsFound);
-              }
-              totalNewLeads += newLeadsFound.length;
-          }
-        } catch (e: any) { console.error(`Error #${monitoredTag}:`, e.message); }
-      }
+      const result = await runWatchScan(tagsToScan, { limit, trigger: "manual" });
+      if (result.error) return NextResponse.json({ error: result.error });
+      if (result.skipped) return NextResponse.json({ error: "A scan is already running. Try again when it finishes." });
 
       return NextResponse.json({ 
           success: true, 
           debugEnvTags: rawEnvTags, // 👈 SHOWS YOU WHAT RENDER SEES
-          scannedCount: tagsToScan.length,
-          newLeads: totalNewLeads 
+          scannedCount: result.scannedCount,
+          newLeads: result.newLeads 
       });
     }
 
@@ -160,4 +66,4 @@ export async function POST(request: Request) {
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { addLeadNote, deleteLeadNote, getLeadTags, saveLeadTags } from "@/lib/db";
+
+// 🏷️ /api/notes → every tag in use (for suggestions)
+export async function GET() {
+  return NextResponse.json({ tags: getLeadTags() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    if (!body.lead?.id) return NextResponse.json({ error: "Send the lead" }, { status: 400 });
+
+    if (body.action === "add") {
+      if (!body.text?.trim()) return NextResponse.json({ error: "Note is empty" }, { status: 400 });
+      return NextResponse.json({ success: true, lead: addLeadNote(body.lead, body.text) });
+    }
+
+    if (body.action === "delete") {
+      return NextResponse.json({ success: true, lead: deleteLeadNote(body.lead, body.noteId) });
+    }
+
+    if (body.action === "tags") {
+      if (!Array.isArray(body.tags)) return NextResponse.json({ error: "Send tags as a list" }, { status: 400 });
+      return NextResponse.json({ success: true, lead: saveLeadTags(body.lead, body.tags.map(String)) });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" }, { status: 400 });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { describeNotifiers, nextDigestAt, retryFailedAlert, sendTestAlert, setAlertSchedule } from "@/lib/notifiers";
+import { countQueuedAlerts, deleteFailedAlert, getAlertSchedule, getFailedAlerts, getLastDigestAt } from "@/lib/db";
+
+export const runtime = 'nodejs';
+
+// 🔔 /api/notifications → the alert channels, how alerts are delivered, and sends that failed
+export async function GET() {
+  const schedule = getAlertSchedule();
+  const last = getLastDigestAt();
+  return NextResponse.json({
+    channels: describeNotifiers(),
+    schedule,
+    nextDigestAt: schedule.mode !== "instant" ? nextDigestAt(schedule, last ? new Date(last) : new Date()).toISOString() : undefined,
+    queued: countQueuedAlerts(),
+    failed: getFailedAlerts()
+  });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    // Sends a sample alert with the saved settings
+    if (body.action === "test" && body.channel) {
+      await sendTestAlert(body.channel);
+      return NextResponse.json({ success: true });
+    }
+
+    // --- DELIVERY (instant, or a daily / weekly digest at `hour`) ---
+    if (body.action === "schedule" && body.schedule) {
+      setAlertSchedule(body.schedule);
+      return NextResponse.json({ success: true, schedule: getAlertSchedule() });
+    }
+
+    // --- FAILED SENDS ---
+    if (body.action === "retry" && body.id) {
+      await retryFailedAlert(body.id);
+      return NextResponse.json({ success: true, failed: getFailedAlerts() });
+    }
+
+    if (body.action === "dismiss" && body.id) {
+      deleteFailedAlert(body.id);
+      return NextResponse.json({ success: true, failed: getFailedAlerts() });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" }, { status: 400 });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -1,19 +1,68 @@
 import { NextResponse } from "next/server";
+import { sendEmail } from "@/lib/mailer";
+import { addOutreachLog, advanceStoredStage, getOutreachLogs, getTemplates } from "@/lib/db";
+import { renderTemplate } from "@/lib/templates";
+import { OutreachLog } from "@/lib/types";
 
-// Simple in-memory log for demo purposes
-let logs: any[] = [];
+// 📜 HISTORY: /api/outreach?leadId=...&email=...&from=2024-01-01&to=2024-12-31
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+
+  const invalid = [["from", from], ["to", to]].find(([, value]) => value && isNaN(new Date(value).getTime()));
+  if (invalid) return NextResponse.json({ error: `Invalid "${invalid[0]}" date: ${invalid[1]}` }, { status: 400 });
+
+  const logs = getOutreachLogs({
+    leadId: searchParams.get("leadId") || undefined,
+    email: searchParams.get("email") || undefined,
+    from: from || undefined,
+    // A bare date means "through the end of that day"
+    to: to && to.length === 10 ? `${to}T23:59:59.999Z` : to || undefined
+  });
+
+  return NextResponse.json(logs);
+}
 
 export async function POST(request: Request) {
   const body = await request.json();
+  const { leadId, emailUsed, lead, templateId } = body;
+  let subject: string = body.subject;
+  let text: string = body.body || "";
+
+  // 🧩 TEMPLATE: render merge fields here, with the same code as the preview
+  const template = body.template || (templateId ? getTemplates().find(t => t.id === templateId) : undefined);
+  if (template) {
+    if (!lead) {
+      return NextResponse.json({ success: false, error: "Lead data is required to render a template." }, { status: 400 });
+    }
+    ({ subject, body: text } = renderTemplate(template, lead));
+  }
 
-  // SIMULATION: No real email is sent.
-  const newLog = {
+  if (!emailUsed || !subject) {
+    return NextResponse.json({ success: false, error: "Missing recipient or subject." }, { status: 400 });
+  }
+
+  // ✉️ REAL DELIVERY through the SMTP server from Settings
+  const result = await sendEmail({ to: emailUsed, subject, body: text });
+
+  const newLog: OutreachLog = {
     id: Math.random().toString(36).substr(2, 9),
+    leadId: leadId || lead?.id,
+    subject,
+    body: text,
+    emailUsed,
     sentAt: new Date().toISOString(),
-    ...body
+    status: result.success ? "sent" : "failed",
+    templateId: template?.id,
+    messageId: result.messageId,
+    error: result.error
   };
 
-  logs.unshift(newLog); // Add to beginning
+  addOutreachLog(newLog); // 💾 Persisted per lead
+
+  // 📈 First real email moves the lead to "Contacted"
+  const [staged] = result.success ? advanceStoredStage("Contacted", { leadId: newLog.leadId, email: emailUsed, lead }) : [];
 
-  return NextResponse.json({ success: true, log: newLog });
-}
\ No newline at end of file
+  return NextResponse.json({ success: result.success, error: result.error, log: newLog, lead: staged });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getLeads, saveLeadStage } from "@/lib/db";
+import { PIPELINE_STAGES } from "@/lib/pipeline";
+import { recordStageOutcome } from "@/lib/sequenceRunner";
+import { PipelineStage } from "@/lib/types";
+
+// 📈 /api/pipeline → every lead someone moved past "New" (the team's board)
+export async function GET() {
+  return NextResponse.json(getLeads({ tracked: true }));
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    if (body.action === "stage") {
+      const stage = body.stage as PipelineStage;
+      if (!body.lead?.id || !PIPELINE_STAGES.includes(stage)) {
+        return NextResponse.json({ error: "Send a lead and one of: " + PIPELINE_STAGES.join(", ") }, { status: 400 });
+      }
+      const lead = saveLeadStage(body.lead, stage);
+      const stopped = recordStageOutcome(lead, stage); // Replied / Won / Lost: no more follow-ups
+      return NextResponse.json({ success: true, lead, stopped });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" }, { status: 400 });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
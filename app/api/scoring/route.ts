@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getScoringRules, saveScoringRules } from "@/lib/db";
+import { DEFAULT_SCORING_RULES, scoreLeads } from "@/lib/scoring";
+
+export async function GET() {
+  return NextResponse.json(getScoringRules());
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    // Save rules → every stored lead is re-scored
+    if (action === "save" && body.rules) {
+      const rescored = saveScoringRules(body.rules);
+      return NextResponse.json({ success: true, rescored });
+    }
+
+    if (action === "reset") {
+      const rescored = saveScoringRules(DEFAULT_SCORING_RULES);
+      return NextResponse.json({ success: true, rescored, rules: DEFAULT_SCORING_RULES });
+    }
+
+    // Re-score leads the browser holds (search results aren't stored)
+    if (action === "score" && Array.isArray(body.leads)) {
+      return NextResponse.json({ success: true, leads: scoreLeads(body.leads, getScoringRules()) });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { deleteSequence, getEnrollments, getSequences, getSuppression, saveEnrollments, saveSequence } from "@/lib/db";
+import { createEnrollment } from "@/lib/sequences";
+import { ensureSequenceRunner, processDueSteps, recordLeadOutcome } from "@/lib/sequenceRunner";
+import { Lead } from "@/lib/types";
+
+export const runtime = 'nodejs';
+
+// 📋 /api/sequences?leadId=...&email=... → sequences + that lead's enrollments
+export async function GET(request: Request) {
+  ensureSequenceRunner();
+  const { searchParams } = new URL(request.url);
+  const leadId = searchParams.get("leadId") || undefined;
+  const email = searchParams.get("email") || undefined;
+
+  return NextResponse.json({
+    sequences: getSequences(),
+    enrollments: leadId || email ? getEnrollments({ leadId, email }) : getEnrollments(),
+    suppression: email ? getSuppression(email) || null : null
+  });
+}
+
+export async function POST(request: Request) {
+  ensureSequenceRunner();
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    if (action === "save" && body.sequence) {
+      const { sequence } = body;
+      if (!sequence.name || !sequence.steps || sequence.steps.length === 0) {
+        return NextResponse.json({ error: "A sequence needs a name and at least one step." }, { status: 400 });
+      }
+      const saved = saveSequence({
+        id: sequence.id || `seq-${Math.random().toString(36).substr(2, 9)}`,
+        name: sequence.name.trim(),
+        steps: sequence.steps.map((s: any) => ({ templateId: s.templateId || "", delayDays: Math.max(0, Number(s.delayDays) || 0) })),
+        updatedAt: new Date().toISOString()
+      });
+      return NextResponse.json({ success: true, sequence: saved });
+    }
+
+    if (action === "delete" && body.id) {
+      deleteSequence(body.id);
+      return NextResponse.json({ success: true });
+    }
+
+    // --- ENROLL ONE OR MANY LEADS ---
+    if (action === "enroll") {
+      const sequence = getSequences().find(s => s.id === body.sequenceId);
+      if (!sequence) return NextResponse.json({ error: "Sequence not found" }, { status: 404 });
+
+      const leads: Lead[] = body.leads || [];
+      const skipped: { leadId: string; reason: string }[] = [];
+      const enrollments = [];
+
+      for (const lead of leads) {
+        const email = lead.rawEmail || lead.predictedEmail;
+        if (!email) { skipped.push({ leadId: lead.id, reason: "no email" }); continue; }
+
+        const suppression = getSuppression(email);
+        if (suppression) { skipped.push({ leadId: lead.id, reason: suppression.reason }); continue; }
+
+        if (getEnrollments({ leadId: lead.id, email, status: "active" }).length > 0) {
+          skipped.push({ leadId: lead.id, reason: "already enrolled" });
+          continue;
+        }
+        enrollments.push(createEnrollment(sequence, lead, email));
+      }
+
+      saveEnrollments(enrollments);
+      // Steps with no delay go out now instead of on the next tick
+      processDueSteps().catch(e => console.error("Sequence Runner Error:", e));
+      return NextResponse.json({ success: true, enrolled: enrollments.length, skipped });
+    }
+
+    // --- LEAD OUTCOME: stops every active sequence for the lead ---
+    if (action === "mark" && body.email && ["replied", "bounced", "unsubscribed"].includes(body.outcome)) {
+      const stopped = recordLeadOutcome(body.email, body.leadId, body.outcome);
+      return NextResponse.json({ success: true, stopped });
+    }
+
+    if (action === "stop" && body.enrollmentId) {
+      const enrollment = getEnrollments().find(e => e.id === body.enrollmentId);
+      if (!enrollment) return NextResponse.json({ error: "Enrollment not found" }, { status: 404 });
+      saveEnrollments([{ ...enrollment, status: "stopped", stopReason: "manual", nextSendAt: undefined }]);
+      return NextResponse.json({ success: true });
+    }
+
+    // Cron-friendly: send whatever is due right now
+    if (action === "run") {
+      return NextResponse.json({ success: true, ...(await processDueSteps()) });
+    }
+
+    return NextResponse.json({ error: "Invalid Action" });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { saveApiKeys, getApiKeys } from "@/lib/config";
+import { saveApiKeys, getApiKeys, getCrmSettings, getNotifierSettings, getSmtpSettings, getVerificationSettings, HUBSPOT_API_URL } from "@/lib/config";
 
 export async function POST(request: Request) {
   try {
@@ -7,7 +7,29 @@ export async function POST(request: Request) {
     saveApiKeys({
         serpapi_key: body.serpapi_key?.trim(),
         apify_token: body.apify_token?.trim(),
-        discord_webhook: body.discord_webhook?.trim() // 👈 Save Discord
+        discord_webhook: body.discord_webhook?.trim(), // 👈 Save Discord
+        slack_webhook: body.slack_webhook?.trim(),
+        telegram_bot_token: body.telegram_bot_token?.trim(),
+        telegram_chat_id: body.telegram_chat_id?.trim(),
+        alert_email_to: body.alert_email_to?.trim(),
+
+        // ✉️ SMTP
+        smtp_host: body.smtp_host?.trim(),
+        smtp_port: body.smtp_port ? Number(body.smtp_port) : undefined,
+        smtp_secure: typeof body.smtp_secure === "boolean" ? body.smtp_secure : undefined,
+        smtp_user: body.smtp_user?.trim(),
+        smtp_pass: body.smtp_pass,
+        smtp_from: body.smtp_from?.trim(),
+        smtp_reply_to: body.smtp_reply_to?.trim(),
+        smtp_allow_self_signed: typeof body.smtp_allow_self_signed === "boolean" ? body.smtp_allow_self_signed : undefined,
+
+        // ✅ Verification
+        verify_smtp_probe: typeof body.verify_smtp_probe === "boolean" ? body.verify_smtp_probe : undefined,
+        verify_dns_servers: body.verify_dns_servers?.trim(),
+
+        // 🤝 CRM
+        hubspot_token: body.hubspot_token?.trim(),
+        hubspot_base_url: body.hubspot_base_url?.trim()
     });
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -17,11 +39,33 @@ export async function POST(request: Request) {
 
 export async function GET() {
   const keys = getApiKeys();
+  const smtp = getSmtpSettings();
+  const verification = getVerificationSettings();
+  const crm = getCrmSettings();
+  const alerts = getNotifierSettings();
   return NextResponse.json({
       serpapi_key: keys.SERPAPI_KEY || "",
       apify_token: keys.APIFY_TOKEN || "",
       discord_webhook: keys.DISCORD_WEBHOOK || "", // 👈 Return Discord
+      slack_webhook: alerts.slackWebhook || "",
+      telegram_bot_token: alerts.telegramBotToken || "",
+      telegram_chat_id: alerts.telegramChatId || "",
+      alert_email_to: alerts.alertEmailTo || "",
+      smtp_host: smtp.host || "",
+      smtp_port: smtp.port,
+      smtp_secure: smtp.secure,
+      smtp_user: smtp.user || "",
+      smtp_pass: smtp.pass || "",
+      smtp_from: smtp.from || "",
+      smtp_reply_to: smtp.replyTo || "",
+      smtp_allow_self_signed: smtp.allowSelfSigned,
+      verify_smtp_probe: verification.smtpProbe,
+      verify_dns_servers: verification.dnsServers.join(", "),
+      hubspot_token: crm.token || "",
+      hubspot_base_url: crm.baseUrl === HUBSPOT_API_URL ? "" : crm.baseUrl,
       hasSerpApi: !!keys.SERPAPI_KEY,
-      hasApify: !!keys.APIFY_TOKEN
+      hasApify: !!keys.APIFY_TOKEN,
+      hasSmtp: !!smtp.host,
+      hasCrm: !!crm.token
   });
-}
\ No newline at end of file
+}
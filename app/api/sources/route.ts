@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { describeSources } from "@/lib/sources";
+
+// 🔌 /api/sources → the registered lead sources (FilterPanel builds its search tabs from these)
+export async function GET() {
+  return NextResponse.json(describeSources());
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getTemplates, saveTemplate, deleteTemplate } from "@/lib/db";
+import { renderTemplate } from "@/lib/templates";
+
+export async function GET() {
+  return NextResponse.json(getTemplates());
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action, template, id, lead } = body;
+
+    if (action === "save" && template) {
+      if (!template.name || !template.subject || !template.body) {
+        return NextResponse.json({ error: "Name, subject and body are required." }, { status: 400 });
+      }
+      const saved = saveTemplate({
+        id: template.id || `tpl-${Math.random().toString(36).substr(2, 9)}`,
+        name: template.name.trim(),
+        subject: template.subject,
+        body: template.body,
+        audience: template.audience || "any",
+        updatedAt: new Date().toISOString()
+      });
+      return NextResponse.json({ success: true, template: saved });
+    }
+
+    if (action === "delete" && id) {
+      deleteTemplate(id);
+      return NextResponse.json({ success: true });
+    }
+
+    // Server-side render, identical to what /api/outreach sends
+    if (action === "preview" && lead) {
+      const source = template || getTemplates().find(t => t.id === id);
+      if (!source) return NextResponse.json({ error: "Template not found" }, { status: 404 });
+      return NextResponse.json(renderTemplate(source, lead));
+    }
+
+    return NextResponse.json({ error: "Invalid Action" });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
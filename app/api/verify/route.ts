@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { verifyEmail } from "@/lib/emailVerification";
+import { getVerifyOptions, verifyLeads } from "@/lib/verifyLeads";
+import { getScoringRules, updateLeads } from "@/lib/db";
+import { scoreLeads } from "@/lib/scoring";
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// ✅ VERIFY: { email } → one result, { leads } → the same leads with a real status + reason
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    if (body.email) {
+      return NextResponse.json(await verifyEmail(body.email, getVerifyOptions()));
+    }
+
+    if (Array.isArray(body.leads)) {
+      // Email quality feeds the score, so re-score with the new status
+      const verified = scoreLeads(await verifyLeads(body.leads), getScoringRules());
+      updateLeads(verified); // Keep stored Watchtower leads in sync
+      return NextResponse.json({ success: true, leads: verified });
+    }
+
+    return NextResponse.json({ error: "Send an email or a list of leads." }, { status: 400 });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
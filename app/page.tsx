@@ -4,13 +4,21 @@ import React, { useState } from "react";
 import FilterPanel from "@/components/FilterPanel";
 import LeadTable from "@/components/LeadTable";
 import LeadDetailsSidebar from "@/components/LeadDetailsSidebar";
-import { Lead } from "@/lib/types";
-import { Diamond } from "lucide-react";
+import PipelineBoard from "@/components/PipelineBoard";
+import JobProgress from "@/components/JobProgress";
+import { Lead, SearchJob, SearchParams } from "@/lib/types";
+import type { SearchJobEvent } from "@/lib/searchJobs";
+import { Diamond, Table, Kanban } from "lucide-react";
+
+const ACTIVE_JOB_KEY = "caratbridge_active_job";
 
 export default function Home() {
   const [leads, setLeads] = useState<Lead[]>([]);
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [loading, setLoading] = useState(false);
+  const [view, setView] = useState<"table" | "board">("table");
+  const [job, setJob] = useState<SearchJob | null>(null);
+  const eventsRef = React.useRef<EventSource | null>(null);
 
   // 🧠 THE BRAIN: Handles Google, Instagram, and Watchtower Data
   const fetchLeads = async (filters: any) => {
@@ -18,52 +26,90 @@ export default function Home() {
     setSelectedLead(null);
 
     // 🆕 WATCHTOWER LOGIC: If the Sidebar sends us "saved" data, we just display it.
-    if (filters.mode === "watchtower_load") {
+    if (filters.mode === "watchtower_load" || filters.mode === "list_load") {
+        stopWatching();
         setLeads(filters.leads || []);
         setLoading(false);
         return; 
     }
 
-    // NORMAL SEARCH LOGIC (Google / Instagram)
+    // NORMAL SEARCH LOGIC (any registered source: Google, Instagram...): submitted as a server-side job
     setLeads([]); // Clear old list so user knows something is happening
 
     try {
-      let endpoint = "";
-      const params = new URLSearchParams();
-
-      // 1. DETERMINE ENGINE
-      if (filters.mode === "instagram") {
-          // 📸 INSTAGRAM ENGINE
-          endpoint = "/api/instagram";
-          params.append("hashtag", filters.hashtag);
-      } else {
-          // 🌍 GOOGLE SATELLITE ENGINE
-          endpoint = "/api/leads";
-          // Check for "Bulk Mode" (commas) or single search
-          if (filters.keyword) params.append("keyword", filters.keyword);
-          if (filters.city) params.append("city", filters.city);
-          if (filters.country) params.append("country", filters.country);
-      }
+      const params: SearchParams = { source: filters.mode, input: filters.input || {} };
 
-      // 2. FIRE THE REQUEST
-      const res = await fetch(`${endpoint}?${params}`);
+      const res = await fetch("/api/jobs", { method: "POST", body: JSON.stringify({ action: "start", params }) });
       const data = await res.json();
 
-      // 3. HANDLE RESULTS
       if (data.error) {
           console.error("Search Error:", data.error);
           alert(`Search Failed: ${JSON.stringify(data.error)}`);
+          setLoading(false);
       } else {
-          setLeads(data);
+          watchJob(data.job.id);
       }
 
     } catch (error) {
       console.error("Critical Failure:", error);
-    } finally {
       setLoading(false);
     }
   };
 
+  // 📡 LIVE PROGRESS: partial results stream in; the job id survives a reload
+  const watchJob = (jobId: string) => {
+    stopWatching();
+    localStorage.setItem(ACTIVE_JOB_KEY, jobId);
+    setLoading(true);
+
+    const source = new EventSource(`/api/jobs?id=${jobId}&stream=1`);
+    eventsRef.current = source;
+    source.onmessage = (e) => {
+      const event: SearchJobEvent = JSON.parse(e.data);
+      setJob(event.job);
+      if (event.leads) setLeads(event.leads);
+      if (event.job.status === "running") return;
+
+      stopWatching();
+      if (event.job.status === "failed") alert(`Search Failed: ${event.job.error}`);
+      else if (event.job.warnings?.length) alert(`Some queries failed:\n${event.job.warnings.join("\n")}`);
+    };
+    source.onerror = () => stopWatching();
+  };
+
+  const stopWatching = () => {
+    eventsRef.current?.close();
+    eventsRef.current = null;
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+    setJob(null);
+    setLoading(false);
+  };
+
+  const cancelJob = async () => {
+    if (!job) return;
+    await fetch("/api/jobs", { method: "POST", body: JSON.stringify({ action: "cancel", id: job.id }) });
+  };
+
+  // Pick a running search back up after a reload
+  React.useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (jobId) watchJob(jobId);
+    return () => eventsRef.current?.close();
+  }, []);
+
+  // Merge updated copies (verification, enrichment...) back into the visible list
+  const updateLeads = (updated: Lead[]) => {
+    const byId = new Map(updated.map(l => [l.id, l]));
+    setLeads(prev => prev.map(l => byId.get(l.id) || l));
+    setSelectedLead(prev => (prev && byId.get(prev.id)) || prev);
+  };
+
+  // Two records became one: keep the merged lead, drop the other
+  const mergeLeads = (merged: Lead, removedId: string) => {
+    setLeads(prev => prev.filter(l => l.id !== removedId).map(l => (l.id === merged.id ? merged : l)));
+    setSelectedLead(prev => (prev && (prev.id === merged.id || prev.id === removedId) ? merged : prev));
+  };
+
   return (
     <main className="flex h-screen w-screen bg-white text-slate-900 font-sans overflow-hidden">
 
@@ -93,16 +139,28 @@ export default function Home() {
                     SECRET FINDER
                 </span>
              </h1>
+             <div className="flex bg-slate-100 p-1 rounded-lg gap-1">
+                <button onClick={() => setView("table")} className={`px-3 py-1.5 rounded text-xs font-bold flex items-center gap-1 ${view === "table" ? "bg-white shadow text-slate-900" : "text-slate-400"}`}><Table className="w-3 h-3" /> Table</button>
+                <button onClick={() => setView("board")} className={`px-3 py-1.5 rounded text-xs font-bold flex items-center gap-1 ${view === "board" ? "bg-white shadow text-slate-900" : "text-slate-400"}`}><Kanban className="w-3 h-3" /> Pipeline</button>
+             </div>
           </div>
 
-          {/* Results Table */}
-          <LeadTable leads={leads} onSelect={setSelectedLead} />
+          {/* Running Search */}
+          {job && job.status === "running" && <JobProgress job={job} onCancel={cancelJob} />}
+
+          {/* Results Table / Pipeline Board */}
+          {view === "table" ? (
+            <LeadTable leads={leads} onSelect={setSelectedLead} onLeadsUpdated={updateLeads} onLeadsMerged={mergeLeads} />
+          ) : (
+            <PipelineBoard leads={leads} onSelect={setSelectedLead} onLeadsUpdated={updateLeads} />
+          )}
 
           {/* Slide-out Details Panel */}
           {selectedLead && (
             <LeadDetailsSidebar 
                 lead={selectedLead} 
                 onClose={() => setSelectedLead(null)} 
+                onLeadsUpdated={updateLeads}
             />
           )}
         </div>
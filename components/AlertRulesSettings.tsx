@@ -0,0 +1,193 @@
+import React from "react";
+import { AlertRule, AlertRules } from "@/lib/types";
+import { Filter, Save, RotateCcw, Plus, Trash2, ArrowUp, ArrowDown, Eye } from "lucide-react";
+
+interface Props {
+  isEditing: boolean;
+}
+
+// A rule as typed: lists and numbers stay text until saved, so "a, b" can be typed freely
+interface DraftRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: AlertRule["action"];
+  hasEmail: "" | "yes" | "no";
+  tags: string;
+  minScore: string;
+  maxAgeHours: string;
+  includeKeywords: string;
+  excludeKeywords: string;
+  usernamePatterns: string;
+}
+
+type Stats = Record<string, { fired: number; lastAt: string }>;
+
+const parseList = (text: string) => text.split(",").map(v => v.trim()).filter(Boolean);
+
+const toDraft = (rule: AlertRule): DraftRule => ({
+  id: rule.id,
+  name: rule.name,
+  enabled: rule.enabled,
+  action: rule.action,
+  hasEmail: rule.hasEmail === undefined ? "" : rule.hasEmail ? "yes" : "no",
+  tags: rule.tags.join(", "),
+  minScore: rule.minScore === undefined ? "" : String(rule.minScore),
+  maxAgeHours: rule.maxAgeHours === undefined ? "" : String(rule.maxAgeHours),
+  includeKeywords: rule.includeKeywords.join(", "),
+  excludeKeywords: rule.excludeKeywords.join(", "),
+  usernamePatterns: rule.usernamePatterns.join(", ")
+});
+
+const fromDraft = (draft: DraftRule) => ({
+  id: draft.id,
+  name: draft.name,
+  enabled: draft.enabled,
+  action: draft.action,
+  hasEmail: draft.hasEmail === "" ? undefined : draft.hasEmail === "yes",
+  tags: parseList(draft.tags),
+  minScore: draft.minScore,
+  maxAgeHours: draft.maxAgeHours,
+  includeKeywords: parseList(draft.includeKeywords),
+  excludeKeywords: parseList(draft.excludeKeywords),
+  usernamePatterns: parseList(draft.usernamePatterns)
+});
+
+const newRule = (): DraftRule => ({
+  id: "", name: "New rule", enabled: true, action: "mute", hasEmail: "", tags: "", minScore: "", maxAgeHours: "",
+  includeKeywords: "", excludeKeywords: "", usernamePatterns: ""
+});
+
+// Which new Watchtower leads get announced (first matching rule wins)
+export default function AlertRulesSettings({ isEditing }: Props) {
+  const [rules, setRules] = React.useState<DraftRule[] | null>(null);
+  const [fallback, setFallback] = React.useState<AlertRules["fallback"]>("alert");
+  const [stats, setStats] = React.useState<Stats>({});
+  const [preview, setPreview] = React.useState<{ total: number; alerted: number; byRule: Record<string, number> } | null>(null);
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => { loadRules(); }, []);
+
+  const loadRules = async () => {
+    try {
+      const res = await fetch('/api/alert-rules');
+      if (!res.ok) return;
+      const data = await res.json();
+      setRules(data.rules.map(toDraft));
+      setFallback(data.fallback);
+      setStats(data.stats);
+      setPreview(null);
+    } catch (e) { console.warn("Alert rules loading..."); }
+  };
+
+  const post = async (action: "save" | "reset" | "preview") => {
+    if (!rules) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/alert-rules', { method: 'POST', body: JSON.stringify({ action, rules: { rules: rules.map(fromDraft), fallback } }) });
+      const data = await res.json();
+      if (data.error) alert("❌ " + data.error);
+      else if (action === "preview") setPreview(data);
+      else {
+        alert("✅ Alert rules saved. They apply from the next scan.");
+        loadRules();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!rules) return null;
+
+  const edit = (index: number, changes: Partial<DraftRule>) => setRules(rules.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  const move = (index: number, by: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + by, 0, rule);
+    setRules(next);
+  };
+
+  const text = (value: string, onChange: (v: string) => void, placeholder: string) => (
+    <input type="text" className="w-full bg-white border border-slate-300 rounded p-1 text-[11px]" placeholder={placeholder} value={value} onChange={(e) => onChange(e.target.value)} disabled={!isEditing} />
+  );
+  const firedText = (key: string) => {
+    const s = stats[key];
+    const previewed = preview ? ` · preview: ${preview.byRule[key] || 0}` : "";
+    return s ? `Fired ${s.fired}× · last ${new Date(s.lastAt).toLocaleDateString()}${previewed}` : `Never fired${previewed}`;
+  };
+
+  return (
+    <div className="p-4 border rounded-lg bg-slate-50 transition-colors focus-within:border-slate-400 space-y-3">
+        <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+            <Filter className="w-3 h-3" /> Alert Rules
+        </label>
+
+        {rules.map((rule, i) => (
+            <div key={i} className={`space-y-1 p-2 rounded border bg-white ${rule.enabled ? "border-slate-200" : "border-dashed border-slate-200 opacity-60"}`}>
+                <div className="flex items-center gap-1">
+                    <input type="checkbox" checked={rule.enabled} onChange={(e) => edit(i, { enabled: e.target.checked })} disabled={!isEditing} title="Enabled" />
+                    <input type="text" className="flex-1 min-w-0 border border-slate-300 rounded p-1 text-[11px] font-bold" value={rule.name} onChange={(e) => edit(i, { name: e.target.value })} disabled={!isEditing} />
+                    <select className="border border-slate-300 rounded p-1 text-[11px]" value={rule.action} onChange={(e) => edit(i, { action: e.target.value as AlertRule["action"] })} disabled={!isEditing}>
+                        <option value="alert">Alert</option>
+                        <option value="mute">Mute</option>
+                    </select>
+                    {isEditing && (
+                        <>
+                            <button onClick={() => move(i, -1)} disabled={i === 0} className="text-slate-400 hover:text-slate-700 disabled:opacity-30"><ArrowUp className="w-3 h-3" /></button>
+                            <button onClick={() => move(i, 1)} disabled={i === rules.length - 1} className="text-slate-400 hover:text-slate-700 disabled:opacity-30"><ArrowDown className="w-3 h-3" /></button>
+                            <button onClick={() => setRules(rules.filter((_, j) => j !== i))} className="text-red-400 hover:text-red-600"><Trash2 className="w-3 h-3" /></button>
+                        </>
+                    )}
+                </div>
+                {text(rule.tags, v => edit(i, { tags: v }), "Tags (empty = every tag)")}
+                <div className="flex gap-1">
+                    <select className="flex-1 min-w-0 border border-slate-300 rounded p-1 text-[11px]" value={rule.hasEmail} onChange={(e) => edit(i, { hasEmail: e.target.value as DraftRule["hasEmail"] })} disabled={!isEditing}>
+                        <option value="">Any email</option>
+                        <option value="yes">Has email</option>
+                        <option value="no">No email</option>
+                    </select>
+                    <input type="number" className="w-20 border border-slate-300 rounded p-1 text-[11px]" placeholder="Min score" value={rule.minScore} onChange={(e) => edit(i, { minScore: e.target.value })} disabled={!isEditing} />
+                    <input type="number" className="w-20 border border-slate-300 rounded p-1 text-[11px]" placeholder="Max age (h)" value={rule.maxAgeHours} onChange={(e) => edit(i, { maxAgeHours: e.target.value })} disabled={!isEditing} />
+                </div>
+                {text(rule.includeKeywords, v => edit(i, { includeKeywords: v }), "Caption mentions any of: wholesale, loose diamonds")}
+                {text(rule.excludeKeywords, v => edit(i, { excludeKeywords: v }), "Caption mentions none of: giveaway, repost")}
+                {text(rule.usernamePatterns, v => edit(i, { usernamePatterns: v }), "Username matches any of: *giveaway*, rival_*")}
+                {rule.id && <p className="text-[10px] text-slate-400">{firedText(rule.id)}</p>}
+            </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-2 text-[11px] text-slate-600">
+            <span>When no rule matches</span>
+            <select className="bg-white border border-slate-300 rounded p-1 text-[11px]" value={fallback} onChange={(e) => setFallback(e.target.value as AlertRules["fallback"])} disabled={!isEditing}>
+                <option value="alert">Alert</option>
+                <option value="mute">Mute</option>
+            </select>
+        </div>
+        <p className="text-[10px] text-slate-400">{firedText("fallback")}</p>
+
+        {preview && (
+            <p className="text-[11px] text-slate-600 bg-white border border-slate-200 rounded p-2">
+                Of the last {preview.total} Watchtower leads, <b>{preview.alerted}</b> would be announced and {preview.total - preview.alerted} muted.
+            </p>
+        )}
+
+        {isEditing && (
+            <div className="flex gap-2">
+                <button onClick={() => setRules([...rules, newRule()])} className="px-3 border border-slate-300 rounded text-slate-500" title="Add rule">
+                    <Plus className="w-3 h-3" />
+                </button>
+                <button onClick={() => post("save")} disabled={saving} className="flex-1 bg-slate-900 text-white text-xs font-bold py-2 rounded flex justify-center items-center gap-1">
+                    <Save className="w-3 h-3" /> {saving ? "Saving..." : "Save Rules"}
+                </button>
+                <button onClick={() => post("preview")} disabled={saving} title="Try on recent leads" className="px-3 border border-slate-300 rounded text-slate-500">
+                    <Eye className="w-3 h-3" />
+                </button>
+                <button onClick={() => post("reset")} disabled={saving} title="Remove all rules" className="px-3 border border-slate-300 rounded text-slate-500">
+                    <RotateCcw className="w-3 h-3" />
+                </button>
+            </div>
+        )}
+        <p className="text-[10px] text-slate-400">Rules run top to bottom; the first whose conditions all hold decides. Blank conditions are skipped. Muted leads are still saved.</p>
+    </div>
+  );
+}
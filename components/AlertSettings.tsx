@@ -0,0 +1,101 @@
+import React from "react";
+import type { AlertSchedule, FailedAlert } from "@/lib/notifiers/types";
+import { Save, RotateCcw, X, AlertTriangle } from "lucide-react";
+
+interface Props {
+  isEditing: boolean;
+}
+
+interface AlertStatus {
+  schedule: AlertSchedule;
+  nextDigestAt?: string;
+  queued: number;
+  failed: FailedAlert[];
+}
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+// Instant alerts or a digest, and the sends that failed after retrying
+export default function AlertSettings({ isEditing }: Props) {
+  const [status, setStatus] = React.useState<AlertStatus | null>(null);
+  const [schedule, setSchedule] = React.useState<AlertSchedule>({ mode: "instant", hour: 9 });
+  const [busy, setBusy] = React.useState("");
+
+  const load = React.useCallback(() => {
+    fetch('/api/notifications').then(res => res.ok ? res.json() : null).then(data => {
+      if (!data) return;
+      setStatus(data);
+      setSchedule(data.schedule);
+    }).catch(() => console.warn("Alert delivery loading..."));
+  }, []);
+
+  React.useEffect(() => { load(); }, [load]);
+
+  const post = async (key: string, body: any, done?: string) => {
+    setBusy(key);
+    try {
+      const res = await fetch('/api/notifications', { method: 'POST', body: JSON.stringify(body) });
+      const data = await res.json();
+      if (data.error) alert("❌ " + data.error);
+      else if (done) alert(done);
+      load();
+    } finally {
+      setBusy("");
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="space-y-3 pt-2 border-t border-slate-200">
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Delivery</p>
+            <div className="flex gap-2">
+                <select className="flex-1 bg-white border border-slate-300 rounded p-2 text-sm" value={schedule.mode} onChange={(e) => setSchedule({ ...schedule, mode: e.target.value as AlertSchedule["mode"] })} disabled={!isEditing}>
+                    <option value="instant">After every scan</option>
+                    <option value="daily">Daily digest</option>
+                    <option value="weekly">Weekly digest (Mondays)</option>
+                </select>
+                {schedule.mode !== "instant" && (
+                    <select className="w-24 bg-white border border-slate-300 rounded p-2 text-sm" value={schedule.hour} onChange={(e) => setSchedule({ ...schedule, hour: Number(e.target.value) })} disabled={!isEditing}>
+                        {HOURS.map(h => <option key={h} value={h}>{String(h).padStart(2, "0")}:00</option>)}
+                    </select>
+                )}
+                {isEditing && (
+                    <button onClick={() => post("schedule", { action: "schedule", schedule }, "✅ Alert delivery saved.")} disabled={!!busy} className="px-3 bg-slate-900 text-white rounded flex items-center">
+                        <Save className="w-3 h-3" />
+                    </button>
+                )}
+            </div>
+            <p className="text-[10px] text-slate-400">
+                {status.schedule.mode === "instant"
+                    ? "One message per scan, with every new lead."
+                    : `${status.queued} lead${status.queued === 1 ? "" : "s"} waiting. Next digest ${status.nextDigestAt ? new Date(status.nextDigestAt).toLocaleString() : "soon"} (server time), by tag and score.`}
+            </p>
+        </div>
+
+        {status.failed.length > 0 && (
+            <div className="space-y-1">
+                <p className="text-[10px] font-bold text-red-400 uppercase flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> Failed sends</p>
+                {status.failed.map(f => (
+                    <div key={f.id} className="flex items-start gap-2 bg-white border border-red-100 rounded p-2 text-[11px]">
+                        <div className="flex-1 min-w-0">
+                            <p className="font-bold text-slate-700">
+                                {f.channel} · {f.digest ? `${f.digest.mode} digest` : `${f.leadIds?.length || 0} lead${f.leadIds?.length === 1 ? "" : "s"}`}
+                                <span className="font-normal text-slate-400"> · {new Date(f.failedAt).toLocaleString()}{f.attempts > 1 ? ` · ${f.attempts} attempts` : ""}{f.retryAt ? ` · retries ${new Date(f.retryAt).toLocaleString()}` : ""}</span>
+                            </p>
+                            <p className="text-red-500 truncate" title={f.error}>{f.error}</p>
+                        </div>
+                        <button onClick={() => post(f.id, { action: "retry", id: f.id }, "✅ Alert sent.")} disabled={!!busy} title="Retry" className="text-slate-500 hover:text-slate-800">
+                            <RotateCcw className={`w-3 h-3 ${busy === f.id ? "animate-spin" : ""}`} />
+                        </button>
+                        <button onClick={() => post(f.id, { action: "dismiss", id: f.id })} disabled={!!busy} title="Dismiss" className="text-slate-400 hover:text-red-600">
+                            <X className="w-3 h-3" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React from "react";
+import { CaptionDetails, PostClass } from "@/lib/types";
+import { MessageSquareText, Save, RotateCcw, FlaskConical } from "lucide-react";
+
+interface Props {
+  isEditing: boolean;
+}
+
+// "Selling: for sale, in stock" per line
+const toText = (classes: PostClass[]) => classes.map(c => `${c.label}: ${c.keywords.join(", ")}`).join("\n");
+const parseText = (text: string): PostClass[] => text.split("\n").map(line => {
+  const [label, ...rest] = line.split(":");
+  return { label: (label || "").trim(), keywords: rest.join(":").split(",").map(k => k.trim()).filter(Boolean) };
+}).filter(c => c.label);
+
+const DETAIL_ROWS: { key: keyof CaptionDetails; label: string }[] = [
+  { key: "classes", label: "Classes" },
+  { key: "emails", label: "Emails" },
+  { key: "phones", label: "Phones" },
+  { key: "whatsapp", label: "WhatsApp" },
+  { key: "linkPages", label: "Link pages" },
+  { key: "websites", label: "Websites" },
+  { key: "mentions", label: "Mentions" },
+  { key: "locations", label: "Locations" }
+];
+
+// Post classes for Instagram captions, with a box to try a caption against them
+export default function CaptionSettings({ isEditing }: Props) {
+  const [text, setText] = React.useState<string | null>(null);
+  const [sample, setSample] = React.useState("");
+  const [details, setDetails] = React.useState<CaptionDetails | null>(null);
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => { loadClasses(); }, []);
+
+  const loadClasses = async () => {
+    try {
+      const res = await fetch('/api/captions');
+      if (res.ok) setText(toText(await res.json()));
+    } catch (e) { console.warn("Post classes loading..."); }
+  };
+
+  const post = async (body: any) => {
+    const res = await fetch('/api/captions', { method: 'POST', body: JSON.stringify(body) });
+    return res.json();
+  };
+
+  const save = async (action: "save" | "reset") => {
+    if (text === null) return;
+    setSaving(true);
+    try {
+      const data = await post({ action, classes: parseText(text) });
+      if (data.error) alert("❌ " + data.error);
+      else {
+        setText(toText(data.classes));
+        alert(`✅ Post classes saved. Re-classified ${data.reclassified} stored captions.`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const tryCaption = async () => {
+    if (text === null || !sample.trim()) return;
+    const data = await post({ action: "parse", text: sample, classes: parseText(text) });
+    if (data.error) alert("❌ " + data.error);
+    else setDetails(data.details);
+  };
+
+  if (text === null) return null;
+
+  return (
+    <div className="p-4 border rounded-lg bg-slate-50 transition-colors focus-within:border-slate-400 space-y-3">
+        <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+            <MessageSquareText className="w-3 h-3" /> Instagram Captions
+        </label>
+
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Post Classes (label: keywords)</p>
+            <textarea rows={4} className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs font-mono" value={text} onChange={(e) => setText(e.target.value)} disabled={!isEditing} />
+        </div>
+
+        {isEditing && (
+            <div className="flex gap-2">
+                <button onClick={() => save("save")} disabled={saving} className="flex-1 bg-slate-900 text-white text-xs font-bold py-2 rounded flex justify-center items-center gap-1">
+                    <Save className="w-3 h-3" /> {saving ? "Re-classifying..." : "Save & Re-classify"}
+                </button>
+                <button onClick={() => save("reset")} disabled={saving} title="Reset to defaults" className="px-3 border border-slate-300 rounded text-slate-500">
+                    <RotateCcw className="w-3 h-3" />
+                </button>
+            </div>
+        )}
+
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Try a caption</p>
+            <textarea rows={3} className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs" placeholder="Paste a caption..." value={sample} onChange={(e) => setSample(e.target.value)} />
+            <button onClick={tryCaption} disabled={!sample.trim()} className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 rounded text-xs font-bold text-slate-600 hover:bg-white disabled:opacity-50">
+                <FlaskConical className="w-3 h-3" /> Parse
+            </button>
+            {details && (
+                <div className="text-[11px] bg-white border border-slate-200 rounded p-2 space-y-0.5">
+                    {DETAIL_ROWS.map(row => (
+                        <p key={row.key} className="break-all"><b className="text-slate-500">{row.label}:</b> {details[row.key].join(", ") || <span className="text-slate-300">none</span>}</p>
+                    ))}
+                </div>
+            )}
+        </div>
+        <p className="text-[10px] text-slate-400">A post gets every class whose keywords its caption mentions. Emails, numbers and links are parsed from every new Instagram post.</p>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React from "react";
+import { CrmMapping, CrmPropertyMapping } from "@/lib/types";
+import { Save, RotateCcw, Plus, Trash2, Plug } from "lucide-react";
+
+interface Props {
+  isEditing: boolean;
+}
+
+type ObjectType = keyof CrmMapping;
+
+// HubSpot property ← lead value, for contacts and companies
+export default function CrmSettings({ isEditing }: Props) {
+  const [mapping, setMapping] = React.useState<CrmMapping | null>(null);
+  const [values, setValues] = React.useState<{ id: string; label: string }[]>([]);
+  const [saving, setSaving] = React.useState(false);
+  const [testing, setTesting] = React.useState(false);
+
+  React.useEffect(() => {
+    fetch('/api/crm').then(res => res.ok ? res.json() : null).then(data => {
+      if (!data) return;
+      setMapping(data.mapping);
+      setValues(data.values);
+    }).catch(() => console.warn("CRM mapping loading..."));
+  }, []);
+
+  const post = async (body: any) => {
+    const res = await fetch('/api/crm', { method: 'POST', body: JSON.stringify(body) });
+    return res.json();
+  };
+
+  const save = async (action: "saveMapping" | "resetMapping") => {
+    setSaving(true);
+    try {
+      const data = await post({ action, mapping });
+      if (data.error) alert("❌ " + data.error);
+      else {
+        setMapping(data.mapping);
+        alert("✅ CRM mapping saved.");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Uses the saved token and URL (save keys first)
+  const test = async () => {
+    setTesting(true);
+    try {
+      const data = await post({ action: "test" });
+      alert(data.error ? "❌ " + data.error : "✅ Connected to HubSpot.");
+    } catch (e: any) {
+      alert("❌ " + e.message);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  if (!mapping) return null;
+
+  const update = (type: ObjectType, rows: CrmPropertyMapping[]) => setMapping({ ...mapping, [type]: rows });
+  const edit = (type: ObjectType, index: number, changes: Partial<CrmPropertyMapping>) =>
+    update(type, mapping[type].map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const section = (type: ObjectType, title: string) => (
+    <div className="space-y-1">
+        <p className="text-[10px] font-bold text-slate-400 uppercase">{title} properties</p>
+        {mapping[type].map((row, i) => (
+            <div key={i} className="flex items-center gap-1">
+                <input type="text" className="w-24 min-w-0 bg-white border border-slate-300 rounded p-1 text-[11px] font-mono" value={row.property} onChange={(e) => edit(type, i, { property: e.target.value })} disabled={!isEditing} />
+                <span className="text-slate-400 text-[10px]">←</span>
+                <select className="flex-1 min-w-0 bg-white border border-slate-300 rounded p-1 text-[11px]" value={row.value} onChange={(e) => edit(type, i, { value: e.target.value })} disabled={!isEditing}>
+                    {values.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                </select>
+                {isEditing && (
+                    <button onClick={() => update(type, mapping[type].filter((_, j) => j !== i))} className="text-red-400 hover:text-red-600"><Trash2 className="w-3 h-3" /></button>
+                )}
+            </div>
+        ))}
+        {isEditing && (
+            <button onClick={() => update(type, [...mapping[type], { property: "", value: values[0]?.id || "companyName" }])} className="text-[11px] text-slate-500 hover:text-slate-800 flex items-center gap-1">
+                <Plus className="w-3 h-3" /> Add property
+            </button>
+        )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 pt-2">
+        {section("contact", "Contact")}
+        {section("company", "Company")}
+        <div className="flex gap-2">
+            {isEditing && (
+                <>
+                    <button onClick={() => save("saveMapping")} disabled={saving} className="flex-1 bg-slate-900 text-white text-xs font-bold py-2 rounded flex justify-center items-center gap-1">
+                        <Save className="w-3 h-3" /> {saving ? "Saving..." : "Save Mapping"}
+                    </button>
+                    <button onClick={() => save("resetMapping")} disabled={saving} title="Reset to defaults" className="px-3 border border-slate-300 rounded text-slate-500">
+                        <RotateCcw className="w-3 h-3" />
+                    </button>
+                </>
+            )}
+            <button onClick={test} disabled={testing} className="flex items-center gap-1 px-3 py-2 border border-slate-300 rounded text-xs font-bold text-slate-600 hover:bg-white">
+                <Plug className="w-3 h-3" /> {testing ? "Testing..." : "Test"}
+            </button>
+        </div>
+        <p className="text-[10px] text-slate-400">Property names are HubSpot&apos;s internal names. Empty lead values are skipped, so a push never clears a field in HubSpot.</p>
+    </div>
+  );
+}
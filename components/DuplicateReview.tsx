@@ -0,0 +1,139 @@
+import React from "react";
+import { DuplicateMatch, Lead } from "@/lib/types";
+import { MERGEABLE_FIELDS } from "@/lib/dedupe";
+import { GitMerge, X, ArrowLeftRight } from "lucide-react";
+
+interface Props {
+  leads: Lead[];
+  onClose: () => void;
+  onMerged: (merged: Lead, removedId: string) => void;
+}
+
+type Side = "primary" | "secondary";
+
+const show = (value: unknown) => (value === undefined || value === null || value === "" ? "—" : String(value));
+
+export default function DuplicateReview({ leads, onClose, onMerged }: Props) {
+  const [matches, setMatches] = React.useState<DuplicateMatch[] | null>(null);
+  const [active, setActive] = React.useState<{ primary: Lead; secondary: Lead; match: DuplicateMatch } | null>(null);
+  const [choices, setChoices] = React.useState<Record<string, Side>>({});
+  const [merging, setMerging] = React.useState(false);
+
+  const byId = React.useMemo(() => new Map(leads.map(l => [l.id, l])), [leads]);
+
+  React.useEffect(() => {
+    fetch('/api/duplicates', { method: 'POST', body: JSON.stringify({ action: 'find', leads }) })
+      .then(res => res.json())
+      .then(data => setMatches(data.matches || []))
+      .catch(() => setMatches([]));
+  }, []);
+
+  const open = (match: DuplicateMatch, swap = false) => {
+    const a = byId.get(match.leadId);
+    const b = byId.get(match.duplicateId);
+    if (!a || !b) return;
+    setActive({ primary: swap ? b : a, secondary: swap ? a : b, match });
+    setChoices({});
+  };
+
+  // Fields where the two records disagree (the only ones worth asking about)
+  const differing = active
+    ? MERGEABLE_FIELDS.filter(f => show(active.primary[f]) !== show(active.secondary[f]))
+    : [];
+
+  const pick = (field: string): Side => {
+    if (choices[field]) return choices[field];
+    return active && show(active.primary[field as keyof Lead]) === "—" ? "secondary" : "primary";
+  };
+
+  const merge = async () => {
+    if (!active) return;
+    setMerging(true);
+    try {
+      const fieldChoices = Object.fromEntries(differing.map(f => [f, pick(f)]));
+      const res = await fetch('/api/duplicates', {
+        method: 'POST',
+        body: JSON.stringify({ action: 'merge', primary: active.primary, secondary: active.secondary, choices: fieldChoices })
+      });
+      const data = await res.json();
+      if (data.error) return alert("❌ " + data.error);
+      onMerged(data.lead, data.removedId);
+      setMatches(prev => (prev || []).filter(m => m.leadId !== data.removedId && m.duplicateId !== data.removedId));
+      setActive(null);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 z-50 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-900 flex items-center gap-2"><GitMerge className="w-4 h-4" /> Possible Duplicates</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-800"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {!matches && <p className="text-sm text-slate-400">Comparing names, domains, phones and handles...</p>}
+          {matches && matches.length === 0 && <p className="text-sm text-slate-400">No likely duplicates in this list.</p>}
+
+          {!active && matches && matches.map(match => {
+            const a = byId.get(match.leadId);
+            const b = byId.get(match.duplicateId);
+            if (!a || !b) return null;
+            return (
+              <div key={`${match.leadId}-${match.duplicateId}`} className="flex items-center justify-between gap-4 py-3 border-b border-slate-100">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-slate-900 truncate">{a.companyName} <span className="text-slate-300">↔</span> {b.companyName}</p>
+                  <p className="text-[11px] text-slate-500">{match.reasons.join(" · ")}</p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className={`text-xs font-bold ${match.confidence >= 80 ? "text-red-600" : "text-amber-600"}`}>{match.confidence}%</span>
+                  <button onClick={() => open(match)} className="text-xs font-bold border border-slate-300 rounded px-3 py-1.5 hover:bg-slate-50">Review</button>
+                </div>
+              </div>
+            );
+          })}
+
+          {active && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-slate-500">Pick the value to keep for each field. The other record is kept in the merged lead&apos;s history.</p>
+                <button onClick={() => open(active.match, active.primary.id === active.match.leadId)} className="text-xs text-slate-500 flex items-center gap-1 hover:text-slate-900">
+                  <ArrowLeftRight className="w-3 h-3" /> Swap
+                </button>
+              </div>
+              <table className="w-full text-xs">
+                <thead className="text-[10px] uppercase text-slate-400">
+                  <tr><th className="text-left py-2">Field</th><th className="text-left">Keep (stays)</th><th className="text-left">Merge in (removed)</th></tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {differing.map(field => (
+                    <tr key={field}>
+                      <td className="py-2 font-bold text-slate-600">{field}</td>
+                      {(["primary", "secondary"] as Side[]).map(side => (
+                        <td key={side} className="py-2 pr-3">
+                          <label className="flex items-start gap-2 cursor-pointer">
+                            <input type="radio" name={field} checked={pick(field) === side} onChange={() => setChoices({ ...choices, [field]: side })} />
+                            <span className="break-all text-slate-700">{show(active[side][field])}</span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {differing.length === 0 && <p className="text-xs text-slate-400">These records hold the same values.</p>}
+              <div className="flex gap-2">
+                <button onClick={merge} disabled={merging} className="flex-1 bg-slate-900 text-white text-xs font-bold py-2 rounded flex justify-center items-center gap-2">
+                  <GitMerge className="w-3 h-3" /> {merging ? "Merging..." : "Merge"}
+                </button>
+                <button onClick={() => setActive(null)} className="px-4 border border-slate-300 rounded text-xs text-slate-500">Back</button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
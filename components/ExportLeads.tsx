@@ -0,0 +1,109 @@
+import React from "react";
+import type { ExportFormat, ExportScope } from "@/lib/exporter";
+import { Download } from "lucide-react";
+
+interface Props {
+  scope: ExportScope;
+  name: string;     // File name stem
+  count?: number;   // Shown on the button
+  compact?: boolean; // Icon only (list rows)
+}
+
+interface ExportOptions {
+  columns: { id: string; label: string }[];
+  defaultColumns: string[];
+  formats: { id: ExportFormat; label: string; usesColumns: boolean }[];
+}
+
+const COLUMNS_KEY = "caratbridge_export_columns";
+
+// 📤 Format + columns picker; the server builds the file
+export default function ExportLeads({ scope, name, count, compact }: Props) {
+  const [open, setOpen] = React.useState(false);
+  const [options, setOptions] = React.useState<ExportOptions | null>(null);
+  const [format, setFormat] = React.useState<ExportFormat>("xlsx");
+  const [columns, setColumns] = React.useState<string[]>([]);
+  const [exporting, setExporting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open || options) return;
+    fetch('/api/export').then(res => res.json()).then((data: ExportOptions) => {
+      setOptions(data);
+      const saved = localStorage.getItem(COLUMNS_KEY);
+      setColumns(saved ? JSON.parse(saved) : data.defaultColumns);
+    }).catch(() => console.warn("Export options loading..."));
+  }, [open, options]);
+
+  const toggleColumn = (id: string) => {
+    const next = columns.includes(id) ? columns.filter(c => c !== id) : [...columns, id];
+    setColumns(next);
+    localStorage.setItem(COLUMNS_KEY, JSON.stringify(next));
+  };
+
+  const download = async () => {
+    setExporting(true);
+    try {
+      const res = await fetch('/api/export', { method: 'POST', body: JSON.stringify({ format, columns, scope, name }) });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ error: res.statusText }));
+        return alert("❌ " + data.error);
+      }
+      const fileName = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || `${name}.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.setAttribute("download", fileName);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      setOpen(false);
+    } catch (e: any) {
+      alert("❌ " + e.message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const usesColumns = options?.formats.find(f => f.id === format)?.usesColumns;
+
+  return (
+    <div className="relative">
+        {compact
+            ? <button onClick={() => setOpen(!open)} title="Export" className="text-slate-400 hover:text-slate-700"><Download className="w-4 h-4" /></button>
+            : <button onClick={() => setOpen(!open)} className="flex items-center gap-2 text-xs font-bold text-white bg-slate-900 border border-slate-900 px-4 py-2 rounded hover:bg-slate-800 transition-colors shadow-md">
+                  <Download className="w-4 h-4" /> Export{count !== undefined ? ` (${count})` : ""}
+              </button>}
+
+        {open && (
+            <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-slate-200 rounded shadow-xl z-30 p-3 space-y-3 text-xs">
+                {!options && <p className="text-slate-400 italic">Loading...</p>}
+                {options && (
+                    <>
+                        <select value={format} onChange={e => setFormat(e.target.value as ExportFormat)} className="w-full border border-slate-200 rounded px-2 py-2 bg-white">
+                            {options.formats.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                        </select>
+                        {usesColumns ? (
+                            <div className="max-h-64 overflow-y-auto grid grid-cols-2 gap-x-2 gap-y-1">
+                                {options.columns.map(c => (
+                                    <label key={c.id} className="flex items-center gap-1 text-slate-600 truncate">
+                                        <input type="checkbox" checked={columns.includes(c.id)} onChange={() => toggleColumn(c.id)} /> {c.label}
+                                    </label>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-slate-400 italic">This format has a fixed set of fields.</p>
+                        )}
+                        <div className="flex gap-2">
+                            {usesColumns && <button onClick={() => { setColumns(options.defaultColumns); localStorage.removeItem(COLUMNS_KEY); }} className="text-slate-500 hover:text-slate-800">Reset</button>}
+                            <button onClick={download} disabled={exporting} className="flex-1 bg-slate-900 text-white font-bold p-2 rounded hover:bg-slate-700 disabled:opacity-50">
+                                {exporting ? "Exporting..." : "Download"}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        )}
+    </div>
+  );
+}
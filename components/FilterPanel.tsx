@@ -1,5 +1,22 @@
                                                                                                                                                                                        import React from "react";
-                                                                                                                                                                                       import { Search, MapPin, Globe, Building2, MousePointerClick, Camera, Satellite, Eye, EyeOff, Trash2, Plus, Settings, Save, Play, Square, Edit2, Bell } from "lucide-react";
+                                                                                                                                                                                       import { Search, MapPin, Globe, Building2, MousePointerClick, Camera, Satellite, Eye, EyeOff, Trash2, Plus, Settings, Save, Play, Square, Edit2, Bell, Mail, ShieldCheck, FolderOpen, Share2 } from "lucide-react";
+                                                                                                                                                                                       import ScoringSettings from "@/components/ScoringSettings";
+                                                                                                                                                                                       import CrmSettings from "@/components/CrmSettings";
+                                                                                                                                                                                       import AlertSettings from "@/components/AlertSettings";
+                                                                                                                                                                                       import AlertRulesSettings from "@/components/AlertRulesSettings";
+                                                                                                                                                                                       import CaptionSettings from "@/components/CaptionSettings";
+                                                                                                                                                                                       import SavedLists from "@/components/SavedLists";
+                                                                                                                                                                                       import ScanHistory from "@/components/ScanHistory";
+                                                                                                                                                                                       import type { WatchStatus } from "@/lib/watchtower";
+                                                                                                                                                                                       import type { SourceDescriptor } from "@/lib/sources/types";
+                                                                                                                                                                                       import type { NotifierDescriptor, NotifierId } from "@/lib/notifiers/types";
+
+                                                                                                                                                                                       // How each source's tab and search button look (SourceDescriptor.icon / .theme)
+                                                                                                                                                                                       const SOURCE_ICONS: Record<string, React.ElementType> = { satellite: Satellite, camera: Camera, search: Search };
+                                                                                                                                                                                       const SOURCE_THEMES = {
+                                                                                                                                                                                         dark: { tab: "bg-white shadow", button: "bg-slate-900" },
+                                                                                                                                                                                         instagram: { tab: "bg-white shadow text-pink-500", button: "bg-gradient-to-r from-purple-500 to-pink-500" }
+                                                                                                                                                                                       };
 
                                                                                                                                                                                        interface Props {
                                                                                                                                                                                          onSearch: (filters: any) => void;
@@ -8,57 +25,104 @@
 
                                                                                                                                                                                        export default function FilterPanel({ onSearch, isLoading }: Props) {
                                                                                                                                                                                          // MODES
-                                                                                                                                                                                         const [mode, setMode] = React.useState<"google" | "instagram" | "watchtower" | "settings">("google");
+                                                                                                                                                                                         // A registered lead source's id ("google", "instagram"...) or one of the fixed panels
+                                                                                                                                                                                         const [mode, setMode] = React.useState<string>("google");
 
-                                                                                                                                                                                         // Inputs
-                                                                                                                                                                                         const [keyword, setKeyword] = React.useState("Jewelry Store");
-                                                                                                                                                                                         const [city, setCity] = React.useState("Deira");
-                                                                                                                                                                                         const [country, setCountry] = React.useState("Dubai");
-                                                                                                                                                                                         const [hashtag, setHashtag] = React.useState("diamondjewelry");
+                                                                                                                                                                                         // Search sources + their inputs (by source id, then field name)
+                                                                                                                                                                                         const [sources, setSources] = React.useState<SourceDescriptor[]>([]);
+                                                                                                                                                                                         const [inputs, setInputs] = React.useState<Record<string, Record<string, string>>>({});
 
                                                                                                                                                                                          // Watchtower State
                                                                                                                                                                                          const [newTag, setNewTag] = React.useState("");
                                                                                                                                                                                          const [monitoredTags, setMonitoredTags] = React.useState<string[]>([]);
                                                                                                                                                                                          const [scanning, setScanning] = React.useState(false);
                                                                                                                                                                                          const [isRunning, setIsRunning] = React.useState(false);
+                                                                                                                                                                                         const [schedule, setSchedule] = React.useState<WatchStatus | null>(null);
+                                                                                                                                                                                         const [channels, setChannels] = React.useState<NotifierDescriptor[]>([]);
+                                                                                                                                                                                         const lastChecked = React.useRef(0);
+                                                                                                                                                                                         const [lastCheckedAt, setLastCheckedAt] = React.useState(0);
 
                                                                                                                                                                                          // Settings State
                                                                                                                                                                                          const [serpKey, setSerpKey] = React.useState("");
                                                                                                                                                                                          const [apifyKey, setApifyKey] = React.useState("");
                                                                                                                                                                                          const [discordKey, setDiscordKey] = React.useState(""); // 🆕 Discord State
+                                                                                                                                                                                         const [alerts, setAlerts] = React.useState({ slack: "", telegramToken: "", telegramChatId: "", emailTo: "" }); // 🔔 Other Channels
+                                                                                                                                                                                         const [testingChannel, setTestingChannel] = React.useState("");
+                                                                                                                                                                                         const [verification, setVerification] = React.useState({ smtpProbe: false, dnsServers: "" }); // ✅ Verification State
+                                                                                                                                                                                         const [smtp, setSmtp] = React.useState({ host: "", port: "587", secure: false, allowSelfSigned: false, user: "", pass: "", from: "", replyTo: "" }); // ✉️ SMTP State
+                                                                                                                                                                                         const [crm, setCrm] = React.useState({ token: "", baseUrl: "" }); // 🤝 HubSpot State
                                                                                                                                                                                          const [showSerp, setShowSerp] = React.useState(false); 
                                                                                                                                                                                          const [showApify, setShowApify] = React.useState(false); 
                                                                                                                                                                                          const [isEditing, setIsEditing] = React.useState(false); 
                                                                                                                                                                                          const [savedStatus, setSavedStatus] = React.useState({ hasSerp: false, hasApify: false });
 
+                                                                                                                                                                                         // 🔌 LOAD SOURCES (one search tab each)
+                                                                                                                                                                                         React.useEffect(() => {
+                                                                                                                                                                                             fetch('/api/sources').then(res => res.ok ? res.json() : []).then((list: SourceDescriptor[]) => {
+                                                                                                                                                                                                 setSources(list);
+                                                                                                                                                                                                 setInputs(Object.fromEntries(list.map(source => [source.id, Object.fromEntries(source.fields.map(f => [f.name, f.defaultValue || ""]))])));
+                                                                                                                                                                                             }).catch(() => console.warn("Sources loading..."));
+                                                                                                                                                                                         }, []);
+
                                                                                                                                                                                          // 🔄 LOAD DATA
                                                                                                                                                                                          React.useEffect(() => {
-                                                                                                                                                                                             if (mode === 'watchtower') loadWatchData();
+                                                                                                                                                                                             if (mode === 'watchtower') { loadWatchData(); loadChannels(); }
                                                                                                                                                                                              if (mode === 'settings') loadSettings();
                                                                                                                                                                                          }, [mode]);
 
-                                                                                                                                                                                         // ⏰ AUTO-SCANNER
+                                                                                                                                                                                         // ⏰ The server scans on schedule; while this tab is open we just pick up what it found
                                                                                                                                                                                          React.useEffect(() => {
                                                                                                                                                                                            let interval: NodeJS.Timeout;
                                                                                                                                                                                            if (isRunning && mode === 'watchtower') {
-                                                                                                                                                                                               interval = setInterval(() => { runWatchScan(false); }, 60000); 
+                                                                                                                                                                                               interval = setInterval(() => { loadWatchData(true); }, 60000); 
                                                                                                                                                                                            }
                                                                                                                                                                                            return () => clearInterval(interval);
                                                                                                                                                                                          }, [isRunning, mode]);
 
                                                                                                                                                                                          // --- WATCHTOWER LOGIC ---
-                                                                                                                                                                                         const loadWatchData = async () => {
+                                                                                                                                                                                         // onlyIfNew: background refresh, leaves the results alone unless a scan finished since
+                                                                                                                                                                                         const loadWatchData = async (onlyIfNew = false) => {
                                                                                                                                                                                              try {
                                                                                                                                                                                                const res = await fetch('/api/monitor', { method: 'POST', body: JSON.stringify({ action: 'load' }) });
                                                                                                                                                                                                if(res.ok) {
                                                                                                                                                                                                    const data = await res.json();
                                                                                                                                                                                                    if (data.monitoredTags) setMonitoredTags(data.monitoredTags);
-                                                                                                                                                                                                   if (data.leads) onSearch({ mode: 'watchtower_load', leads: data.leads });
+                                                                                                                                                                                                   if (data.leads && (!onlyIfNew || data.lastChecked !== lastChecked.current)) onSearch({ mode: 'watchtower_load', leads: data.leads });
+                                                                                                                                                                                                   lastChecked.current = data.lastChecked;
+                                                                                                                                                                                                   setLastCheckedAt(data.lastChecked);
+                                                                                                                                                                                                   setSchedule(data.schedule || null);
                                                                                                                                                                                                    setIsRunning(data.isRunning);
                                                                                                                                                                                                }
                                                                                                                                                                                              } catch (e) { console.warn("Monitor API loading..."); }
                                                                                                                                                                                          };
 
+                                                                                                                                                                                         // 🔔 Which channels each tag alerts (all chips lit = every configured channel)
+                                                                                                                                                                                         const loadChannels = async () => {
+                                                                                                                                                                                             try {
+                                                                                                                                                                                               const res = await fetch('/api/notifications');
+                                                                                                                                                                                               if (res.ok) setChannels((await res.json()).channels);
+                                                                                                                                                                                             } catch (e) { console.warn("Alert channels loading..."); }
+                                                                                                                                                                                         };
+
+                                                                                                                                                                                         const toggleTagChannel = async (tag: string, current: NotifierId[] | undefined, channel: NotifierId) => {
+                                                                                                                                                                                             const configured = channels.filter(c => c.configured).map(c => c.id);
+                                                                                                                                                                                             const active = current || configured;
+                                                                                                                                                                                             const next = active.includes(channel) ? active.filter(c => c !== channel) : [...active, channel];
+                                                                                                                                                                                             const all = configured.every(c => next.includes(c));
+                                                                                                                                                                                             const res = await fetch('/api/monitor', { method: 'POST', body: JSON.stringify({ action: 'channels', tag, channels: all ? null : next }) });
+                                                                                                                                                                                             const data = await res.json();
+                                                                                                                                                                                             if (data.error) alert("❌ " + data.error);
+                                                                                                                                                                                             else setSchedule(data.schedule);
+                                                                                                                                                                                         };
+
+                                                                                                                                                                                         const saveInterval = async (minutes: string, tag?: string) => {
+                                                                                                                                                                                             const action = tag && !minutes ? 'resetInterval' : 'interval';
+                                                                                                                                                                                             const res = await fetch('/api/monitor', { method: 'POST', body: JSON.stringify({ action, tag, minutes: Number(minutes) }) });
+                                                                                                                                                                                             const data = await res.json();
+                                                                                                                                                                                             if (data.error) alert("❌ " + data.error);
+                                                                                                                                                                                             else setSchedule(data.schedule);
+                                                                                                                                                                                         };
+
                                                                                                                                                                                          const addWatchTag = async () => {
                                                                                                                                                                                              if(!newTag) return;
                                                                                                                                                                                              const tagClean = newTag.replace('#', '').trim();
@@ -77,10 +141,10 @@
                                                                                                                                                                                              setIsRunning(!isRunning);
                                                                                                                                                                                          };
 
-                                                                                                                                                                                         const runWatchScan = async (force: boolean) => {
+                                                                                                                                                                                         const runWatchScan = async () => {
                                                                                                                                                                                              setScanning(true);
                                                                                                                                                                                              try {
-                                                                                                                                                                                                 const res = await fetch('/api/monitor', { method: 'POST', body: JSON.stringify({ action: 'scan', force }) });
+                                                                                                                                                                                                 const res = await fetch('/api/monitor', { method: 'POST', body: JSON.stringify({ action: 'scan' }) });
 
                                                                                                                                                                                                  if (!res.ok) {
                                                                                                                                                                                                      const text = await res.text();
@@ -89,13 +153,11 @@
 
                                                                                                                                                                                                  const data = await res.json();
 
-                                                                                                                                                                                                 if (force) {
-                                                                                                                                                                                                     if (data.error) alert("❌ Error: " + data.error);
-                                                                                                                                                                                                     else alert(`✅ Scan Complete! Found ${data.newLeads} new leads.`);
-                                                                                                                                                                                                 }
-                                                                                                                                                                                                 if (data.newLeads > 0 || force) loadWatchData(); 
+                                                                                                                                                                                                 if (data.error) alert("❌ Error: " + data.error);
+                                                                                                                                                                                                 else alert(`✅ Scan Complete! Found ${data.newLeads} new leads.`);
+                                                                                                                                                                                                 loadWatchData(); 
                                                                                                                                                                                              } catch(e: any) {
-                                                                                                                                                                                                 if(force) alert("❌ SYSTEM FAIL: " + e.message);
+                                                                                                                                                                                                 alert("❌ SYSTEM FAIL: " + e.message);
                                                                                                                                                                                              } finally {
                                                                                                                                                                                                  setScanning(false);
                                                                                                                                                                                              }
@@ -110,6 +172,19 @@
                                                                                                                                                                                                      setSerpKey(data.serpapi_key || "");
                                                                                                                                                                                                      setApifyKey(data.apify_token || "");
                                                                                                                                                                                                      setDiscordKey(data.discord_webhook || ""); // Load Discord
+                                                                                                                                                                                                     setAlerts({ slack: data.slack_webhook || "", telegramToken: data.telegram_bot_token || "", telegramChatId: data.telegram_chat_id || "", emailTo: data.alert_email_to || "" });
+                                                                                                                                                                                                     setSmtp({
+                                                                                                                                                                                                         host: data.smtp_host || "",
+                                                                                                                                                                                                         port: String(data.smtp_port || 587),
+                                                                                                                                                                                                         secure: !!data.smtp_secure,
+                                                                                                                                                                                                         allowSelfSigned: !!data.smtp_allow_self_signed,
+                                                                                                                                                                                                         user: data.smtp_user || "",
+                                                                                                                                                                                                         pass: data.smtp_pass || "",
+                                                                                                                                                                                                         from: data.smtp_from || "",
+                                                                                                                                                                                                         replyTo: data.smtp_reply_to || ""
+                                                                                                                                                                                                     });
+                                                                                                                                                                                                     setVerification({ smtpProbe: !!data.verify_smtp_probe, dnsServers: data.verify_dns_servers || "" });
+                                                                                                                                                                                                     setCrm({ token: data.hubspot_token || "", baseUrl: data.hubspot_base_url || "" });
                                                                                                                                                                                                      setSavedStatus({ hasSerp: !!data.serpapi_key, hasApify: !!data.apify_token });
                                                                                                                                                                                                  }
                                                                                                                                                                                              } catch (e) { console.warn("Settings loading..."); }
@@ -122,7 +197,23 @@
                                                                                                                                                                                                      body: JSON.stringify({ 
                                                                                                                                                                                                          serpapi_key: serpKey, 
                                                                                                                                                                                                          apify_token: apifyKey,
-                                                                                                                                                                                                         discord_webhook: discordKey // Save Discord
+                                                                                                                                                                                                         discord_webhook: discordKey, // Save Discord
+                                                                                                                                                                                                         slack_webhook: alerts.slack,
+                                                                                                                                                                                                         telegram_bot_token: alerts.telegramToken,
+                                                                                                                                                                                                         telegram_chat_id: alerts.telegramChatId,
+                                                                                                                                                                                                         alert_email_to: alerts.emailTo,
+                                                                                                                                                                                                         smtp_host: smtp.host,
+                                                                                                                                                                                                         smtp_port: smtp.port,
+                                                                                                                                                                                                         smtp_secure: smtp.secure,
+                                                                                                                                                                                                         smtp_allow_self_signed: smtp.allowSelfSigned,
+                                                                                                                                                                                                         smtp_user: smtp.user,
+                                                                                                                                                                                                         smtp_pass: smtp.pass,
+                                                                                                                                                                                                         smtp_from: smtp.from,
+                                                                                                                                                                                                         smtp_reply_to: smtp.replyTo,
+                                                                                                                                                                                                         verify_smtp_probe: verification.smtpProbe,
+                                                                                                                                                                                                         verify_dns_servers: verification.dnsServers,
+                                                                                                                                                                                                         hubspot_token: crm.token,
+                                                                                                                                                                                                         hubspot_base_url: crm.baseUrl
                                                                                                                                                                                                      })
                                                                                                                                                                                                  });
                                                                                                                                                                                                  if(res.ok) {
@@ -133,23 +224,45 @@
                                                                                                                                                                                              } catch(e) { alert("Error connecting to settings API."); }
                                                                                                                                                                                          };
 
-                                                                                                                                                                                         const handleSearch = () => { onSearch({ mode, keyword, city, country, hashtag }); };
+                                                                                                                                                                                         // Uses the saved settings, so save before testing
+                                                                                                                                                                                         const testChannel = async (channel: NotifierId) => {
+                                                                                                                                                                                             setTestingChannel(channel);
+                                                                                                                                                                                             try {
+                                                                                                                                                                                                 const res = await fetch('/api/notifications', { method: 'POST', body: JSON.stringify({ action: 'test', channel }) });
+                                                                                                                                                                                                 const data = await res.json();
+                                                                                                                                                                                                 alert(data.error ? "❌ " + data.error : "✅ Test alert sent.");
+                                                                                                                                                                                             } catch (e: any) {
+                                                                                                                                                                                                 alert("❌ " + e.message);
+                                                                                                                                                                                             } finally {
+                                                                                                                                                                                                 setTestingChannel("");
+                                                                                                                                                                                             }
+                                                                                                                                                                                         };
+
+                                                                                                                                                                                         const formatRunTime = (iso: string) => {
+                                                                                                                                                                                             const at = new Date(iso);
+                                                                                                                                                                                             if (at.getTime() <= Date.now()) return "now";
+                                                                                                                                                                                             return at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+                                                                                                                                                                                         };
+
+                                                                                                                                                                                         const handleSearch = () => { onSearch({ mode, input: inputs[mode] || {} }); };
 
-                                                                                                                                                                                         // Shortcuts
-                                                                                                                                                                                         const GOOGLE_HOTSPOTS = [
-                                                                                                                                                                                           { label: "🇦🇪 Dubai Gold Souq", c: "Deira", co: "Dubai" },
-                                                                                                                                                                                           { label: "🇯🇵 Tokyo Diamond Dist.", c: "Okachimachi", co: "Japan" },
-                                                                                                                                                                                           { label: "🇺🇸 NYC Diamond Dist.", c: "New York", co: "USA" },
-                                                                                                                                                                                         ];
+                                                                                                                                                                                         const setInput = (sourceId: string, values: Record<string, string>) => {
+                                                                                                                                                                                             setInputs({ ...inputs, [sourceId]: { ...inputs[sourceId], ...values } });
+                                                                                                                                                                                         };
+
+                                                                                                                                                                                         const activeSource = sources.find(source => source.id === mode);
 
                                                                                                                                                                                          return (
                                                                                                                                                                                            <div className="bg-white border-r border-slate-200 p-6 flex flex-col h-full w-full md:w-80 shrink-0 shadow-xl z-20 overflow-y-auto">
 
                                                                                                                                                                                              {/* MODE TABS */}
                                                                                                                                                                                              <div className="flex bg-slate-100 p-1 rounded-lg mb-8 gap-1">
-                                                                                                                                                                                               <button onClick={() => setMode("google")} className={`flex-1 py-2 rounded transition-all ${mode === "google" ? "bg-white shadow" : "text-slate-400"}`}><Satellite className="w-4 h-4 mx-auto" /></button>
-                                                                                                                                                                                               <button onClick={() => setMode("instagram")} className={`flex-1 py-2 rounded transition-all ${mode === "instagram" ? "bg-white shadow text-pink-500" : "text-slate-400"}`}><Camera className="w-4 h-4 mx-auto" /></button>
+                                                                                                                                                                                               {sources.map(source => {
+                                                                                                                                                                                                   const Icon = SOURCE_ICONS[source.icon] || Search;
+                                                                                                                                                                                                   return <button key={source.id} onClick={() => setMode(source.id)} title={source.label} className={`flex-1 py-2 rounded transition-all ${mode === source.id ? SOURCE_THEMES[source.theme].tab : "text-slate-400"}`}><Icon className="w-4 h-4 mx-auto" /></button>;
+                                                                                                                                                                                               })}
                                                                                                                                                                                                <button onClick={() => setMode("watchtower")} className={`flex-1 py-2 rounded transition-all ${mode === "watchtower" ? "bg-slate-900 shadow text-emerald-400" : "text-slate-400"}`}><Eye className="w-4 h-4 mx-auto" /></button>
+                                                                                                                                                                                               <button onClick={() => setMode("lists")} className={`flex-1 py-2 rounded transition-all ${mode === "lists" ? "bg-white shadow text-amber-600" : "text-slate-400"}`}><FolderOpen className="w-4 h-4 mx-auto" /></button>
                                                                                                                                                                                                <button onClick={() => setMode("settings")} className={`flex-1 py-2 rounded transition-all ${mode === "settings" ? "bg-white shadow text-slate-800" : "text-slate-400"}`}><Settings className="w-4 h-4 mx-auto" /></button>
                                                                                                                                                                                              </div>
 
@@ -183,22 +296,89 @@
                                                                                                                                                                                                        </div>
                                                                                                                                                                                                    </div>
 
-                                                                                                                                                                                                   {/* DISCORD WEBHOOK */}
-                                                                                                                                                                                                   <div className="p-4 border rounded-lg bg-slate-50 transition-colors focus-within:border-slate-400">
+                                                                                                                                                                                                   {/* 🔔 ALERT CHANNELS */}
+                                                                                                                                                                                                   <div className="p-4 border rounded-lg bg-slate-50 transition-colors focus-within:border-slate-400 space-y-2">
                                                                                                                                                                                                        <label className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-2">
-                                                                                                                                                                                                           <Bell className="w-3 h-3" /> Discord Webhook URL
+                                                                                                                                                                                                           <Bell className="w-3 h-3" /> Alert Channels
                                                                                                                                                                                                        </label>
-                                                                                                                                                                                                       <input 
-                                                                                                                                                                                                           type="text" 
-                                                                                                                                                                                                           className="w-full bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400"
-                                                                                                                                                                                                           placeholder="https://discord.com/api/webhooks/..."
-                                                                                                                                                                                                           value={discordKey} 
-                                                                                                                                                                                                           onChange={(e) => setDiscordKey(e.target.value)}
-                                                                                                                                                                                                           disabled={!isEditing}
-                                                                                                                                                                                                       />
-                                                                                                                                                                                                       <p className="text-[10px] text-slate-400 mt-2">Leads will be sent here instantly.</p>
+                                                                                                                                                                                                       {([
+                                                                                                                                                                                                           { id: "discord", inputs: [{ placeholder: "Discord webhook: https://discord.com/api/webhooks/...", value: discordKey, set: setDiscordKey }] },
+                                                                                                                                                                                                           { id: "slack", inputs: [{ placeholder: "Slack webhook: https://hooks.slack.com/services/...", value: alerts.slack, set: (v: string) => setAlerts({ ...alerts, slack: v }) }] },
+                                                                                                                                                                                                           { id: "telegram", inputs: [
+                                                                                                                                                                                                               { placeholder: "Telegram bot token", value: alerts.telegramToken, set: (v: string) => setAlerts({ ...alerts, telegramToken: v }) },
+                                                                                                                                                                                                               { placeholder: "Telegram chat id", value: alerts.telegramChatId, set: (v: string) => setAlerts({ ...alerts, telegramChatId: v }) }
+                                                                                                                                                                                                           ] },
+                                                                                                                                                                                                           { id: "email", inputs: [{ placeholder: "Email alerts to (uses the SMTP server below)", value: alerts.emailTo, set: (v: string) => setAlerts({ ...alerts, emailTo: v }) }] }
+                                                                                                                                                                                                       ] as { id: NotifierId; inputs: { placeholder: string; value: string; set: (v: string) => void }[] }[]).map(channel => (
+                                                                                                                                                                                                           <div key={channel.id} className="flex gap-2 items-start">
+                                                                                                                                                                                                               <div className="flex-1 min-w-0 space-y-1">
+                                                                                                                                                                                                                   {channel.inputs.map(input => (
+                                                                                                                                                                                                                       <input key={input.placeholder} type="text" className="w-full bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder={input.placeholder} value={input.value} onChange={(e) => input.set(e.target.value)} disabled={!isEditing} />
+                                                                                                                                                                                                                   ))}
+                                                                                                                                                                                                               </div>
+                                                                                                                                                                                                               <button onClick={() => testChannel(channel.id)} disabled={!!testingChannel || isEditing} title="Send a test alert" className="px-2 py-2 border border-slate-300 rounded text-[10px] font-bold text-slate-600 hover:bg-white disabled:opacity-50">
+                                                                                                                                                                                                                   {testingChannel === channel.id ? "..." : "Test"}
+                                                                                                                                                                                                               </button>
+                                                                                                                                                                                                           </div>
+                                                                                                                                                                                                       ))}
+                                                                                                                                                                                                       <p className="text-[10px] text-slate-400">New Watchtower leads are sent to every filled-in channel. Pick channels per tag in the Watchtower tab.</p>
+                                                                                                                                                                                                       <AlertSettings isEditing={isEditing} />
                                                                                                                                                                                                    </div>
 
+                                                                                                                                                                                                   {/* 🔕 ALERT RULES */}
+                                                                                                                                                                                                   <AlertRulesSettings isEditing={isEditing} />
+
+                                                                                                                                                                                                   {/* ✉️ SMTP (OUTREACH) */}
+                                                                                                                                                                                                   <div className="p-4 border rounded-lg bg-slate-50 transition-colors focus-within:border-slate-400 space-y-2">
+                                                                                                                                                                                                       <label className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-2">
+                                                                                                                                                                                                           <Mail className="w-3 h-3" /> Outreach SMTP Server
+                                                                                                                                                                                                       </label>
+                                                                                                                                                                                                       <div className="flex gap-2">
+                                                                                                                                                                                                           <input type="text" className="flex-1 min-w-0 bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder="smtp.example.com" value={smtp.host} onChange={(e) => setSmtp({ ...smtp, host: e.target.value })} disabled={!isEditing} />
+                                                                                                                                                                                                           <input type="number" className="w-20 bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder="587" value={smtp.port} onChange={(e) => setSmtp({ ...smtp, port: e.target.value })} disabled={!isEditing} />
+                                                                                                                                                                                                       </div>
+                                                                                                                                                                                                       <label className="flex items-center gap-2 text-xs text-slate-600">
+                                                                                                                                                                                                           <input type="checkbox" checked={smtp.secure} onChange={(e) => setSmtp({ ...smtp, secure: e.target.checked })} disabled={!isEditing} /> Use TLS (port 465)
+                                                                                                                                                                                                       </label>
+                                                                                                                                                                                                       <label className="flex items-center gap-2 text-xs text-slate-600">
+                                                                                                                                                                                                           <input type="checkbox" checked={smtp.allowSelfSigned} onChange={(e) => setSmtp({ ...smtp, allowSelfSigned: e.target.checked })} disabled={!isEditing} /> Accept self-signed certificates (local catchers only)
+                                                                                                                                                                                                       </label>
+                                                                                                                                                                                                       <input type="text" className="w-full bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder="Username (optional)" value={smtp.user} onChange={(e) => setSmtp({ ...smtp, user: e.target.value })} disabled={!isEditing} />
+                                                                                                                                                                                                       <input type="password" className="w-full bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder="Password (optional)" value={smtp.pass} onChange={(e) => setSmtp({ ...smtp, pass: e.target.value })} disabled={!isEditing} />
+                                                                                                                                                                                                       <input type="text" className="w-full bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder="From: sales@caratbridge.com" value={smtp.from} onChange={(e) => setSmtp({ ...smtp, from: e.target.value })} disabled={!isEditing} />
+                                                                                                                                                                                                       <input type="text" className="w-full bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder="Reply-To (optional)" value={smtp.replyTo} onChange={(e) => setSmtp({ ...smtp, replyTo: e.target.value })} disabled={!isEditing} />
+                                                                                                                                                                                                       <p className="text-[10px] text-slate-400">For testing, point this at a local catcher (e.g. localhost:1025).</p>
+                                                                                                                                                                                                   </div>
+
+                                                                                                                                                                                                   {/* ✅ EMAIL VERIFICATION */}
+                                                                                                                                                                                                   <div className="p-4 border rounded-lg bg-slate-50 transition-colors focus-within:border-slate-400 space-y-2">
+                                                                                                                                                                                                       <label className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-2">
+                                                                                                                                                                                                           <ShieldCheck className="w-3 h-3" /> Email Verification
+                                                                                                                                                                                                       </label>
+                                                                                                                                                                                                       <label className="flex items-center gap-2 text-xs text-slate-600">
+                                                                                                                                                                                                           <input type="checkbox" checked={verification.smtpProbe} onChange={(e) => setVerification({ ...verification, smtpProbe: e.target.checked })} disabled={!isEditing} /> SMTP mailbox probe (RCPT TO)
+                                                                                                                                                                                                       </label>
+                                                                                                                                                                                                       <input type="text" className="w-full bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder="DNS servers (optional): 1.1.1.1" value={verification.dnsServers} onChange={(e) => setVerification({ ...verification, dnsServers: e.target.value })} disabled={!isEditing} />
+                                                                                                                                                                                                       <p className="text-[10px] text-slate-400">The probe needs outbound port 25. Without it we check syntax, MX, role and disposable domains.</p>
+                                                                                                                                                                                                   </div>
+
+                                                                                                                                                                                                   {/* 🤝 CRM (HUBSPOT) */}
+                                                                                                                                                                                                   <div className="p-4 border rounded-lg bg-slate-50 transition-colors focus-within:border-slate-400 space-y-2">
+                                                                                                                                                                                                       <label className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-2">
+                                                                                                                                                                                                           <Share2 className="w-3 h-3" /> HubSpot CRM
+                                                                                                                                                                                                       </label>
+                                                                                                                                                                                                       <input type="password" className="w-full bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder={isEditing ? "Private app access token" : "Token Saved"} value={crm.token} onChange={(e) => setCrm({ ...crm, token: e.target.value })} disabled={!isEditing} />
+                                                                                                                                                                                                       <input type="text" className="w-full bg-white border border-slate-300 rounded p-2 text-sm font-mono text-slate-700 outline-none focus:ring-1 focus:ring-slate-400" placeholder="API URL (default https://api.hubapi.com)" value={crm.baseUrl} onChange={(e) => setCrm({ ...crm, baseUrl: e.target.value })} disabled={!isEditing} />
+                                                                                                                                                                                                       <p className="text-[10px] text-slate-400">For testing, point the URL at a local stand-in (e.g. http://localhost:4010).</p>
+                                                                                                                                                                                                       <CrmSettings isEditing={isEditing} />
+                                                                                                                                                                                                   </div>
+
+                                                                                                                                                                                                   {/* 📊 LEAD SCORING */}
+                                                                                                                                                                                                   <ScoringSettings isEditing={isEditing} />
+
+                                                                                                                                                                                                   {/* 💬 CAPTIONS */}
+                                                                                                                                                                                                   <CaptionSettings isEditing={isEditing} />
+
                                                                                                                                                                                                    {isEditing && (
                                                                                                                                                                                                        <button onClick={saveSettings} className="w-full bg-slate-900 text-white font-bold py-4 rounded-lg shadow-lg text-sm flex justify-center items-center gap-2 mt-auto hover:bg-slate-800 transition-colors">
                                                                                                                                                                                                            <Save className="w-4 h-4" /> SAVE CHANGES
@@ -207,34 +387,66 @@
                                                                                                                                                                                                </div>
                                                                                                                                                                                              )}
 
-                                                                                                                                                                                             {/* GOOGLE MODE */}
-                                                                                                                                                                                             {mode === "google" && (
-                                                                                                                                                                                               <div className="animate-slide-in space-y-6">
-                                                                                                                                                                                                    <div><label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Target Business</label><input type="text" className="w-full bg-slate-50 border border-slate-300 rounded p-3 text-sm" value={keyword} onChange={(e) => setKeyword(e.target.value)} /></div>
-                                                                                                                                                                                                   <div><label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Location</label><input type="text" className="w-full bg-slate-50 border border-slate-300 rounded p-3 mb-2 text-sm" value={city} onChange={(e) => setCity(e.target.value)} placeholder="City" /><input type="text" className="w-full bg-slate-50 border border-slate-300 rounded p-3 text-sm" value={country} onChange={(e) => setCountry(e.target.value)} placeholder="Country" /></div>
-                                                                                                                                                                                                   <div className="mb-4"><label className="text-xs font-bold text-slate-400 uppercase mb-2 flex items-center gap-2"><MousePointerClick className="w-3 h-3" /> Quick Select</label><div className="grid grid-cols-1 gap-2">{GOOGLE_HOTSPOTS.map((spot) => (<button key={spot.label} onClick={() => { setCity(spot.c); setCountry(spot.co); }} className="text-left text-xs px-3 py-2 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded text-slate-600 transition-colors">{spot.label}</button>))}</div></div>
-                                                                                                                                                                                                   <button onClick={handleSearch} disabled={isLoading} className="w-full bg-slate-900 text-white font-bold py-4 rounded-lg shadow-lg text-sm flex justify-center items-center gap-2">{isLoading ? "Scanning..." : "FIND REAL LEADS"}</button>
-                                                                                                                                                                                               </div>
-                                                                                                                                                                                             )}
-
-                                                                                                                                                                                             {/* INSTAGRAM MODE */}
-                                                                                                                                                                                             {mode === "instagram" && (
-                                                                                                                                                                                               <div className="animate-slide-in space-y-6">
-                                                                                                                                                                                                   <div><label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Target Hashtags</label><input type="text" className="w-full bg-slate-50 border border-slate-300 rounded p-3 text-sm" value={hashtag} onChange={(e) => setHashtag(e.target.value)} /><p className="text-[10px] text-slate-400 mt-1">Separate multiple tags with commas.</p></div>
-                                                                                                                                                                                                   <button onClick={handleSearch} disabled={isLoading} className="w-full bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold py-4 rounded-lg shadow-lg text-sm flex justify-center items-center gap-2">{isLoading ? "Scanning..." : "SCAN INSTAGRAM"}</button>
+                                                                                                                                                                                             {/* SEARCH MODE (one per registered source) */}
+                                                                                                                                                                                             {activeSource && (
+                                                                                                                                                                                               <div key={activeSource.id} className="animate-slide-in space-y-6">
+                                                                                                                                                                                                   {activeSource.fields.map(field => (
+                                                                                                                                                                                                       <div key={field.name} className={field.label ? "" : "-mt-4"}>
+                                                                                                                                                                                                           {field.label && <label className="text-xs font-bold text-slate-500 uppercase mb-2 block">{field.label}</label>}
+                                                                                                                                                                                                           <input type="text" className="w-full bg-slate-50 border border-slate-300 rounded p-3 text-sm" value={inputs[activeSource.id]?.[field.name] || ""} onChange={(e) => setInput(activeSource.id, { [field.name]: e.target.value })} placeholder={field.placeholder} />
+                                                                                                                                                                                                           {field.hint && <p className="text-[10px] text-slate-400 mt-1">{field.hint}</p>}
+                                                                                                                                                                                                       </div>
+                                                                                                                                                                                                   ))}
+                                                                                                                                                                                                   {activeSource.presets && activeSource.presets.length > 0 && (
+                                                                                                                                                                                                       <div className="mb-4"><label className="text-xs font-bold text-slate-400 uppercase mb-2 flex items-center gap-2"><MousePointerClick className="w-3 h-3" /> Quick Select</label><div className="grid grid-cols-1 gap-2">{activeSource.presets.map((preset) => (<button key={preset.label} onClick={() => setInput(activeSource.id, preset.values)} className="text-left text-xs px-3 py-2 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded text-slate-600 transition-colors">{preset.label}</button>))}</div></div>
+                                                                                                                                                                                                   )}
+                                                                                                                                                                                                   {activeSource.setupError && <p className="text-[10px] text-red-500">{activeSource.setupError}</p>}
+                                                                                                                                                                                                   <button onClick={handleSearch} disabled={isLoading} className={`w-full ${SOURCE_THEMES[activeSource.theme].button} text-white font-bold py-4 rounded-lg shadow-lg text-sm flex justify-center items-center gap-2`}>{isLoading ? "Scanning..." : activeSource.submitLabel}</button>
                                                                                                                                                                                                </div>
                                                                                                                                                                                              )}
 
                                                                                                                                                                                              {/* WATCHTOWER MODE */}
                                                                                                                                                                                              {mode === "watchtower" && (
                                                                                                                                                                                                <div className="animate-slide-in space-y-6">
-                                                                                                                                                                                                   <div className={`p-4 border rounded-lg transition-colors ${isRunning ? "bg-emerald-50 border-emerald-200" : "bg-slate-50 border-slate-200"}`}><div className="flex justify-between items-center mb-2"><h3 className={`font-bold text-sm flex items-center gap-2 ${isRunning ? "text-emerald-800" : "text-slate-500"}`}><Eye className={`w-4 h-4 ${isRunning ? "animate-pulse" : ""}`}/> {isRunning ? "MONITOR ACTIVE" : "MONITOR PAUSED"}</h3><div className={`w-2 h-2 rounded-full ${isRunning ? "bg-emerald-500 animate-ping" : "bg-slate-300"}`} /></div><p className="text-[10px] text-slate-500">{isRunning ? "Auto-scanning every 60s for NEW posts." : "System is idle."}</p></div>
+                                                                                                                                                                                                   <div className={`p-4 border rounded-lg transition-colors ${isRunning ? "bg-emerald-50 border-emerald-200" : "bg-slate-50 border-slate-200"}`}><div className="flex justify-between items-center mb-2"><h3 className={`font-bold text-sm flex items-center gap-2 ${isRunning ? "text-emerald-800" : "text-slate-500"}`}><Eye className={`w-4 h-4 ${isRunning ? "animate-pulse" : ""}`}/> {isRunning ? "MONITOR ACTIVE" : "MONITOR PAUSED"}</h3><div className={`w-2 h-2 rounded-full ${isRunning ? "bg-emerald-500 animate-ping" : "bg-slate-300"}`} /></div><p className="text-[10px] text-slate-500">{isRunning ? `Scanning on the server for NEW posts, even with this tab closed.${schedule?.nextRunAt ? ` Next run ${formatRunTime(schedule.nextRunAt)}.` : ""}` : "System is idle."}{schedule?.scanning && " Scan in progress..."}</p></div>
+                                                                                                                                                                                                   <div className="flex items-center justify-between gap-2"><label className="text-xs font-bold text-slate-500 uppercase">Every (minutes)</label><input key={schedule?.intervalMinutes} type="number" min={1} defaultValue={schedule?.intervalMinutes} onBlur={(e) => e.target.value && Number(e.target.value) !== schedule?.intervalMinutes && saveInterval(e.target.value)} className="w-20 bg-slate-50 border border-slate-300 rounded p-1.5 text-sm text-right" /></div>
                                                                                                                                                                                                    <div className="flex gap-2">{!isRunning ? (<button onClick={toggleMonitor} className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-3 rounded-lg shadow text-sm flex justify-center items-center gap-2"><Play className="w-4 h-4 fill-white" /> START</button>) : (<button onClick={toggleMonitor} className="flex-1 bg-slate-200 hover:bg-slate-300 text-slate-700 font-bold py-3 rounded-lg shadow-inner text-sm flex justify-center items-center gap-2"><Square className="w-4 h-4 fill-slate-700" /> STOP</button>)}</div>
                                                                                                                                                                                                    <div className="pt-4 border-t border-slate-100"><label className="text-xs font-bold text-slate-500 uppercase mb-2 block">Add Tag</label><div className="flex gap-2"><input type="text" className="flex-1 bg-slate-50 border border-slate-300 rounded p-2 text-sm" placeholder="#diamond" value={newTag} onChange={(e) => setNewTag(e.target.value)} /><button onClick={addWatchTag} className="bg-slate-900 text-white p-2 rounded hover:bg-slate-700"><Plus className="w-4 h-4" /></button></div></div>
-                                                                                                                                                                                                   <div className="space-y-2"><label className="text-xs font-bold text-slate-500 uppercase block">Active Monitors</label>{monitoredTags.length === 0 && <p className="text-xs text-slate-400 italic">No active monitors.</p>}{monitoredTags.map(tag => (<div key={tag} className="flex justify-between items-center bg-white border p-3 rounded shadow-sm"><span className="font-bold text-slate-700">#{tag}</span><button onClick={() => removeWatchTag(tag)} className="text-red-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button></div>))}</div>
-                                                                                                                                                                                                   <button onClick={() => runWatchScan(true)} disabled={scanning} className="w-full border border-slate-300 text-slate-500 font-bold py-2 rounded text-xs mt-auto hover:bg-slate-50 transition-colors">{scanning ? "Checking..." : "Run Manual Check Once"}</button>
+                                                                                                                                                                                                   <div className="space-y-2"><label className="text-xs font-bold text-slate-500 uppercase block">Active Monitors</label>{monitoredTags.length === 0 && <p className="text-xs text-slate-400 italic">No active monitors.</p>}{monitoredTags.map(tag => {
+                                                                                                                                                                                                       const tagSchedule = schedule?.tags.find(t => t.tag === tag);
+                                                                                                                                                                                                       return (
+                                                                                                                                                                                                           <div key={tag} className="bg-white border p-3 rounded shadow-sm space-y-1">
+                                                                                                                                                                                                               <div className="flex justify-between items-center"><span className="font-bold text-slate-700">#{tag}</span><button onClick={() => removeWatchTag(tag)} className="text-red-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button></div>
+                                                                                                                                                                                                               {tagSchedule && channels.some(c => c.configured) && (
+                                                                                                                                                                                                                   <div className="flex flex-wrap items-center gap-1 text-[10px]">
+                                                                                                                                                                                                                       <Bell className="w-3 h-3 text-slate-300" />
+                                                                                                                                                                                                                       {channels.filter(c => c.configured).map(c => {
+                                                                                                                                                                                                                           const on = !tagSchedule.channels || tagSchedule.channels.includes(c.id);
+                                                                                                                                                                                                                           return (
+                                                                                                                                                                                                                               <button key={c.id} onClick={() => toggleTagChannel(tag, tagSchedule.channels, c.id)}
+                                                                                                                                                                                                                                   className={`px-2 py-0.5 rounded-full border font-bold ${on ? "bg-slate-900 text-white border-slate-900" : "bg-white text-slate-400 border-slate-200"}`}>
+                                                                                                                                                                                                                                   {c.label}
+                                                                                                                                                                                                                               </button>
+                                                                                                                                                                                                                           );
+                                                                                                                                                                                                                       })}
+                                                                                                                                                                                                                   </div>
+                                                                                                                                                                                                               )}
+                                                                                                                                                                                                               {tagSchedule && (
+                                                                                                                                                                                                                   <div className="flex justify-between items-center text-[10px] text-slate-400">
+                                                                                                                                                                                                                       <span>Next {formatRunTime(tagSchedule.nextRunAt)}{tagSchedule.failures > 0 && <span className="text-red-500" title={tagSchedule.lastError}> · {tagSchedule.failures} failed, backing off</span>}</span>
+                                                                                                                                                                                                                       <span className="flex items-center gap-1">every <input key={tagSchedule.intervalMinutes} type="number" min={1} placeholder={String(schedule?.intervalMinutes)} defaultValue={tagSchedule.intervalMinutes} onBlur={(e) => e.target.value !== String(tagSchedule.intervalMinutes ?? "") && saveInterval(e.target.value, tag)} className="w-12 border border-slate-200 rounded px-1 text-right" /> min</span>
+                                                                                                                                                                                                                   </div>
+                                                                                                                                                                                                               )}
+                                                                                                                                                                                                           </div>
+                                                                                                                                                                                                       );
+                                                                                                                                                                                                   })}</div>
+                                                                                                                                                                                                   <button onClick={runWatchScan} disabled={scanning} className="w-full border border-slate-300 text-slate-500 font-bold py-2 rounded text-xs mt-auto hover:bg-slate-50 transition-colors">{scanning ? "Checking..." : "Run Manual Check Once"}</button>
+                                                                                                                                                                                                   <ScanHistory refreshKey={lastCheckedAt} />
                                                                                                                                                                                                </div>
                                                                                                                                                                                              )}
+
+                                                                                                                                                                                             {/* SAVED LISTS MODE */}
+                                                                                                                                                                                             {mode === "lists" && <SavedLists onOpen={(leads) => onSearch({ mode: 'list_load', leads })} />}
                                                                                                                                                                                            </div>
                                                                                                                                                                                          );
                                                                                                                                                                                        }
\ No newline at end of file
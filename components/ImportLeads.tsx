@@ -0,0 +1,181 @@
+import React from "react";
+import { Lead, LeadList } from "@/lib/types";
+import type { ColumnMapping, ImportField, RowIssue } from "@/lib/importer";
+import { Upload, X } from "lucide-react";
+
+interface Props {
+  lists: LeadList[];
+  onImported: (listId: string) => void;
+  onClose: () => void;
+}
+
+interface Preview {
+  headers: string[];
+  rows: string[][];
+  mapping: ColumnMapping;
+  total: number;
+  valid: number;
+  duplicatesInFile: number;
+  existing: number;
+  sample: Lead[];
+  issues: RowIssue[];
+}
+
+// Same order as IMPORT_FIELDS in lib/importer (a client component can't import its runtime values)
+const FIELD_OPTIONS: { field: ImportField; label: string }[] = [
+  { field: "companyName", label: "Company" },
+  { field: "contactName", label: "Contact Name" },
+  { field: "contactRole", label: "Contact Role" },
+  { field: "rawEmail", label: "Email" },
+  { field: "phone", label: "Phone" },
+  { field: "website", label: "Website" },
+  { field: "country", label: "Country" },
+  { field: "region", label: "Region / City" },
+  { field: "address", label: "Address" },
+  { field: "category", label: "Category" },
+  { field: "notes", label: "Notes" },
+  { field: "tags", label: "Tags (; separated)" }
+];
+
+const NEW_LIST = "__new__";
+
+// 📥 Upload → map columns (checked against the whole file) → import into a list
+export default function ImportLeads({ lists, onImported, onClose }: Props) {
+  const [file, setFile] = React.useState<File | null>(null);
+  const [preview, setPreview] = React.useState<Preview | null>(null);
+  const [listId, setListId] = React.useState(NEW_LIST);
+  const [newListName, setNewListName] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+
+  const send = async (action: string, selected: File, mapping?: ColumnMapping, extra: Record<string, string> = {}) => {
+    const form = new FormData();
+    form.append("action", action);
+    form.append("file", selected);
+    if (mapping) form.append("mapping", JSON.stringify(mapping));
+    Object.entries(extra).forEach(([key, value]) => form.append(key, value));
+    const res = await fetch('/api/import', { method: 'POST', body: form });
+    return res.json();
+  };
+
+  const loadPreview = async (selected: File, mapping?: ColumnMapping) => {
+    setBusy(true);
+    try {
+      const data = await send("preview", selected, mapping);
+      if (data.error) return alert("❌ " + data.error);
+      setPreview(data);
+    } catch (e: any) {
+      alert("❌ " + e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pickFile = (selected?: File) => {
+    if (!selected) return;
+    setFile(selected);
+    setNewListName(selected.name.replace(/\.[^.]+$/, ""));
+    loadPreview(selected);
+  };
+
+  const mapColumn = (col: number, field: string) => {
+    if (!file || !preview) return;
+    const mapping = preview.mapping.map((f, i) => (i === col ? (field || null) : f)) as ColumnMapping;
+    loadPreview(file, mapping);
+  };
+
+  const runImport = async () => {
+    if (!file || !preview) return;
+    if (listId === NEW_LIST && !newListName.trim()) return alert("Name the new list.");
+    setBusy(true);
+    try {
+      const data = await send("import", file, preview.mapping, listId === NEW_LIST ? { newListName } : { listId });
+      if (data.error) return alert("❌ " + data.error);
+      alert(`✅ ${data.added} leads in the list (${data.newLeads} new, ${data.existing} already known).` +
+        (data.alreadyInList ? ` Skipped ${data.alreadyInList} already in the list.` : "") +
+        (data.rejected ? ` Left out ${data.rejected} rows.` : ""));
+      onImported(data.listId);
+    } catch (e: any) {
+      alert("❌ " + e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border rounded shadow-sm p-3 space-y-3 text-xs">
+        <div className="flex justify-between items-center">
+            <span className="font-bold text-slate-700 flex items-center gap-2"><Upload className="w-4 h-4" /> Import CSV / Excel</span>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-700"><X className="w-4 h-4" /></button>
+        </div>
+
+        <input type="file" accept=".csv,.tsv,.txt,.xlsx" onChange={e => pickFile(e.target.files?.[0])} className="w-full text-[11px]" />
+        {busy && <p className="text-slate-400 italic">Reading file...</p>}
+
+        {preview && (
+            <>
+                <div className="space-y-1">
+                    <p className="font-bold text-slate-500 uppercase text-[10px]">Columns</p>
+                    {preview.headers.map((header, col) => (
+                        <div key={col} className="flex items-center gap-2">
+                            <div className="flex-1 min-w-0">
+                                <span className="block font-bold text-slate-700 truncate">{header}</span>
+                                <span className="block text-[10px] text-slate-400 truncate">{preview.rows.map(r => r[col]).filter(Boolean).slice(0, 2).join(" · ") || "—"}</span>
+                            </div>
+                            <select value={preview.mapping[col] || ""} onChange={e => mapColumn(col, e.target.value)} disabled={busy} className="border border-slate-200 rounded px-1 py-1 bg-white w-28">
+                                <option value="">Ignore</option>
+                                {FIELD_OPTIONS.map(o => <option key={o.field} value={o.field}>{o.label}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                {preview.sample.length > 0 && (
+                    <div className="overflow-x-auto border rounded">
+                        <table className="w-full text-[10px]">
+                            <thead className="bg-slate-50 text-slate-500">
+                                <tr><th className="text-left p-1">Company</th><th className="text-left p-1">Email</th><th className="text-left p-1">Country</th><th className="text-right p-1">Score</th></tr>
+                            </thead>
+                            <tbody>
+                                {preview.sample.slice(0, 5).map(lead => (
+                                    <tr key={lead.id} className="border-t">
+                                        <td className="p-1 truncate max-w-[90px]">{lead.companyName}</td>
+                                        <td className="p-1 truncate max-w-[90px]">{lead.rawEmail || "—"}</td>
+                                        <td className="p-1">{lead.country || "—"}</td>
+                                        <td className="p-1 text-right font-bold">{lead.score}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <p className="text-slate-600">
+                    {preview.valid} of {preview.total} rows usable
+                    {preview.duplicatesInFile > 0 && ` · ${preview.duplicatesInFile} repeated in the file`}
+                    {preview.existing > 0 && ` · ${preview.existing} already in the database`}
+                </p>
+                {preview.issues.length > 0 && (
+                    <ul className="max-h-28 overflow-y-auto bg-amber-50 border border-amber-200 rounded p-2 space-y-0.5">
+                        {preview.issues.map((issue, i) => (
+                            <li key={i} className={issue.rejected ? "text-red-600" : "text-amber-700"}>Row {issue.row}: {issue.message}</li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="flex items-center gap-2">
+                    <select value={listId} onChange={e => setListId(e.target.value)} className="border border-slate-200 rounded px-2 py-2 bg-white flex-1 min-w-0">
+                        <option value={NEW_LIST}>+ New list…</option>
+                        {lists.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                    </select>
+                    {listId === NEW_LIST && (
+                        <input value={newListName} onChange={e => setNewListName(e.target.value)} placeholder="List name" className="border border-slate-200 rounded px-2 py-2 flex-1 min-w-0" />
+                    )}
+                </div>
+                <button onClick={runImport} disabled={busy || preview.valid === 0} className="w-full bg-slate-900 text-white font-bold p-2 rounded hover:bg-slate-700 disabled:opacity-50">
+                    {busy ? "Working..." : `Import ${preview.valid} rows`}
+                </button>
+            </>
+        )}
+    </div>
+  );
+}
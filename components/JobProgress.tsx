@@ -0,0 +1,36 @@
+import React from "react";
+import { SearchJob } from "@/lib/types";
+import { Loader2, Square } from "lucide-react";
+
+interface Props {
+  job: SearchJob;
+  onCancel: () => void;
+}
+
+export default function JobProgress({ job, onCancel }: Props) {
+  const percent = job.totalQueries ? Math.round((job.completedQueries / job.totalQueries) * 100) : 0;
+  const finishing = job.status === "running" && job.completedQueries === job.totalQueries;
+
+  return (
+    <div className="px-6 py-3 bg-white border-b border-slate-200 flex items-center gap-4">
+      <Loader2 className="w-4 h-4 text-amber-600 animate-spin shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between text-xs mb-1">
+          <span className="font-bold text-slate-700">
+            {job.completedQueries}/{job.totalQueries} queries, {job.leadCount} leads
+          </span>
+          <span className="text-slate-400 truncate ml-4">{finishing ? "Finishing up..." : job.currentQuery}</span>
+        </div>
+        <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-amber-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        {job.warnings && job.warnings.length > 0 && (
+          <p className="text-[10px] text-red-500 mt-1 truncate" title={job.warnings.join("\n")}>{job.warnings.length} failed: {job.warnings[job.warnings.length - 1]}</p>
+        )}
+      </div>
+      <button onClick={onCancel} className="flex items-center gap-1 text-xs font-bold text-slate-600 border border-slate-300 px-3 py-1.5 rounded hover:bg-slate-50 shrink-0">
+        <Square className="w-3 h-3" /> Cancel
+      </button>
+    </div>
+  );
+}
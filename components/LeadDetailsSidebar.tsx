@@ -1,41 +1,129 @@
                                                                                            import React, { useState } from "react";
-                                                                                           import { Lead } from "@/lib/types";
-                                                                                           import { X, Send, Globe, User, Building, Mail } from "lucide-react";
+                                                                                           import { EmailCandidate, Lead, OutreachLog, PipelineStage } from "@/lib/types";
+                                                                                           import { X, Globe, User, Building, Mail, Phone, MapPin, Star, Instagram, Share2, Bell } from "lucide-react";
+                                                                                           import OutreachComposer from "@/components/OutreachComposer";
+                                                                                           import SequencePanel from "@/components/SequencePanel";
+                                                                                           import LeadNotes from "@/components/LeadNotes";
+                                                                                           import { PIPELINE_STAGES, getStage } from "@/lib/pipeline";
 
                                                                                            interface Props {
                                                                                              lead: Lead | null;
                                                                                              onClose: () => void;
+                                                                                             onLeadsUpdated: (leads: Lead[]) => void;
                                                                                            }
 
-                                                                                           export default function LeadDetailsSidebar({ lead, onClose }: Props) {
-                                                                                             const [subject, setSubject] = useState("");
-                                                                                             const [isSending, setIsSending] = useState(false);
-                                                                                             const [log, setLog] = useState<any[]>([]);
+                                                                                           export default function LeadDetailsSidebar({ lead, onClose, onLeadsUpdated }: Props) {
+                                                                                             const [log, setLog] = useState<OutreachLog[]>([]);
+                                                                                             const [verifying, setVerifying] = useState(false);
+                                                                                             const [candidates, setCandidates] = useState<EmailCandidate[]>([]);
+                                                                                             const [enriching, setEnriching] = useState(false);
+                                                                                             const [staging, setStaging] = useState(false);
+                                                                                             const [pushing, setPushing] = useState(false);
 
                                                                                              React.useEffect(() => {
-                                                                                               if (lead) setSubject(`Partnership Opportunity: ${lead.companyName} x CaratBridge`);
+                                                                                               loadHistory();
+                                                                                               loadCandidates();
                                                                                              }, [lead]);
 
-                                                                                             const handleSend = async () => {
+                                                                                             // 📧 Ranked address guesses (only useful when we have no real address)
+                                                                                             const loadCandidates = async () => {
+                                                                                               setCandidates([]);
+                                                                                               if (!lead || lead.rawEmail) return;
+                                                                                               try {
+                                                                                                 const res = await fetch('/api/email-patterns', { method: 'POST', body: JSON.stringify({ action: 'candidates', lead }) });
+                                                                                                 if (res.ok) setCandidates((await res.json()).candidates || []);
+                                                                                               } catch (e) { console.warn("Candidates loading..."); }
+                                                                                             };
+
+                                                                                             const chooseCandidate = async (address: string) => {
                                                                                                if (!lead) return;
-                                                                                               setIsSending(true);
-                                                                                               await fetch('/api/outreach', {
-                                                                                                 method: 'POST',
-                                                                                                 body: JSON.stringify({
-                                                                                                   leadId: lead.id,
-                                                                                                   subject,
-                                                                                                   emailUsed: lead.rawEmail || lead.predictedEmail,
-                                                                                                   body: "Simulated content..." 
-                                                                                                 })
-                                                                                               });
-                                                                                               setTimeout(() => {
-                                                                                                 setIsSending(false);
-                                                                                                 setLog(prev => [{ subject, time: new Date().toLocaleTimeString(), status: "Sent" }, ...prev]);
-                                                                                               }, 1000);
+                                                                                               const res = await fetch('/api/email-patterns', { method: 'POST', body: JSON.stringify({ action: 'choose', lead, email: address }) });
+                                                                                               const data = await res.json();
+                                                                                               if (data.lead) onLeadsUpdated([data.lead]);
+                                                                                             };
+
+                                                                                             // 📜 Full outreach history for this lead (by id or address)
+                                                                                             const loadHistory = async () => {
+                                                                                               setLog([]);
+                                                                                               if (!lead) return;
+                                                                                               const params = new URLSearchParams({ leadId: lead.id });
+                                                                                               const address = lead.rawEmail || lead.predictedEmail;
+                                                                                               if (address) params.append("email", address);
+                                                                                               try {
+                                                                                                 const res = await fetch(`/api/outreach?${params}`);
+                                                                                                 if (res.ok) setLog(await res.json());
+                                                                                               } catch (e) { console.warn("History loading..."); }
+                                                                                             };
+
+                                                                                             // ✅ Re-check this lead's address now
+                                                                                             const verifyNow = async () => {
+                                                                                               if (!lead) return;
+                                                                                               setVerifying(true);
+                                                                                               try {
+                                                                                                 const res = await fetch('/api/verify', { method: 'POST', body: JSON.stringify({ leads: [lead] }) });
+                                                                                                 const data = await res.json();
+                                                                                                 if (data.error) alert("❌ " + data.error);
+                                                                                                 else onLeadsUpdated(data.leads);
+                                                                                               } catch (e: any) {
+                                                                                                 alert("❌ " + e.message);
+                                                                                               } finally {
+                                                                                                 setVerifying(false);
+                                                                                               }
+                                                                                             };
+
+                                                                                             // 🕸️ Crawl the lead's website for real contacts
+                                                                                             const enrichNow = async () => {
+                                                                                               if (!lead) return;
+                                                                                               setEnriching(true);
+                                                                                               try {
+                                                                                                 const res = await fetch('/api/enrich', { method: 'POST', body: JSON.stringify({ leads: [lead] }) });
+                                                                                                 const data = await res.json();
+                                                                                                 if (data.error) alert("❌ " + data.error);
+                                                                                                 else if (data.leads.length > 0) onLeadsUpdated(data.leads);
+                                                                                               } catch (e: any) {
+                                                                                                 alert("❌ " + e.message);
+                                                                                               } finally {
+                                                                                                 setEnriching(false);
+                                                                                               }
+                                                                                             };
+
+                                                                                             // 📈 Move the lead through the pipeline (stores it if it was only a search result)
+                                                                                             const changeStage = async (stage: PipelineStage) => {
+                                                                                               if (!lead || stage === getStage(lead)) return;
+                                                                                               setStaging(true);
+                                                                                               try {
+                                                                                                 const res = await fetch('/api/pipeline', { method: 'POST', body: JSON.stringify({ action: 'stage', lead, stage }) });
+                                                                                                 const data = await res.json();
+                                                                                                 if (data.error) alert("❌ " + data.error);
+                                                                                                 else onLeadsUpdated([data.lead]);
+                                                                                               } finally {
+                                                                                                 setStaging(false);
+                                                                                               }
+                                                                                             };
+
+                                                                                             // 🤝 Create or update the lead in HubSpot (the remote ids are kept on the lead)
+                                                                                             const pushToCrm = async () => {
+                                                                                               if (!lead) return;
+                                                                                               setPushing(true);
+                                                                                               try {
+                                                                                                 const res = await fetch('/api/crm', { method: 'POST', body: JSON.stringify({ action: 'push', leads: [lead] }) });
+                                                                                                 const data = await res.json();
+                                                                                                 if (data.error) alert("❌ " + data.error);
+                                                                                                 else if (data.failed.length > 0) alert("❌ " + data.failed[0].error);
+                                                                                                 else onLeadsUpdated(data.leads);
+                                                                                               } catch (e: any) {
+                                                                                                 alert("❌ " + e.message);
+                                                                                               } finally {
+                                                                                                 setPushing(false);
+                                                                                               }
                                                                                              };
 
                                                                                              if (!lead) return null;
+                                                                                             const canEnrich = lead.website?.startsWith("http") && lead.domain !== "instagram.com";
+                                                                                             const enrichment = lead.enrichment;
+                                                                                             const captionDetails = lead.captionDetails;
                                                                                              const email = lead.rawEmail || lead.predictedEmail;
+                                                                                             const alreadyContacted = log.find(l => l.status === "sent");
 
                                                                                              return (
                                                                                                <div className="absolute top-0 right-0 h-full w-[480px] bg-white border-l border-slate-200 shadow-2xl z-50 flex flex-col animate-slide-in">
@@ -43,12 +131,23 @@
                                                                                                  <div className="p-8 border-b border-slate-100 bg-slate-50/50 flex justify-between items-start">
                                                                                                    <div>
                                                                                                      <div className="inline-flex items-center gap-2 mb-2 px-2 py-1 bg-white border border-slate-200 rounded text-[10px] font-bold uppercase tracking-wider text-slate-500">
-                                                                                                        <Building className="w-3 h-3" /> {lead.businessType}
+                                                                                                        <Building className="w-3 h-3" /> {lead.category || lead.businessType}
                                                                                                      </div>
                                                                                                      <h2 className="text-3xl font-bold text-slate-900 tracking-tight mb-2">{lead.companyName}</h2>
                                                                                                      <a href={lead.website} target="_blank" className="flex items-center gap-2 text-sm text-amber-600 hover:text-amber-700 font-medium">
                                                                                                         <Globe className="w-3 h-3" /> {lead.domain}
                                                                                                      </a>
+                                                                                                     <div className="mt-3 space-y-1 text-xs text-slate-600">
+                                                                                                         {lead.phone && <p className="flex items-center gap-2"><Phone className="w-3 h-3 text-slate-400" /> {lead.phone}</p>}
+                                                                                                         {lead.address && <p className="flex items-center gap-2"><MapPin className="w-3 h-3 text-slate-400" /> {lead.address}</p>}
+                                                                                                         {lead.rating !== undefined && (
+                                                                                                             <p className="flex items-center gap-2"><Star className="w-3 h-3 text-amber-500" /> {lead.rating} ({lead.reviewCount || 0} reviews)</p>
+                                                                                                         )}
+                                                                                                         {lead.postUrl && (
+                                                                                                             <a href={lead.postUrl} target="_blank" className="flex items-center gap-2 text-amber-600 hover:text-amber-700"><Instagram className="w-3 h-3" /> View post</a>
+                                                                                                         )}
+                                                                                                         {lead.sourceQuery && <p className="text-[10px] text-slate-400 uppercase">Found via {lead.source} · {lead.sourceQuery}</p>}
+                                                                                                     </div>
                                                                                                    </div>
                                                                                                    <button onClick={onClose} className="text-slate-400 hover:text-slate-800 transition-colors p-1 bg-white hover:bg-slate-200 rounded-full">
                                                                                                      <X className="w-5 h-5" />
@@ -57,6 +156,42 @@
 
                                                                                                  <div className="flex-1 overflow-y-auto p-8 space-y-8 bg-white">
 
+                                                                                                   {/* Pipeline Stage */}
+                                                                                                   <div className="space-y-3">
+                                                                                                       <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">Pipeline Stage</p>
+                                                                                                       <div className="flex flex-wrap gap-1">
+                                                                                                           {PIPELINE_STAGES.map(stage => (
+                                                                                                               <button key={stage} onClick={() => changeStage(stage)} disabled={staging}
+                                                                                                                   className={`text-[11px] font-bold px-2.5 py-1 rounded-full border ${getStage(lead) === stage ? "bg-slate-900 text-white border-slate-900" : "bg-white text-slate-500 border-slate-200 hover:border-slate-400"}`}>
+                                                                                                                   {stage}
+                                                                                                               </button>
+                                                                                                           ))}
+                                                                                                       </div>
+                                                                                                       {lead.stageHistory && lead.stageHistory.length > 0 && (
+                                                                                                           <div className="text-[10px] text-slate-400 space-y-0.5">
+                                                                                                               {[...lead.stageHistory].reverse().map((change, i) => (
+                                                                                                                   <p key={i}>{change.from} → <b className="text-slate-600">{change.to}</b> · {new Date(change.at).toLocaleString()}</p>
+                                                                                                               ))}
+                                                                                                           </div>
+                                                                                                       )}
+                                                                                                   </div>
+
+                                                                                                   {/* CRM */}
+                                                                                                   <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-slate-200 bg-slate-50">
+                                                                                                       <div className="text-[11px] text-slate-500 min-w-0">
+                                                                                                           <p className="font-bold text-slate-700 flex items-center gap-1"><Share2 className="w-3 h-3" /> HubSpot</p>
+                                                                                                           {lead.crm
+                                                                                                               ? <p className="truncate">{[lead.crm.companyId && `Company ${lead.crm.companyId}`, lead.crm.contactId && `Contact ${lead.crm.contactId}`].filter(Boolean).join(" · ")} · pushed {new Date(lead.crm.pushedAt).toLocaleString()}</p>
+                                                                                                               : <p>Not pushed yet</p>}
+                                                                                                       </div>
+                                                                                                       <button onClick={pushToCrm} disabled={pushing} className="shrink-0 text-xs font-bold text-slate-700 border border-slate-300 px-3 py-2 rounded hover:bg-white">
+                                                                                                           {pushing ? "Pushing..." : lead.crm ? "Update" : "Push"}
+                                                                                                       </button>
+                                                                                                   </div>
+
+                                                                                                   {/* Notes & Tags */}
+                                                                                                   <LeadNotes lead={lead} onLeadsUpdated={onLeadsUpdated} />
+
                                                                                                    {/* Verification Card */}
                                                                                                    <div className={`p-5 rounded-xl border ${lead.emailVerificationStatus === 'valid' ? 'bg-emerald-50 border-emerald-100' : 'bg-amber-50 border-amber-100'}`}>
                                                                                                      <div className="flex items-center justify-between mb-2">
@@ -72,8 +207,75 @@
                                                                                                          <p className="text-lg text-slate-900 font-mono font-medium">{email}</p>
                                                                                                      </div>
                                                                                                      {!lead.rawEmail && <p className="text-xs text-slate-500 mt-2 pl-8">Pattern-predicted. Please verify.</p>}
+                                                                                                     {lead.emailVerificationReason && (
+                                                                                                         <p className="text-xs text-slate-600 mt-2 pl-8">
+                                                                                                             {lead.emailVerificationReason}
+                                                                                                             {lead.emailVerifiedAt && <span className="text-slate-400"> · {new Date(lead.emailVerifiedAt).toLocaleString()}</span>}
+                                                                                                         </p>
+                                                                                                     )}
+                                                                                                     {email && (
+                                                                                                         <button onClick={verifyNow} disabled={verifying} className="mt-3 ml-8 text-xs font-bold text-slate-700 bg-white border border-slate-200 px-3 py-1.5 rounded hover:bg-slate-50">
+                                                                                                             {verifying ? "Verifying..." : "Verify Now"}
+                                                                                                         </button>
+                                                                                                     )}
                                                                                                    </div>
 
+                                                                                                   {/* Score Breakdown */}
+                                                                                                   {lead.scoreBreakdown && lead.scoreBreakdown.length > 0 && (
+                                                                                                     <div className="p-4 border border-slate-100 rounded-xl">
+                                                                                                         <div className="flex justify-between items-center mb-3">
+                                                                                                             <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">Why This Score</p>
+                                                                                                             <span className="text-sm font-bold text-slate-900">{lead.score}/100</span>
+                                                                                                         </div>
+                                                                                                         <div className="space-y-2">
+                                                                                                             {lead.scoreBreakdown.map(f => (
+                                                                                                                 <div key={f.factor} className="text-xs">
+                                                                                                                     <div className="flex justify-between text-slate-600">
+                                                                                                                         <span><b>{f.factor}</b> · {f.detail}</span>
+                                                                                                                         <span className="font-mono">{f.points}/{f.max}</span>
+                                                                                                                     </div>
+                                                                                                                     <div className="h-1 mt-1 bg-slate-100 rounded-full overflow-hidden">
+                                                                                                                         <div className="h-full bg-emerald-500" style={{ width: `${f.max ? (f.points / f.max) * 100 : 0}%` }} />
+                                                                                                                     </div>
+                                                                                                                 </div>
+                                                                                                             ))}
+                                                                                                         </div>
+                                                                                                     </div>
+                                                                                                   )}
+
+                                                                                                   {/* Which alert rule fired (Watchtower leads) */}
+                                                                                                   {lead.alertDecision && (
+                                                                                                     <div className="flex items-center gap-2 text-xs text-slate-500 p-3 rounded-lg border border-slate-100">
+                                                                                                         <Bell className={`w-3 h-3 shrink-0 ${lead.alertDecision.alerted ? "text-emerald-500" : "text-slate-300"}`} />
+                                                                                                         <span className="min-w-0 truncate">
+                                                                                                             <b className="text-slate-700">{lead.alertDecision.alerted ? "Alerted" : "Muted"}</b> by &quot;{lead.alertDecision.rule}&quot; · #{lead.alertDecision.tag} · {new Date(lead.alertDecision.at).toLocaleString()}
+                                                                                                         </span>
+                                                                                                     </div>
+                                                                                                   )}
+
+                                                                                                   {/* Email Candidates */}
+                                                                                                   {candidates.length > 0 && (
+                                                                                                     <div className="p-4 border border-slate-100 rounded-xl">
+                                                                                                         <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Email Candidates</p>
+                                                                                                         <div className="space-y-1">
+                                                                                                             {candidates.map(c => (
+                                                                                                                 <button
+                                                                                                                     key={c.email}
+                                                                                                                     onClick={() => chooseCandidate(c.email)}
+                                                                                                                     className={`w-full flex items-center gap-3 text-xs px-3 py-2 rounded-lg border text-left transition-colors ${c.email === email ? "border-amber-300 bg-amber-50" : "border-transparent hover:bg-slate-50"}`}
+                                                                                                                 >
+                                                                                                                     <span className="font-mono text-slate-800 flex-1 truncate">{c.email}</span>
+                                                                                                                     {c.learned && <span className="text-[10px] text-emerald-600 font-bold">LEARNED</span>}
+                                                                                                                     <div className="w-16 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                                                                                                         <div className="h-full bg-amber-500" style={{ width: `${c.confidence}%` }} />
+                                                                                                                     </div>
+                                                                                                                     <span className="w-8 text-right text-slate-500 font-bold">{c.confidence}%</span>
+                                                                                                                 </button>
+                                                                                                             ))}
+                                                                                                         </div>
+                                                                                                     </div>
+                                                                                                   )}
+
                                                                                                    {/* Contact Info */}
                                                                                                    <div className="flex items-start gap-4 p-4 border border-slate-100 rounded-xl bg-slate-50/30">
                                                                                                        <div className="w-12 h-12 rounded-full bg-white border border-slate-200 flex items-center justify-center text-slate-700 shadow-sm">
@@ -86,48 +288,100 @@
                                                                                                        </div>
                                                                                                    </div>
 
-                                                                                                   {/* Simulator */}
-                                                                                                   <div className="bg-white border border-slate-200 rounded-xl shadow-lg shadow-slate-200/50 p-6">
-                                                                                                       <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-6 flex items-center gap-2 border-b border-slate-100 pb-2">
-                                                                                                           <Send className="w-4 h-4 text-amber-600" /> Outreach Simulator
-                                                                                                       </h3>
-
-                                                                                                       <div className="space-y-4">
-                                                                                                           <div>
-                                                                                                               <label className="text-xs font-semibold text-slate-500 block mb-1.5">Subject Line</label>
-                                                                                                               <input 
-                                                                                                                   value={subject} 
-                                                                                                                   onChange={e => setSubject(e.target.value)}
-                                                                                                                   className="w-full bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm text-slate-900 focus:bg-white focus:border-amber-500 focus:ring-1 focus:ring-amber-500 outline-none transition" 
-                                                                                                               />
-                                                                                                           </div>
-                                                                                                           <div>
-                                                                                                               <label className="text-xs font-semibold text-slate-500 block mb-1.5">Email Preview</label>
-                                                                                                               <div className="w-full h-32 bg-slate-50 border border-slate-200 rounded-lg p-4 text-sm text-slate-600 font-serif leading-relaxed overflow-auto">
-                                                                                                                   Dear {lead.contactName.split(' ')[0]},<br/><br/>
-                                                                                                                   I hope this email finds you well. I came across {lead.companyName} and was impressed by your presence in the {lead.country} market.<br/><br/>
-                                                                                                                   At CaratBridge, we specialize in direct sourcing...
-                                                                                                               </div>
-                                                                                                           </div>
-                                                                                                           <button 
-                                                                                                               onClick={handleSend}
-                                                                                                               disabled={isSending}
-                                                                                                               className="w-full bg-slate-900 hover:bg-slate-800 text-white text-sm font-medium py-3 rounded-lg transition-all shadow-md active:scale-[0.98]"
-                                                                                                           >
-                                                                                                               {isSending ? "Simulating Send..." : "Simulate Outreach"}
-                                                                                                           </button>
-                                                                                                       </div>
-                                                                                                   </div>
+                                                                                                   {/* Website Enrichment */}
+                                                                                                   {canEnrich && (
+                                                                                                     <div className="p-4 border border-slate-100 rounded-xl space-y-3">
+                                                                                                         <div className="flex justify-between items-center">
+                                                                                                             <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">Website Enrichment</p>
+                                                                                                             <button onClick={enrichNow} disabled={enriching} className="text-xs font-bold text-slate-700 bg-white border border-slate-200 px-3 py-1.5 rounded hover:bg-slate-50">
+                                                                                                                 {enriching ? "Crawling..." : enrichment ? "Re-crawl" : "Crawl Website"}
+                                                                                                             </button>
+                                                                                                         </div>
+                                                                                                         {enrichment && (
+                                                                                                             <div className="text-xs text-slate-600 space-y-1">
+                                                                                                                 {enrichment.emails.length > 0 && <p><b>Emails:</b> {enrichment.emails.join(", ")}</p>}
+                                                                                                                 {enrichment.phones.length > 0 && <p><b>Phones:</b> {enrichment.phones.join(", ")}</p>}
+                                                                                                                 {enrichment.whatsapp.length > 0 && <p><b>WhatsApp:</b> {enrichment.whatsapp.join(", ")}</p>}
+                                                                                                                 {enrichment.socials.instagram && <p><b>Instagram:</b> @{enrichment.socials.instagram}</p>}
+                                                                                                                 {enrichment.socials.facebook && <p><b>Facebook:</b> {enrichment.socials.facebook}</p>}
+                                                                                                                 {enrichment.socials.linkedin && <p><b>LinkedIn:</b> {enrichment.socials.linkedin}</p>}
+                                                                                                                 {enrichment.contacts.length > 0 && <p><b>People:</b> {enrichment.contacts.map(c => `${c.name} (${c.role})`).join(", ")}</p>}
+                                                                                                                 <p className="text-[10px] text-slate-400">
+                                                                                                                     {enrichment.pagesCrawled.length} pages crawled
+                                                                                                                     {enrichment.blockedByRobots.length > 0 && ` · ${enrichment.blockedByRobots.length} blocked by robots.txt`}
+                                                                                                                     {enrichment.errors.length > 0 && ` · ${enrichment.errors.join("; ")}`}
+                                                                                                                     {` · ${new Date(enrichment.enrichedAt).toLocaleString()}`}
+                                                                                                                 </p>
+                                                                                                             </div>
+                                                                                                         )}
+                                                                                                     </div>
+                                                                                                   )}
+
+                                                                                                   {/* Instagram Caption */}
+                                                                                                   {lead.caption && (
+                                                                                                     <div className="p-4 border border-slate-100 rounded-xl space-y-3">
+                                                                                                         <div className="flex justify-between items-center gap-2">
+                                                                                                             <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">Caption</p>
+                                                                                                             <div className="flex flex-wrap gap-1 justify-end">
+                                                                                                                 {(lead.captionDetails?.classes || []).map(c => (
+                                                                                                                     <span key={c} className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-200">{c}</span>
+                                                                                                                 ))}
+                                                                                                             </div>
+                                                                                                         </div>
+                                                                                                         {captionDetails && (
+                                                                                                             <div className="text-xs text-slate-600 space-y-1">
+                                                                                                                 {captionDetails.emails.length > 0 && <p><b>Emails:</b> {captionDetails.emails.join(", ")}</p>}
+                                                                                                                 {captionDetails.phones.length > 0 && <p><b>Phones:</b> {captionDetails.phones.join(", ")}</p>}
+                                                                                                                 {captionDetails.whatsapp.length > 0 && <p><b>WhatsApp:</b> {captionDetails.whatsapp.join(", ")}</p>}
+                                                                                                                 {[...captionDetails.linkPages, ...captionDetails.websites].map(url => (
+                                                                                                                     <a key={url} href={url} target="_blank" className="block truncate text-blue-600 hover:underline">{url}</a>
+                                                                                                                 ))}
+                                                                                                                 {captionDetails.mentions.length > 0 && <p><b>Mentions:</b> {captionDetails.mentions.map(m => `@${m}`).join(", ")}</p>}
+                                                                                                                 {captionDetails.locations.length > 0 && <p><b>Location:</b> {captionDetails.locations.join(" · ")}</p>}
+                                                                                                             </div>
+                                                                                                         )}
+                                                                                                         <p className="text-xs text-slate-500 whitespace-pre-wrap max-h-48 overflow-y-auto">{lead.caption}</p>
+                                                                                                     </div>
+                                                                                                   )}
+
+                                                                                                   {/* Merged Records */}
+                                                                                                   {lead.mergedFrom && lead.mergedFrom.length > 0 && (
+                                                                                                     <div className="p-4 border border-slate-100 rounded-xl space-y-2">
+                                                                                                         <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">Merged Records ({lead.mergedFrom.length})</p>
+                                                                                                         {lead.mergedFrom.map((m, i) => (
+                                                                                                             <div key={`${m.lead.id}-${i}`} className="text-xs text-slate-600">
+                                                                                                                 <b>{m.lead.companyName}</b>
+                                                                                                                 <span className="text-slate-400"> · {[m.lead.source, m.lead.phone, m.lead.domain].filter(Boolean).join(" · ")}</span>
+                                                                                                                 <span className="block text-[10px] text-slate-400">Merged {new Date(m.mergedAt).toLocaleString()}</span>
+                                                                                                             </div>
+                                                                                                         ))}
+                                                                                                     </div>
+                                                                                                   )}
+
+                                                                                                   {/* Outreach */}
+                                                                                                   <OutreachComposer lead={lead} alreadyContacted={alreadyContacted} onSent={(l, staged) => {
+                                                                                                       setLog(prev => [l, ...prev]);
+                                                                                                       if (staged) onLeadsUpdated([staged]);
+                                                                                                   }} />
+
+                                                                                                   {/* Sequences */}
+                                                                                                   <SequencePanel lead={lead} />
 
                                                                                                    {/* Logs */}
                                                                                                    {log.length > 0 && (
                                                                                                        <div className="pt-4 border-t border-slate-100">
-                                                                                                            <h3 className="text-xs font-bold text-slate-400 uppercase mb-3">Recent Activity</h3>
+                                                                                                            <h3 className="text-xs font-bold text-slate-400 uppercase mb-3">Outreach History ({log.length})</h3>
                                                                                                             <div className="space-y-2">
-                                                                                                               {log.map((l, i) => (
-                                                                                                                   <div key={i} className="text-xs bg-white p-3 rounded-lg text-slate-500 border border-slate-200 shadow-sm flex justify-between items-center">
-                                                                                                                       <span className="font-medium text-slate-900 truncate max-w-[200px]">{l.subject}</span>
-                                                                                                                       <span className="bg-emerald-100 text-emerald-700 px-2 py-0.5 rounded-full font-bold text-[10px]">{l.status}</span>
+                                                                                                               {log.map((l) => (
+                                                                                                                   <div key={l.id} className="text-xs bg-white p-3 rounded-lg text-slate-500 border border-slate-200 shadow-sm flex justify-between items-center">
+                                                                                                                       <div className="min-w-0">
+                                                                                                                           <span className="block font-medium text-slate-900 truncate max-w-[200px]">{l.subject}</span>
+                                                                                                                           <span className="block text-[10px] text-slate-400 truncate max-w-[200px]">
+                                                                                                                               {new Date(l.sentAt).toLocaleString()} · {l.emailUsed}
+                                                                                                                           </span>
+                                                                                                                           {l.error && <span className="block text-[10px] text-red-500 truncate max-w-[200px]">{l.error}</span>}
+                                                                                                                       </div>
+                                                                                                                       <span className={`px-2 py-0.5 rounded-full font-bold text-[10px] uppercase ${l.status === "sent" ? "bg-emerald-100 text-emerald-700" : "bg-red-100 text-red-700"}`}>{l.status}</span>
                                                                                                                    </div>
                                                                                                                ))}
                                                                                                             </div>
@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { Lead } from "@/lib/types";
+import { StickyNote, Tag, Trash2, X, Plus } from "lucide-react";
+
+interface Props {
+  lead: Lead;
+  onLeadsUpdated: (leads: Lead[]) => void;
+}
+
+export default function LeadNotes({ lead, onLeadsUpdated }: Props) {
+  const [text, setText] = useState("");
+  const [tagInput, setTagInput] = useState("");
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const tags = lead.tags || [];
+  const notes = lead.userNotes || [];
+
+  React.useEffect(() => {
+    setText("");
+    setTagInput("");
+    fetch('/api/notes')
+      .then(res => res.json())
+      .then(data => setKnownTags(data.tags || []))
+      .catch(() => setKnownTags([]));
+  }, [lead.id]);
+
+  const send = async (payload: Record<string, unknown>) => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/notes', { method: 'POST', body: JSON.stringify({ ...payload, lead }) });
+      const data = await res.json();
+      if (data.error) return alert("❌ " + data.error);
+      onLeadsUpdated([data.lead]);
+      return data.lead as Lead;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addNote = async () => {
+    if (!text.trim()) return;
+    if (await send({ action: 'add', text })) setText("");
+  };
+
+  const saveTags = async (next: string[]) => {
+    const saved = await send({ action: 'tags', tags: next });
+    if (saved) setKnownTags(prev => Array.from(new Set([...prev, ...(saved.tags || [])])));
+  };
+
+  const addTag = async (tag: string) => {
+    if (!tag.trim()) return;
+    await saveTags([...tags, tag]);
+    setTagInput("");
+  };
+
+  const suggestions = knownTags.filter(t => !tags.some(own => own.toLowerCase() === t.toLowerCase()));
+
+  return (
+    <div className="space-y-6">
+        {/* Tags */}
+        <div className="space-y-3">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2"><Tag className="w-3 h-3" /> Tags</p>
+            <div className="flex flex-wrap gap-1">
+                {tags.map(tag => (
+                    <span key={tag} className="text-[11px] font-bold px-2.5 py-1 rounded-full bg-amber-50 text-amber-800 border border-amber-200 flex items-center gap-1">
+                        {tag}
+                        <button onClick={() => saveTags(tags.filter(t => t !== tag))} disabled={saving} className="hover:text-red-600"><X className="w-3 h-3" /></button>
+                    </span>
+                ))}
+                {tags.length === 0 && <span className="text-[11px] text-slate-400">No tags yet.</span>}
+            </div>
+            <div className="flex gap-2">
+                <input value={tagInput} onChange={(e) => setTagInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && addTag(tagInput)}
+                    list="lead-tag-suggestions" placeholder='e.g. "met at JCK"'
+                    className="flex-1 text-xs border border-slate-200 rounded px-3 py-2 focus:outline-none focus:border-slate-400" />
+                <datalist id="lead-tag-suggestions">
+                    {suggestions.map(t => <option key={t} value={t} />)}
+                </datalist>
+                <button onClick={() => addTag(tagInput)} disabled={saving || !tagInput.trim()} className="px-3 border border-slate-300 rounded text-xs text-slate-600 hover:bg-slate-50 disabled:opacity-40">
+                    <Plus className="w-3 h-3" />
+                </button>
+            </div>
+        </div>
+
+        {/* Notes Thread */}
+        <div className="space-y-3">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2"><StickyNote className="w-3 h-3" /> Notes</p>
+            {lead.notes && <p className="text-[11px] text-slate-400 italic">From source: {lead.notes}</p>}
+            <div className="space-y-2">
+                {notes.map(note => (
+                    <div key={note.id} className="group p-3 bg-slate-50 border border-slate-100 rounded-lg">
+                        <p className="text-sm text-slate-700 whitespace-pre-wrap">{note.text}</p>
+                        <div className="flex justify-between items-center mt-1">
+                            <span className="text-[10px] text-slate-400">{new Date(note.createdAt).toLocaleString()}</span>
+                            <button onClick={() => send({ action: 'delete', noteId: note.id })} disabled={saving}
+                                className="text-slate-300 hover:text-red-600 opacity-0 group-hover:opacity-100"><Trash2 className="w-3 h-3" /></button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <textarea value={text} onChange={(e) => setText(e.target.value)} rows={3} placeholder="Add a note..."
+                className="w-full text-sm border border-slate-200 rounded p-3 focus:outline-none focus:border-slate-400 resize-none" />
+            <button onClick={addNote} disabled={saving || !text.trim()} className="w-full bg-slate-900 text-white text-xs font-bold py-2 rounded disabled:opacity-40">
+                {saving ? "Saving..." : "Add Note"}
+            </button>
+        </div>
+    </div>
+  );
+}
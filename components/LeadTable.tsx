@@ -1,53 +1,132 @@
 import React from "react";
-import { Lead } from "@/lib/types";
-import { CheckCircle, AlertTriangle, HelpCircle, ArrowRight, Download, Phone, Globe, Mail } from "lucide-react";
+import { Lead, OutreachSequence } from "@/lib/types";
+import { CheckCircle, AlertTriangle, HelpCircle, ArrowRight, Phone, Globe, Mail, Repeat, ShieldCheck, GitMerge, Tag, Share2 } from "lucide-react";
+import DuplicateReview from "@/components/DuplicateReview";
+import SaveToList from "@/components/SaveToList";
+import ExportLeads from "@/components/ExportLeads";
+import { hasTag, normalizeTags } from "@/lib/notes";
 
 interface Props {
   leads: Lead[];
   onSelect: (lead: Lead) => void;
+  onLeadsUpdated: (leads: Lead[]) => void;
+  onLeadsMerged: (merged: Lead, removedId: string) => void;
 }
 
-export default function LeadTable({ leads, onSelect }: Props) {
-
-  // ⚡️ PROFESSIONAL CSV EXPORT ENGINE
-  const downloadCSV = () => {
-    if (!leads || leads.length === 0) return;
-
-    // 1. Define Columns
-    const headers = ["Company", "Phone", "Website", "Email (Predicted)", "Score", "City/Region"];
-
-    // 2. Helper to clean data (Fixes the "Broken Row" bug)
-    // We wrap every field in quotes "..." so commas inside names don't break Excel.
-    const clean = (text: any) => {
-        if (!text) return '""';
-        return `"${String(text).replace(/"/g, '""')}"`; 
-    };
-
-    // 3. Build the CSV content row by row
-    const csvContent = [
-        headers.join(","), // Header Row
-        ...leads.map(l => [
-            clean(l.companyName),
-            clean(l.notes || "N/A"), // Phone
-            clean(l.website),
-            clean(l.rawEmail || l.predictedEmail),
-            clean(l.score),
-            clean(l.region)
-        ].join(","))
-    ].join("\n");
-
-    // 4. Create a "Blob" (Safe File Object)
-    // The "\ufeff" at the start tells Excel: "This file has Japanese/Arabic text"
-    const blob = new Blob(["\ufeff" + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-
-    // 5. Trigger Download
-    const link = document.createElement("a");
-    link.href = url;
-    link.setAttribute("download", `caratbridge_leads_${new Date().toISOString().slice(0,10)}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+const STATUS_BADGE = {
+  valid: { icon: CheckCircle, className: "text-emerald-600" },
+  risky: { icon: AlertTriangle, className: "text-amber-500" },
+  invalid: { icon: AlertTriangle, className: "text-red-500" },
+  unknown: { icon: HelpCircle, className: "text-slate-300" }
+};
+
+export default function LeadTable({ leads, onSelect, onLeadsUpdated, onLeadsMerged }: Props) {
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
+  const [sequences, setSequences] = React.useState<OutreachSequence[]>([]);
+  const [sequenceId, setSequenceId] = React.useState("");
+  const [enrolling, setEnrolling] = React.useState(false);
+  const [verifying, setVerifying] = React.useState(false);
+  const [enriching, setEnriching] = React.useState(false);
+  const [pushing, setPushing] = React.useState(false);
+  const [reviewingDuplicates, setReviewingDuplicates] = React.useState(false);
+  const [tagFilter, setTagFilter] = React.useState("");
+
+  // New result set = fresh selection
+  React.useEffect(() => { setSelectedIds(new Set()); }, [leads]);
+
+  // 🏷️ TAG FILTER (chips come from the tags on this result set)
+  const allTags = React.useMemo(() => normalizeTags(leads.flatMap(l => l.tags || [])), [leads]);
+  const activeTag = allTags.find(t => t.toLowerCase() === tagFilter.toLowerCase()) || "";
+  const shown = activeTag ? leads.filter(l => hasTag(l, activeTag)) : leads;
+
+  const filterByTag = (tag: string) => {
+    setTagFilter(activeTag === tag ? "" : tag);
+    setSelectedIds(new Set());
+  };
+
+  React.useEffect(() => {
+    fetch('/api/sequences').then(res => res.ok ? res.json() : null).then(data => {
+      if (!data) return;
+      setSequences(data.sequences);
+      setSequenceId(data.sequences[0]?.id || "");
+    }).catch(() => console.warn("Sequences loading..."));
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(selectedIds.size === shown.length ? new Set() : new Set(shown.map(l => l.id)));
+  };
+
+  // 🔁 BULK ENROLL into a follow-up sequence
+  const enrollSelected = async () => {
+    if (!sequenceId || selectedIds.size === 0) return;
+    setEnrolling(true);
+    try {
+      const res = await fetch('/api/sequences', {
+        method: 'POST',
+        body: JSON.stringify({ action: 'enroll', sequenceId, leads: leads.filter(l => selectedIds.has(l.id)) })
+      });
+      const data = await res.json();
+      if (data.error) alert("❌ " + data.error);
+      else alert(`✅ Enrolled ${data.enrolled} leads.${data.skipped.length ? ` Skipped ${data.skipped.length} (no email, already enrolled or suppressed).` : ""}`);
+      setSelectedIds(new Set());
+    } catch (e: any) {
+      alert("❌ " + e.message);
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  // ✅ BULK VERIFY (selected rows, or everything on screen)
+  const verifySelected = async () => {
+    const targets = selectedIds.size > 0 ? leads.filter(l => selectedIds.has(l.id)) : shown;
+    setVerifying(true);
+    try {
+      const res = await fetch('/api/verify', { method: 'POST', body: JSON.stringify({ leads: targets }) });
+      const data = await res.json();
+      if (data.error) alert("❌ " + data.error);
+      else onLeadsUpdated(data.leads);
+    } catch (e: any) {
+      alert("❌ " + e.message);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  // 🕸️ BULK ENRICH from websites (selected rows only: crawling is slow)
+  const enrichSelected = async () => {
+    setEnriching(true);
+    try {
+      const res = await fetch('/api/enrich', { method: 'POST', body: JSON.stringify({ leads: leads.filter(l => selectedIds.has(l.id)) }) });
+      const data = await res.json();
+      if (data.error) alert("❌ " + data.error);
+      else onLeadsUpdated(data.leads);
+    } catch (e: any) {
+      alert("❌ " + e.message);
+    } finally {
+      setEnriching(false);
+    }
+  };
+
+  // 🤝 PUSH SELECTED to HubSpot (updates the records from earlier pushes)
+  const pushSelected = async () => {
+    setPushing(true);
+    try {
+      const res = await fetch('/api/crm', { method: 'POST', body: JSON.stringify({ action: 'push', leads: leads.filter(l => selectedIds.has(l.id)) }) });
+      const data = await res.json();
+      if (data.error) return alert("❌ " + data.error);
+      onLeadsUpdated(data.leads);
+      alert(`✅ Pushed ${data.pushed} leads to HubSpot.` + (data.failed.length ? `\n❌ ${data.failed.length} failed: ${data.failed[0].error}` : ""));
+    } catch (e: any) {
+      alert("❌ " + e.message);
+    } finally {
+      setPushing(false);
+    }
   };
 
   // Empty State
@@ -65,25 +144,62 @@ export default function LeadTable({ leads, onSelect }: Props) {
       {/* Toolbar */}
       <div className="px-6 py-4 bg-white border-b border-slate-200 flex justify-between items-center shadow-sm z-10">
         <div className="flex items-center gap-2">
-            <span className="text-slate-900 font-bold text-sm">Found {leads.length} Active Leads</span>
+            <span className="text-slate-900 font-bold text-sm">Found {shown.length}{activeTag ? ` of ${leads.length}` : ""} Active Leads</span>
             <span className="text-[10px] bg-slate-100 text-slate-500 px-2 py-0.5 rounded border border-slate-200">
                 Bulk Mode Active
             </span>
         </div>
-        <button 
-            onClick={downloadCSV} 
-            className="flex items-center gap-2 text-xs font-bold text-white bg-slate-900 border border-slate-900 px-4 py-2 rounded hover:bg-slate-800 transition-colors shadow-md"
-        >
-            <Download className="w-4 h-4" /> Export Excel (Safe)
-        </button>
+        <div className="flex items-center gap-2">
+            {selectedIds.size > 0 && (
+                <div className="flex items-center gap-2 text-xs">
+                    <span className="font-bold text-slate-600">{selectedIds.size} selected</span>
+                    <select value={sequenceId} onChange={e => setSequenceId(e.target.value)} className="border border-slate-200 rounded px-2 py-2 bg-white">
+                        {sequences.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <button onClick={enrollSelected} disabled={enrolling} className="flex items-center gap-2 font-bold text-slate-700 border border-slate-300 px-3 py-2 rounded hover:bg-slate-50">
+                        <Repeat className="w-4 h-4" /> {enrolling ? "Enrolling..." : "Enroll"}
+                    </button>
+                    <button onClick={enrichSelected} disabled={enriching} className="flex items-center gap-2 font-bold text-slate-700 border border-slate-300 px-3 py-2 rounded hover:bg-slate-50">
+                        <Globe className="w-4 h-4" /> {enriching ? "Crawling..." : "Enrich"}
+                    </button>
+                    <button onClick={pushSelected} disabled={pushing} className="flex items-center gap-2 font-bold text-slate-700 border border-slate-300 px-3 py-2 rounded hover:bg-slate-50">
+                        <Share2 className="w-4 h-4" /> {pushing ? "Pushing..." : "HubSpot"}
+                    </button>
+                </div>
+            )}
+            <SaveToList leads={selectedIds.size > 0 ? leads.filter(l => selectedIds.has(l.id)) : shown} />
+            <button onClick={() => setReviewingDuplicates(true)} className="flex items-center gap-2 text-xs font-bold text-slate-700 border border-slate-300 px-3 py-2 rounded hover:bg-slate-50">
+                <GitMerge className="w-4 h-4" /> Duplicates
+            </button>
+            <button onClick={verifySelected} disabled={verifying} className="flex items-center gap-2 text-xs font-bold text-slate-700 border border-slate-300 px-3 py-2 rounded hover:bg-slate-50">
+                <ShieldCheck className="w-4 h-4" /> {verifying ? "Verifying..." : selectedIds.size > 0 ? "Verify Selected" : "Verify All"}
+            </button>
+            <ExportLeads scope={{ leads: selectedIds.size > 0 ? leads.filter(l => selectedIds.has(l.id)) : shown }} name={activeTag ? `caratbridge_${activeTag}` : "caratbridge_leads"} count={selectedIds.size || shown.length} />
+        </div>
       </div>
 
+      {/* Tag Filter */}
+      {allTags.length > 0 && (
+        <div className="px-6 py-2 bg-white border-b border-slate-200 flex flex-wrap items-center gap-1">
+            <Tag className="w-3 h-3 text-slate-400 mr-1" />
+            {allTags.map(tag => (
+                <button key={tag} onClick={() => filterByTag(tag)}
+                    className={`text-[11px] font-bold px-2.5 py-1 rounded-full border ${activeTag === tag ? "bg-amber-500 text-white border-amber-500" : "bg-white text-slate-500 border-slate-200 hover:border-slate-400"}`}>
+                    {tag}
+                </button>
+            ))}
+        </div>
+      )}
+
       {/* Table */}
       <div className="flex-1 overflow-auto p-6">
         <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
             <table className="w-full text-left text-sm text-slate-600">
             <thead className="bg-slate-50 text-xs uppercase text-slate-500 font-bold border-b border-slate-200 tracking-wider">
                 <tr>
+                    <th className="pl-5 py-4 w-8">
+                        <input type="checkbox" checked={shown.length > 0 && selectedIds.size === shown.length} onChange={toggleAll} />
+                    </th>
                     <th className="px-5 py-4 w-20 text-center">Score</th>
                     <th className="px-5 py-4">Company Details</th>
                     <th className="px-5 py-4">Contact Info</th>
@@ -92,12 +208,17 @@ export default function LeadTable({ leads, onSelect }: Props) {
                 </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-                {leads.map((lead) => (
+                {shown.map((lead) => (
                 <tr 
                     key={lead.id} 
                     className="hover:bg-slate-50 cursor-pointer transition-colors group" 
                     onClick={() => onSelect(lead)}
                 >
+                    {/* Select */}
+                    <td className="pl-5 py-4" onClick={(e) => e.stopPropagation()}>
+                        <input type="checkbox" checked={selectedIds.has(lead.id)} onChange={() => toggleSelected(lead.id)} />
+                    </td>
+
                     {/* Score */}
                     <td className="px-5 py-4 text-center">
                         <span className={`inline-block w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold ${
@@ -123,14 +244,19 @@ export default function LeadTable({ leads, onSelect }: Props) {
                                 {lead.region}
                             </span>
                         </div>
+                        {lead.tags && lead.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                                {lead.tags.map(tag => <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 border border-amber-100">{tag}</span>)}
+                            </div>
+                        )}
                     </td>
 
                     {/* Phone */}
                     <td className="px-5 py-4">
-                        {lead.notes && lead.notes !== "No Phone" ? (
+                        {lead.phone ? (
                             <div className="flex items-center gap-2 text-slate-700 font-mono text-xs">
                                 <Phone className="w-3 h-3 text-slate-400" />
-                                {lead.notes}
+                                {lead.phone}
                             </div>
                         ) : (
                             <span className="text-slate-300 text-xs italic">No direct line</span>
@@ -142,8 +268,13 @@ export default function LeadTable({ leads, onSelect }: Props) {
                         <div className="flex items-center gap-2">
                             <Mail className="w-3 h-3 text-slate-400" />
                             <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-500 border border-slate-200 font-mono">
-                                {lead.predictedEmail}
+                                {lead.rawEmail || lead.predictedEmail}
                             </span>
+                            {(() => {
+                                const badge = STATUS_BADGE[lead.emailVerificationStatus] || STATUS_BADGE.unknown;
+                                const Icon = badge.icon;
+                                return <span title={`${lead.emailVerificationStatus}: ${lead.emailVerificationReason || "not verified"}`}><Icon className={`w-4 h-4 ${badge.className}`} /></span>;
+                            })()}
                         </div>
                     </td>
 
@@ -157,6 +288,9 @@ export default function LeadTable({ leads, onSelect }: Props) {
             </table>
         </div>
       </div>
+      {reviewingDuplicates && (
+        <DuplicateReview leads={leads} onClose={() => setReviewingDuplicates(false)} onMerged={onLeadsMerged} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,209 @@
+import React, { useState } from "react";
+import { Lead, OutreachLog, OutreachTemplate, TemplateAudience } from "@/lib/types";
+import { MERGE_FIELDS, pickTemplateForLead, renderTemplate } from "@/lib/templates";
+import { Send, Edit2, Save, Trash2, Plus } from "lucide-react";
+
+interface Props {
+  lead: Lead;
+  alreadyContacted?: OutreachLog;
+  onSent: (log: OutreachLog, lead?: Lead) => void; // lead = the same lead after a stage change
+}
+
+const EMPTY_DRAFT = { id: "", name: "", subject: "", body: "", audience: "any" as TemplateAudience };
+
+export default function OutreachComposer({ lead, alreadyContacted, onSent }: Props) {
+  const [templates, setTemplates] = useState<OutreachTemplate[]>([]);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [sendError, setSendError] = useState("");
+
+  // 🔄 LOAD TEMPLATES (and pick the one that fits this lead's source)
+  React.useEffect(() => {
+    loadTemplates();
+    setSendError("");
+    setIsEditing(false);
+  }, [lead.id]);
+
+  const loadTemplates = async (selectId?: string) => {
+    try {
+      const res = await fetch('/api/templates');
+      if (!res.ok) return;
+      const data: OutreachTemplate[] = await res.json();
+      setTemplates(data);
+      const selected = data.find(t => t.id === selectId) || pickTemplateForLead(data, lead);
+      if (selected) setDraft(selected);
+    } catch (e) { console.warn("Templates loading..."); }
+  };
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (template) setDraft(template);
+    setIsEditing(false);
+  };
+
+  const saveTemplate = async (asNew: boolean) => {
+    const name = asNew ? prompt("Template name:", `${draft.name} (copy)`) : draft.name;
+    if (!name) return;
+    const res = await fetch('/api/templates', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'save', template: { ...draft, name, id: asNew ? undefined : draft.id } })
+    });
+    const data = await res.json();
+    if (data.error) return alert("❌ " + data.error);
+    setIsEditing(false);
+    loadTemplates(data.template.id);
+  };
+
+  const deleteTemplate = async () => {
+    if (!draft.id || !confirm(`Delete template "${draft.name}"?`)) return;
+    await fetch('/api/templates', { method: 'POST', body: JSON.stringify({ action: 'delete', id: draft.id }) });
+    loadTemplates();
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setSendError("");
+    try {
+      const res = await fetch('/api/outreach', {
+        method: 'POST',
+        body: JSON.stringify({
+          leadId: lead.id,
+          lead,
+          emailUsed: lead.rawEmail || lead.predictedEmail,
+          template: { id: draft.id || undefined, subject: draft.subject, body: draft.body }
+        })
+      });
+      const data = await res.json();
+      if (!data.success) setSendError(data.error || `Server Error (${res.status})`);
+      if (data.log) onSent(data.log, data.lead);
+    } catch (e: any) {
+      setSendError(e.message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Same renderer the server uses, so this is exactly what gets sent
+  const preview = renderTemplate(draft, lead);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-lg shadow-slate-200/50 p-6">
+        <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-6 flex items-center gap-2 border-b border-slate-100 pb-2">
+            <Send className="w-4 h-4 text-amber-600" /> Outreach
+        </h3>
+
+        <div className="space-y-4">
+            {/* Template Picker */}
+            <div>
+                <label className="text-xs font-semibold text-slate-500 block mb-1.5">Template</label>
+                <div className="flex gap-2">
+                    <select
+                        value={draft.id}
+                        onChange={e => selectTemplate(e.target.value)}
+                        className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg p-2 text-sm text-slate-900 outline-none focus:border-amber-500"
+                    >
+                        {!draft.id && <option value="">Unsaved template</option>}
+                        {templates.map(t => (
+                            <option key={t.id} value={t.id}>{t.name} · {t.audience}</option>
+                        ))}
+                    </select>
+                    <button onClick={() => setIsEditing(!isEditing)} title="Edit template" className="p-2 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-100">
+                        <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => { setDraft({ ...EMPTY_DRAFT, audience: draft.audience }); setIsEditing(true); }} title="New template" className="p-2 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-100">
+                        <Plus className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            {/* Template Editor */}
+            {isEditing && (
+                <div className="space-y-3 p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                    <div className="flex gap-2">
+                        <input
+                            value={draft.name}
+                            onChange={e => setDraft({ ...draft, name: e.target.value })}
+                            placeholder="Template name"
+                            className="flex-1 min-w-0 bg-white border border-slate-200 rounded p-2 text-sm outline-none focus:border-amber-500"
+                        />
+                        <select
+                            value={draft.audience}
+                            onChange={e => setDraft({ ...draft, audience: e.target.value as TemplateAudience })}
+                            className="bg-white border border-slate-200 rounded p-2 text-xs outline-none"
+                        >
+                            <option value="google">Google Maps</option>
+                            <option value="instagram">Instagram</option>
+                            <option value="any">Any source</option>
+                        </select>
+                    </div>
+                    <input
+                        value={draft.subject}
+                        onChange={e => setDraft({ ...draft, subject: e.target.value })}
+                        placeholder="Subject"
+                        className="w-full bg-white border border-slate-200 rounded p-2 text-sm font-mono outline-none focus:border-amber-500"
+                    />
+                    <textarea
+                        value={draft.body}
+                        onChange={e => setDraft({ ...draft, body: e.target.value })}
+                        rows={7}
+                        className="w-full bg-white border border-slate-200 rounded p-2 text-xs font-mono outline-none focus:border-amber-500"
+                    />
+                    <div className="flex flex-wrap gap-1">
+                        {MERGE_FIELDS.map(field => (
+                            <button
+                                key={field}
+                                onClick={() => setDraft({ ...draft, body: `${draft.body}{{${field}}}` })}
+                                className="text-[10px] font-mono bg-white border border-slate-200 px-2 py-0.5 rounded text-slate-600 hover:bg-amber-50"
+                            >
+                                {`{{${field}}}`}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-slate-400">Fallback for empty fields: {"{{firstName|there}}"}</p>
+                    <div className="flex gap-2">
+                        {draft.id && (
+                            <button onClick={() => saveTemplate(false)} className="flex-1 bg-slate-900 text-white text-xs font-bold py-2 rounded flex justify-center items-center gap-1">
+                                <Save className="w-3 h-3" /> Save
+                            </button>
+                        )}
+                        <button onClick={() => saveTemplate(true)} className="flex-1 border border-slate-300 text-slate-700 text-xs font-bold py-2 rounded">
+                            Save as New
+                        </button>
+                        {draft.id && (
+                            <button onClick={deleteTemplate} className="px-3 text-red-400 hover:text-red-600">
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Live Preview */}
+            <div>
+                <label className="text-xs font-semibold text-slate-500 block mb-1.5">Email Preview</label>
+                <div className="w-full bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600 overflow-hidden">
+                    <div className="px-4 py-2 border-b border-slate-200 bg-white text-slate-900 font-medium">{preview.subject || <span className="text-slate-300 italic">No subject</span>}</div>
+                    <div className="h-40 p-4 font-serif leading-relaxed overflow-auto whitespace-pre-line">{preview.body}</div>
+                </div>
+            </div>
+
+            {alreadyContacted && (
+                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-3">
+                    ⚠️ Already emailed {new Date(alreadyContacted.sentAt).toLocaleDateString()} ({alreadyContacted.emailUsed}).
+                </p>
+            )}
+            <button
+                onClick={handleSend}
+                disabled={isSending}
+                className="w-full bg-slate-900 hover:bg-slate-800 text-white text-sm font-medium py-3 rounded-lg transition-all shadow-md active:scale-[0.98]"
+            >
+                {isSending ? "Sending..." : alreadyContacted ? "Send Again" : "Send Outreach"}
+            </button>
+            {sendError && (
+                <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg p-3">❌ {sendError}</p>
+            )}
+        </div>
+    </div>
+  );
+}
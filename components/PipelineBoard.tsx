@@ -0,0 +1,99 @@
+import React from "react";
+import { Lead, PipelineStage } from "@/lib/types";
+import { PIPELINE_STAGES, getStage } from "@/lib/pipeline";
+import { Globe } from "lucide-react";
+
+interface Props {
+  leads: Lead[];
+  onSelect: (lead: Lead) => void;
+  onLeadsUpdated: (leads: Lead[]) => void;
+}
+
+const STAGE_COLOR: Record<PipelineStage, string> = {
+  New: "border-t-slate-300",
+  Qualified: "border-t-blue-400",
+  Contacted: "border-t-amber-400",
+  Replied: "border-t-purple-400",
+  Meeting: "border-t-pink-400",
+  Won: "border-t-emerald-500",
+  Lost: "border-t-red-400"
+};
+
+export default function PipelineBoard({ leads, onSelect, onLeadsUpdated }: Props) {
+  const [dragId, setDragId] = React.useState<string | null>(null);
+  const [overStage, setOverStage] = React.useState<PipelineStage | null>(null);
+
+  const moveLead = async (lead: Lead, stage: PipelineStage) => {
+    if (getStage(lead) === stage) return;
+    // Show the move right away, then keep whatever the server stored
+    onLeadsUpdated([{ ...lead, stage }]);
+    try {
+      const res = await fetch('/api/pipeline', { method: 'POST', body: JSON.stringify({ action: 'stage', lead, stage }) });
+      const data = await res.json();
+      if (data.error) {
+        alert("❌ " + data.error);
+        onLeadsUpdated([lead]);
+      } else onLeadsUpdated([data.lead]);
+    } catch (e: any) {
+      alert("❌ " + e.message);
+      onLeadsUpdated([lead]);
+    }
+  };
+
+  const onDrop = (stage: PipelineStage) => {
+    const lead = leads.find(l => l.id === dragId);
+    setDragId(null);
+    setOverStage(null);
+    if (lead) moveLead(lead, stage);
+  };
+
+  if (leads.length === 0) {
+    return (
+        <div className="flex-1 flex flex-col items-center justify-center bg-slate-50 text-slate-400">
+            <p className="font-medium text-sm">Ready to scan...</p>
+        </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-x-auto p-6 bg-slate-50">
+      <div className="flex gap-4 h-full min-w-max">
+        {PIPELINE_STAGES.map(stage => {
+          const column = leads.filter(l => getStage(l) === stage);
+          return (
+            <div
+              key={stage}
+              onDragOver={(e) => { e.preventDefault(); setOverStage(stage); }}
+              onDragLeave={() => setOverStage(null)}
+              onDrop={() => onDrop(stage)}
+              className={`w-64 flex flex-col bg-white rounded-lg border border-slate-200 border-t-4 ${STAGE_COLOR[stage]} ${overStage === stage ? "ring-2 ring-slate-300" : ""}`}
+            >
+              <div className="px-4 py-3 flex justify-between items-center border-b border-slate-100">
+                <span className="text-xs font-bold uppercase tracking-wider text-slate-600">{stage}</span>
+                <span className="text-[10px] font-bold text-slate-400">{column.length}</span>
+              </div>
+              <div className="flex-1 overflow-y-auto p-2 space-y-2">
+                {column.map(lead => (
+                  <div
+                    key={lead.id}
+                    draggable
+                    onDragStart={() => setDragId(lead.id)}
+                    onClick={() => onSelect(lead)}
+                    className={`p-3 rounded border border-slate-200 bg-white shadow-sm cursor-grab hover:border-slate-400 ${dragId === lead.id ? "opacity-50" : ""}`}
+                  >
+                    <p className="text-sm font-bold text-slate-900 truncate">{lead.companyName}</p>
+                    <p className="text-[11px] text-slate-500 flex items-center gap-1 truncate"><Globe className="w-3 h-3" /> {lead.domain}</p>
+                    <div className="flex justify-between mt-2 text-[10px] text-slate-400">
+                      <span>{lead.region}</span>
+                      <span className="font-bold">{lead.score}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React from "react";
+import { Lead, LeadList } from "@/lib/types";
+import { FolderPlus } from "lucide-react";
+
+interface Props {
+  leads: Lead[]; // Selected rows, or the whole result set
+}
+
+const NEW_LIST = "__new__";
+
+export default function SaveToList({ leads }: Props) {
+  const [lists, setLists] = React.useState<LeadList[]>([]);
+  const [listId, setListId] = React.useState(NEW_LIST);
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    fetch('/api/lists').then(res => res.ok ? res.json() : []).then(setLists).catch(() => console.warn("Lists loading..."));
+  }, []);
+
+  const save = async () => {
+    if (leads.length === 0) return;
+    let body: any = { action: 'add', listId, leads };
+    if (listId === NEW_LIST) {
+      const name = prompt("Name this list", `${leads[0].sourceQuery || leads[0].region} – ${new Date().toLocaleString("en", { month: "short" })}`);
+      if (!name) return;
+      body = { action: 'create', name, leads };
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/lists', { method: 'POST', body: JSON.stringify(body) });
+      const data = await res.json();
+      if (data.error) return alert("❌ " + data.error);
+      alert(`✅ Saved ${data.added.length} leads.${data.skipped ? ` Skipped ${data.skipped} already in the list.` : ""}`);
+      if (data.list) {
+        setLists(prev => [data.list, ...prev]);
+        setListId(data.list.id);
+      }
+    } catch (e: any) {
+      alert("❌ " + e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+        <select value={listId} onChange={e => setListId(e.target.value)} className="border border-slate-200 rounded px-2 py-2 bg-white max-w-[160px]">
+            <option value={NEW_LIST}>+ New list…</option>
+            {lists.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </select>
+        <button onClick={save} disabled={saving} className="flex items-center gap-2 font-bold text-slate-700 border border-slate-300 px-3 py-2 rounded hover:bg-slate-50">
+            <FolderPlus className="w-4 h-4" /> {saving ? "Saving..." : "Save to List"}
+        </button>
+    </div>
+  );
+}
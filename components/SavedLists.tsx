@@ -0,0 +1,99 @@
+import React from "react";
+import { Lead, LeadList } from "@/lib/types";
+import { FolderOpen, Edit2, Trash2, Kanban, Upload } from "lucide-react";
+import ImportLeads from "@/components/ImportLeads";
+import ExportLeads from "@/components/ExportLeads";
+
+interface Props {
+  onOpen: (leads: Lead[], list?: LeadList) => void; // No list = the pipeline view
+}
+
+export default function SavedLists({ onOpen }: Props) {
+  const [lists, setLists] = React.useState<LeadList[]>([]);
+  const [openingId, setOpeningId] = React.useState("");
+  const [importing, setImporting] = React.useState(false);
+
+  React.useEffect(() => { loadLists(); }, []);
+
+  const loadLists = async () => {
+    try {
+      const res = await fetch('/api/lists');
+      if (res.ok) setLists(await res.json());
+    } catch (e) { console.warn("Lists loading..."); }
+  };
+
+  const open = async (list: LeadList) => {
+    setOpeningId(list.id);
+    try {
+      const res = await fetch(`/api/lists?id=${encodeURIComponent(list.id)}`);
+      const data = await res.json();
+      if (data.error) alert("❌ " + data.error);
+      else onOpen(data.leads, data.list);
+    } finally {
+      setOpeningId("");
+    }
+  };
+
+  // Every lead anyone moved past "New", whichever search or list it came from
+  const openPipeline = async () => {
+    setOpeningId("pipeline");
+    try {
+      const res = await fetch('/api/pipeline');
+      if (res.ok) onOpen(await res.json());
+    } finally {
+      setOpeningId("");
+    }
+  };
+
+  // Opens the list the spreadsheet went into
+  const imported = async (listId: string) => {
+    setImporting(false);
+    const res = await fetch('/api/lists');
+    if (!res.ok) return;
+    const updated: LeadList[] = await res.json();
+    setLists(updated);
+    const list = updated.find(l => l.id === listId);
+    if (list) open(list);
+  };
+
+  const rename = async (list: LeadList) => {
+    const name = prompt("Rename list", list.name);
+    if (!name || name === list.name) return;
+    await fetch('/api/lists', { method: 'POST', body: JSON.stringify({ action: 'rename', listId: list.id, name }) });
+    loadLists();
+  };
+
+  const remove = async (list: LeadList) => {
+    if (!confirm(`Delete "${list.name}"? The leads stay in the database.`)) return;
+    await fetch('/api/lists', { method: 'POST', body: JSON.stringify({ action: 'delete', listId: list.id }) });
+    loadLists();
+  };
+
+  return (
+    <div className="animate-slide-in space-y-4">
+        <h3 className="text-slate-900 font-bold text-lg flex items-center gap-2"><FolderOpen className="w-5 h-5" /> Saved Lists</h3>
+        <button onClick={openPipeline} className="w-full flex items-center gap-2 bg-slate-900 text-white text-xs font-bold p-3 rounded shadow-sm hover:bg-slate-700">
+            <Kanban className="w-4 h-4" /> {openingId === "pipeline" ? "Opening..." : "All Tracked Leads (Pipeline)"}
+        </button>
+        {importing
+            ? <ImportLeads lists={lists} onImported={imported} onClose={() => setImporting(false)} />
+            : <button onClick={() => setImporting(true)} className="w-full flex items-center gap-2 border border-slate-300 text-slate-700 text-xs font-bold p-3 rounded hover:bg-slate-50">
+                  <Upload className="w-4 h-4" /> Import CSV / Excel
+              </button>}
+        {lists.length === 0 && <p className="text-xs text-slate-400 italic">No lists yet. Select rows in the table and use &quot;Save to List&quot;.</p>}
+        {lists.map(list => (
+            <div key={list.id} className="flex justify-between items-center bg-white border p-3 rounded shadow-sm hover:border-slate-400 transition-colors">
+                <button onClick={() => open(list)} className="text-left min-w-0 flex-1">
+                    <span className="block font-bold text-slate-700 text-sm truncate">{openingId === list.id ? "Opening..." : list.name}</span>
+                    <span className="block text-[10px] text-slate-400">{list.leadCount} leads · {new Date(list.updatedAt).toLocaleDateString()}</span>
+                </button>
+                <div className="flex gap-2 shrink-0">
+                    <ExportLeads scope={{ listId: list.id }} name={list.name} compact />
+                    <button onClick={() => rename(list)} className="text-slate-400 hover:text-slate-700"><Edit2 className="w-4 h-4" /></button>
+                    <button onClick={() => remove(list)} className="text-red-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+                </div>
+            </div>
+        ))}
+    </div>
+  );
+}
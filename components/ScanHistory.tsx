@@ -0,0 +1,85 @@
+import React from "react";
+import type { ScanRecord } from "@/lib/db";
+import { History, ChevronDown, ChevronRight, AlertTriangle } from "lucide-react";
+
+interface Props {
+  refreshKey?: number; // Changes when a scan finished (reloads the list if it is open)
+}
+
+const duration = (scan: ScanRecord) => {
+  if (!scan.finishedAt) return "running";
+  const secs = Math.round((new Date(scan.finishedAt).getTime() - new Date(scan.startedAt).getTime()) / 1000);
+  return secs < 60 ? `${secs}s` : `${Math.floor(secs / 60)}m ${secs % 60}s`;
+};
+
+export default function ScanHistory({ refreshKey }: Props) {
+  const [open, setOpen] = React.useState(false);
+  const [scans, setScans] = React.useState<ScanRecord[]>([]);
+  const [expandedId, setExpandedId] = React.useState<number | null>(null);
+
+  React.useEffect(() => { if (open) loadHistory(); }, [open, refreshKey]);
+
+  const loadHistory = async () => {
+    try {
+      const res = await fetch('/api/monitor', { method: 'POST', body: JSON.stringify({ action: 'history' }) });
+      if (res.ok) setScans((await res.json()).scans || []);
+    } catch (e) { console.warn("History loading..."); }
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-100">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between text-xs font-bold text-slate-500 uppercase">
+        <span className="flex items-center gap-2"><History className="w-3 h-3" /> Run History</span>
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          {scans.length === 0 && <p className="text-xs text-slate-400 italic">No scans yet.</p>}
+          {scans.map(scan => {
+            const failedTags = scan.results.filter(r => r.error).length;
+            return (
+              <div key={scan.id} className="bg-white border rounded shadow-sm text-[11px]">
+                <button onClick={() => setExpandedId(expandedId === scan.id ? null : scan.id)} className="w-full p-2 flex justify-between items-center text-left">
+                  <span className="text-slate-600">
+                    {new Date(scan.startedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    <span className="ml-1 text-[9px] uppercase text-slate-400">{scan.trigger}</span>
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {(scan.error || failedTags > 0) && <AlertTriangle className="w-3 h-3 text-red-500" />}
+                    <span className={`font-bold ${scan.newLeads > 0 ? "text-emerald-600" : "text-slate-400"}`}>+{scan.newLeads}</span>
+                    <span className="text-slate-400">{duration(scan)}</span>
+                  </span>
+                </button>
+
+                {expandedId === scan.id && (
+                  <div className="border-t border-slate-100 p-2 space-y-1">
+                    {scan.error && <p className="text-red-600 font-bold">{scan.error}</p>}
+                    {scan.results.length > 0 && (
+                      <table className="w-full">
+                        <thead className="text-[9px] uppercase text-slate-400">
+                          <tr><th className="text-left">Tag</th><th title="Posts fetched">Got</th><th title="Older than 48h">Old</th><th>New</th><th title="Already stored">Dup</th></tr>
+                        </thead>
+                        <tbody>
+                          {scan.results.map(r => (
+                            <React.Fragment key={r.tag}>
+                              <tr className="text-center text-slate-600">
+                                <td className="text-left font-bold">#{r.tag}</td><td>{r.fetched}</td><td>{r.tooOld}</td><td>{r.newLeads}</td><td>{r.duplicates}</td>
+                              </tr>
+                              {r.error && <tr><td colSpan={5} className="text-red-600 pb-1">{r.error}</td></tr>}
+                              {!r.error && r.fetched === 0 && <tr><td colSpan={5} className="text-amber-600 pb-1">No posts returned (dead or banned hashtag?)</td></tr>}
+                            </React.Fragment>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React from "react";
+import { ScoringRules } from "@/lib/types";
+import { Gauge, Save, RotateCcw } from "lucide-react";
+
+interface Props {
+  isEditing: boolean;
+}
+
+const list = (values: string[]) => values.join(", ");
+const parseList = (text: string) => text.split(",").map(v => v.trim()).filter(Boolean);
+
+export default function ScoringSettings({ isEditing }: Props) {
+  const [rules, setRules] = React.useState<ScoringRules | null>(null);
+  const [typesText, setTypesText] = React.useState("");
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => { loadRules(); }, []);
+
+  const loadRules = async () => {
+    try {
+      const res = await fetch('/api/scoring');
+      if (res.ok) applyRules(await res.json());
+    } catch (e) { console.warn("Scoring rules loading..."); }
+  };
+
+  const applyRules = (data: ScoringRules) => {
+    setRules(data);
+    setTypesText(data.businessTypes.map(b => `${b.match}: ${b.points}`).join("\n"));
+  };
+
+  const save = async (action: "save" | "reset") => {
+    if (!rules) return;
+    setSaving(true);
+    try {
+      // "wholesale: 25" per line
+      const businessTypes = typesText.split("\n").map(line => {
+        const [match, points] = line.split(":");
+        return { match: (match || "").trim(), points: Number(points) || 0 };
+      }).filter(b => b.match);
+      const res = await fetch('/api/scoring', { method: 'POST', body: JSON.stringify({ action, rules: { ...rules, businessTypes } }) });
+      const data = await res.json();
+      if (data.error) alert("❌ " + data.error);
+      else {
+        alert(`✅ Scoring saved. Re-scored ${data.rescored} stored leads.`);
+        loadRules();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!rules) return null;
+
+  const num = (value: number, onChange: (n: number) => void, label: string) => (
+    <label className="flex items-center justify-between gap-2 text-[11px] text-slate-600">
+      {label}
+      <input type="number" className="w-16 bg-white border border-slate-300 rounded p-1 text-xs font-mono text-right" value={value} onChange={(e) => onChange(Number(e.target.value))} disabled={!isEditing} />
+    </label>
+  );
+  const set = <K extends keyof ScoringRules>(key: K, changes: Partial<ScoringRules[K]>) => setRules({ ...rules, [key]: { ...rules[key], ...changes } });
+
+  return (
+    <div className="p-4 border rounded-lg bg-slate-50 transition-colors focus-within:border-slate-400 space-y-3">
+        <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
+            <Gauge className="w-3 h-3" /> Lead Scoring
+        </label>
+
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Markets</p>
+            <input type="text" className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs" value={list(rules.markets.tier1)} onChange={(e) => set("markets", { tier1: parseList(e.target.value) })} disabled={!isEditing} />
+            {num(rules.markets.tier1Points, n => set("markets", { tier1Points: n }), "Tier 1 points")}
+            <input type="text" className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs" value={list(rules.markets.tier2)} onChange={(e) => set("markets", { tier2: parseList(e.target.value) })} disabled={!isEditing} />
+            {num(rules.markets.tier2Points, n => set("markets", { tier2Points: n }), "Tier 2 points")}
+            {num(rules.markets.otherPoints, n => set("markets", { otherPoints: n }), "Other markets")}
+        </div>
+
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Business Type (match: points)</p>
+            <textarea rows={4} className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs font-mono" value={typesText} onChange={(e) => setTypesText(e.target.value)} disabled={!isEditing} />
+        </div>
+
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Email Quality</p>
+            {num(rules.emailQuality.rawEmail, n => set("emailQuality", { rawEmail: n }), "Real address")}
+            {num(rules.emailQuality.predictedEmail, n => set("emailQuality", { predictedEmail: n }), "Predicted address")}
+            {num(rules.emailQuality.validBonus, n => set("emailQuality", { validBonus: n }), "Verified bonus")}
+            {num(rules.emailQuality.riskyPenalty, n => set("emailQuality", { riskyPenalty: n }), "Risky penalty")}
+        </div>
+
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Google Signals</p>
+            {num(rules.rating.maxPoints, n => set("rating", { maxPoints: n }), "Rating (max)")}
+            {num(rules.reviewCount.maxPoints, n => set("reviewCount", { maxPoints: n }), "Reviews (max)")}
+            {num(rules.reviewCount.saturation, n => set("reviewCount", { saturation: n }), "Reviews for full points")}
+        </div>
+
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Post Recency</p>
+            {num(rules.recency.maxPoints, n => set("recency", { maxPoints: n }), "Recency (max)")}
+            {num(rules.recency.freshHours, n => set("recency", { freshHours: n }), "Fresh for (hours)")}
+            {num(rules.recency.staleHours, n => set("recency", { staleHours: n }), "Stale after (hours)")}
+        </div>
+
+        <div className="space-y-1">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Keywords</p>
+            <input type="text" className="w-full bg-white border border-slate-300 rounded p-1.5 text-xs" value={list(rules.keywords.terms)} onChange={(e) => set("keywords", { terms: parseList(e.target.value) })} disabled={!isEditing} />
+            {num(rules.keywords.pointsEach, n => set("keywords", { pointsEach: n }), "Points per match")}
+            {num(rules.keywords.maxPoints, n => set("keywords", { maxPoints: n }), "Keywords (max)")}
+        </div>
+
+        {isEditing && (
+            <div className="flex gap-2">
+                <button onClick={() => save("save")} disabled={saving} className="flex-1 bg-slate-900 text-white text-xs font-bold py-2 rounded flex justify-center items-center gap-1">
+                    <Save className="w-3 h-3" /> {saving ? "Re-scoring..." : "Save & Re-score"}
+                </button>
+                <button onClick={() => save("reset")} disabled={saving} title="Reset to defaults" className="px-3 border border-slate-300 rounded text-slate-500">
+                    <RotateCcw className="w-3 h-3" />
+                </button>
+            </div>
+        )}
+        <p className="text-[10px] text-slate-400">Score = points earned / points available for that lead. Missing signals (e.g. rating on Instagram) don&apos;t count against it.</p>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { useState } from "react";
+import { Lead, LeadOutcome, OutreachSequence, OutreachTemplate, SequenceEnrollment } from "@/lib/types";
+import { describeProgress } from "@/lib/sequences";
+import { Repeat, Plus, Trash2, Save, Square } from "lucide-react";
+
+interface Props {
+  lead: Lead;
+}
+
+const OUTCOMES: LeadOutcome[] = ["replied", "bounced", "unsubscribed"];
+
+export default function SequencePanel({ lead }: Props) {
+  const [sequences, setSequences] = useState<OutreachSequence[]>([]);
+  const [templates, setTemplates] = useState<OutreachTemplate[]>([]);
+  const [enrollments, setEnrollments] = useState<SequenceEnrollment[]>([]);
+  const [suppression, setSuppression] = useState<{ reason: LeadOutcome; at: string } | null>(null);
+  const [sequenceId, setSequenceId] = useState("");
+  const [editing, setEditing] = useState<OutreachSequence | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const email = lead.rawEmail || lead.predictedEmail;
+
+  React.useEffect(() => {
+    loadData();
+    setEditing(null);
+  }, [lead.id]);
+
+  // 🔄 LOAD SEQUENCES + THIS LEAD'S PROGRESS
+  const loadData = async () => {
+    try {
+      const params = new URLSearchParams({ leadId: lead.id });
+      if (email) params.append("email", email);
+      const [seqRes, tplRes] = await Promise.all([fetch(`/api/sequences?${params}`), fetch('/api/templates')]);
+      if (seqRes.ok) {
+        const data = await seqRes.json();
+        setSequences(data.sequences);
+        setEnrollments(data.enrollments);
+        setSuppression(data.suppression);
+        setSequenceId(prev => prev || data.sequences[0]?.id || "");
+      }
+      if (tplRes.ok) setTemplates(await tplRes.json());
+    } catch (e) { console.warn("Sequences loading..."); }
+  };
+
+  const post = async (payload: any) => {
+    setBusy(true);
+    try {
+      const res = await fetch('/api/sequences', { method: 'POST', body: JSON.stringify(payload) });
+      const data = await res.json();
+      if (data.error) alert("❌ " + data.error);
+      return data;
+    } finally {
+      setBusy(false);
+      loadData();
+    }
+  };
+
+  const enroll = async () => {
+    const data = await post({ action: 'enroll', sequenceId, leads: [lead] });
+    if (data.skipped?.length) alert(`Not enrolled: ${data.skipped[0].reason}`);
+  };
+
+  const saveSequence = async () => {
+    if (!editing) return;
+    const data = await post({ action: 'save', sequence: editing });
+    if (data.success) { setEditing(null); setSequenceId(data.sequence.id); }
+  };
+
+  const deleteSequence = async () => {
+    if (!editing?.id || !confirm(`Delete sequence "${editing.name}"?`)) return;
+    await post({ action: 'delete', id: editing.id });
+    setEditing(null);
+    setSequenceId("");
+  };
+
+  const updateStep = (index: number, changes: Partial<OutreachSequence["steps"][number]>) => {
+    if (!editing) return;
+    setEditing({ ...editing, steps: editing.steps.map((s, i) => i === index ? { ...s, ...changes } : s) });
+  };
+
+  const sequenceName = (id: string) => sequences.find(s => s.id === id)?.name || id;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-6">
+        <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-4 flex items-center gap-2 border-b border-slate-100 pb-2">
+            <Repeat className="w-4 h-4 text-amber-600" /> Follow-up Sequence
+        </h3>
+
+        {suppression && (
+            <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3 mb-4">
+                Marked <b>{suppression.reason}</b> on {new Date(suppression.at).toLocaleDateString()}. No further automatic emails.
+            </p>
+        )}
+
+        {/* Progress */}
+        {enrollments.length > 0 && (
+            <div className="space-y-2 mb-4">
+                {enrollments.map(e => (
+                    <div key={e.id} className="text-xs p-3 rounded-lg border border-slate-200 flex justify-between items-center">
+                        <div className="min-w-0">
+                            <span className="block font-medium text-slate-900 truncate">{sequenceName(e.sequenceId)}</span>
+                            <span className="block text-[10px] text-slate-400">{describeProgress(e, sequences.find(s => s.id === e.sequenceId))}</span>
+                        </div>
+                        {e.status === "active" ? (
+                            <button onClick={() => post({ action: 'stop', enrollmentId: e.id })} disabled={busy} title="Stop sequence" className="text-slate-400 hover:text-red-600">
+                                <Square className="w-4 h-4" />
+                            </button>
+                        ) : (
+                            <span className={`px-2 py-0.5 rounded-full font-bold text-[10px] uppercase ${e.status === "completed" ? "bg-emerald-100 text-emerald-700" : "bg-slate-100 text-slate-500"}`}>{e.status}</span>
+                        )}
+                    </div>
+                ))}
+            </div>
+        )}
+
+        {/* Enroll */}
+        <div className="flex gap-2">
+            <select value={sequenceId} onChange={e => setSequenceId(e.target.value)} className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg p-2 text-sm outline-none">
+                {sequences.map(s => <option key={s.id} value={s.id}>{s.name} ({s.steps.length} steps)</option>)}
+            </select>
+            <button onClick={enroll} disabled={busy || !email || !!suppression} className="bg-slate-900 text-white text-xs font-bold px-4 rounded-lg disabled:opacity-40">Enroll</button>
+        </div>
+        <div className="flex gap-3 mt-2 text-[10px]">
+            <button onClick={() => setEditing(sequences.find(s => s.id === sequenceId) || null)} className="text-slate-500 hover:underline">Edit sequence</button>
+            <button onClick={() => setEditing({ id: "", name: "", steps: [{ templateId: "", delayDays: 0 }], updatedAt: "" })} className="text-slate-500 hover:underline">New sequence</button>
+        </div>
+
+        {/* Sequence Editor */}
+        {editing && (
+            <div className="mt-4 p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+                <input value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} placeholder="Sequence name" className="w-full bg-white border border-slate-200 rounded p-2 text-sm outline-none" />
+                {editing.steps.map((step, i) => (
+                    <div key={i} className="flex gap-2 items-center text-xs">
+                        <span className="w-4 text-slate-400">{i + 1}.</span>
+                        <select value={step.templateId} onChange={e => updateStep(i, { templateId: e.target.value })} className="flex-1 min-w-0 bg-white border border-slate-200 rounded p-1.5">
+                            <option value="">Intro (matches lead source)</option>
+                            {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </select>
+                        <span className="text-slate-400">+</span>
+                        <input type="number" min={0} value={step.delayDays} onChange={e => updateStep(i, { delayDays: Number(e.target.value) })} className="w-12 bg-white border border-slate-200 rounded p-1.5" />
+                        <span className="text-slate-400">d</span>
+                        <button onClick={() => setEditing({ ...editing, steps: editing.steps.filter((_, j) => j !== i) })} className="text-red-400 hover:text-red-600"><Trash2 className="w-3 h-3" /></button>
+                    </div>
+                ))}
+                <button onClick={() => setEditing({ ...editing, steps: [...editing.steps, { templateId: "", delayDays: 3 }] })} className="text-xs text-slate-600 flex items-center gap-1"><Plus className="w-3 h-3" /> Add step</button>
+                <p className="text-[10px] text-slate-400">Delays count in days from the previous step.</p>
+                <div className="flex gap-2">
+                    <button onClick={saveSequence} disabled={busy} className="flex-1 bg-slate-900 text-white text-xs font-bold py-2 rounded flex justify-center items-center gap-1"><Save className="w-3 h-3" /> Save</button>
+                    <button onClick={() => setEditing(null)} className="flex-1 border border-slate-300 text-slate-600 text-xs font-bold py-2 rounded">Cancel</button>
+                    {editing.id && <button onClick={deleteSequence} className="px-3 text-red-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>}
+                </div>
+            </div>
+        )}
+
+        {/* Outcome */}
+        {email && !suppression && (
+            <div className="mt-4 pt-4 border-t border-slate-100">
+                <label className="text-xs font-semibold text-slate-500 block mb-1.5">Mark lead as</label>
+                <div className="flex gap-2">
+                    {OUTCOMES.map(outcome => (
+                        <button key={outcome} onClick={() => post({ action: 'mark', leadId: lead.id, email, outcome })} disabled={busy} className="flex-1 text-[10px] font-bold uppercase border border-slate-200 rounded py-2 text-slate-600 hover:bg-slate-100">
+                            {outcome}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+}
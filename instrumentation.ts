@@ -0,0 +1,8 @@
+// Runs once when the server boots: the Watchtower scans and due sequence steps go out even with no browser open
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const { ensureWatchScheduler } = await import('./lib/watchtower');
+  ensureWatchScheduler();
+  const { ensureSequenceRunner } = await import('./lib/sequenceRunner');
+  ensureSequenceRunner();
+}
@@ -0,0 +1,67 @@
+import { AlertDecision, AlertRule, AlertRules, Lead } from "./types";
+import { getInstagramHandle } from "./dedupe";
+
+// No rules: every new lead is announced, as before
+export const DEFAULT_ALERT_RULES: AlertRules = { rules: [], fallback: "alert" };
+
+const cleanTag = (tag: string) => tag.trim().replace(/^#/, "").toLowerCase();
+const mentions = (text: string, keyword: string) => !!keyword.trim() && text.includes(keyword.trim().toLowerCase());
+
+// "*giveaway*" → /^.*giveaway.*$/ (everything else is literal)
+function matchesPattern(username: string, pattern: string) {
+  const source = pattern.trim().toLowerCase().replace(/^@/, "").split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return !!source && new RegExp(`^${source}$`).test(username);
+}
+
+// 1. ONE RULE (every condition that is set has to hold)
+export function ruleMatches(rule: AlertRule, lead: Lead, tag: string, now = new Date()): boolean {
+  if (!rule.enabled) return false;
+  if (rule.tags.length > 0 && !rule.tags.some(t => cleanTag(t) === cleanTag(tag))) return false;
+
+  const hasEmail = !!(lead.rawEmail || lead.predictedEmail);
+  if (rule.hasEmail !== undefined && rule.hasEmail !== hasEmail) return false;
+  if (rule.minScore !== undefined && lead.score < rule.minScore) return false;
+
+  const caption = (lead.caption || lead.notes || "").toLowerCase();
+  if (rule.includeKeywords.length > 0 && !rule.includeKeywords.some(k => mentions(caption, k))) return false;
+  if (rule.excludeKeywords.some(k => mentions(caption, k))) return false;
+
+  const username = getInstagramHandle(lead) || lead.companyName.toLowerCase();
+  if (rule.usernamePatterns.length > 0 && !rule.usernamePatterns.some(p => matchesPattern(username, p))) return false;
+
+  if (rule.maxAgeHours !== undefined) {
+    if (!lead.postedAt) return false;
+    if ((now.getTime() - new Date(lead.postedAt).getTime()) / (1000 * 60 * 60) > rule.maxAgeHours) return false;
+  }
+  return true;
+}
+
+// 2. DECIDE (first matching rule, else the fallback)
+export function decideAlert(lead: Lead, tag: string, rules: AlertRules, now = new Date()): AlertDecision {
+  const rule = rules.rules.find(r => ruleMatches(r, lead, tag, now));
+  const at = now.toISOString();
+  if (rule) return { ruleId: rule.id, rule: rule.name, alerted: rule.action === "alert", tag, at };
+  return { rule: rules.fallback === "alert" ? "No rule matched (alert)" : "No rule matched (mute)", alerted: rules.fallback === "alert", tag, at };
+}
+
+// 3. CLEAN UP WHAT THE EDITOR SENDS (blank numbers are "no condition")
+export function normalizeAlertRules(input: AlertRules): AlertRules {
+  const list = (values: unknown) => (Array.isArray(values) ? values : []).map(v => String(v).trim()).filter(Boolean);
+  const num = (value: unknown) => (value === undefined || value === null || value === "" || isNaN(Number(value)) ? undefined : Number(value));
+  return {
+    fallback: input.fallback === "mute" ? "mute" : "alert",
+    rules: (input.rules || []).map(rule => ({
+      id: rule.id || `rule-${Math.random().toString(36).substr(2, 9)}`,
+      name: (rule.name || "").trim() || "Untitled rule",
+      enabled: rule.enabled !== false,
+      action: rule.action === "mute" ? "mute" : "alert",
+      tags: list(rule.tags).map(t => t.replace(/^#/, "")),
+      hasEmail: typeof rule.hasEmail === "boolean" ? rule.hasEmail : undefined,
+      minScore: num(rule.minScore),
+      includeKeywords: list(rule.includeKeywords),
+      excludeKeywords: list(rule.excludeKeywords),
+      usernamePatterns: list(rule.usernamePatterns),
+      maxAgeHours: num(rule.maxAgeHours)
+    }))
+  };
+}
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCaption } from "./captionParser";
+
+test("bare link-in-bio hosts count as link pages, whatever their TLD", () => {
+  assert.deepEqual(parseCaption("links 👉 linktr.ee/gemsdxb").linkPages, ["https://linktr.ee/gemsdxb"]);
+  assert.deepEqual(parseCaption("Shop: beacons.ai/x").linkPages, ["https://beacons.ai/x"]);
+  assert.deepEqual(parseCaption("All links → lnk.bio/x.").linkPages, ["https://lnk.bio/x"]);
+  assert.deepEqual(parseCaption("taplink.cc/gems or solo.to/gems").linkPages, ["https://taplink.cc/gems", "https://solo.to/gems"]);
+});
+
+test("link pages are kept apart from websites", () => {
+  const details = parseCaption("Visit gemsdxb.com and https://Linktr.ee/gemsdxb");
+  assert.deepEqual(details.linkPages, ["https://linktr.ee/gemsdxb"]);
+  assert.deepEqual(details.websites, ["https://gemsdxb.com"]);
+});
+
+test("words that only start like a link page host stay text", () => {
+  const details = parseCaption("New solo.tour dates, 18k.gold chains");
+  assert.deepEqual(details.linkPages, []);
+  assert.deepEqual(details.websites, []);
+});
+
+test("location cue words match at the start of a sentence or in capitals", () => {
+  assert.deepEqual(parseCaption("Based in New York. Ships worldwide").locations, ["New York"]);
+  assert.deepEqual(parseCaption("Located in Dubai, open daily").locations, ["Dubai"]);
+  assert.deepEqual(parseCaption("VISIT US IN Antwerp").locations, ["Antwerp"]);
+  assert.deepEqual(parseCaption("Our boutique in Geneva").locations, ["Geneva"]);
+});
+
+test("a cue word needs a capitalised place after it", () => {
+  assert.deepEqual(parseCaption("Based in our own workshop").locations, []);
+});
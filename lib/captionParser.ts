@@ -0,0 +1,85 @@
+import { CaptionDetails, PostClass } from "./types";
+import { extractEmails, extractPhones, extractWhatsApp } from "./extract";
+
+// Defaults until the list is edited in Settings
+export const DEFAULT_POST_CLASSES: PostClass[] = [
+  { label: "Selling", keywords: ["for sale", "selling", "available now", "in stock", "dm for price", "price on request", "loose diamonds", "wholesale price"] },
+  { label: "Looking for supplier", keywords: ["looking for supplier", "looking for a supplier", "need supplier", "need a supplier", "sourcing", "want to buy", "wtb", "who can supply"] },
+  { label: "Custom orders", keywords: ["custom order", "custom made", "bespoke", "made to order", "commission"] }
+];
+
+// Link-in-bio pages: kept apart from websites, they usually list every other contact
+const LINK_PAGE_HOSTS = ["linktr.ee", "lnk.bio", "beacons.ai", "bio.link", "linkin.bio", "taplink.cc", "campsite.bio", "solo.to"];
+const SKIPPED_HOSTS = ["instagram.com", "wa.me", "whatsapp.com", "api.whatsapp.com", "t.co"];
+
+// Bare domains ("shop.com") only count with a TLD from this list, so "18k.gold" style captions stay text;
+// link-in-bio hosts ("linktr.ee/gems") are matched by name, whatever their TLD
+const LINK_PAGE_DOMAIN = new RegExp(`\\b(?:www\\.)?(?:${LINK_PAGE_HOSTS.map(h => h.replace(/\./g, "\\.")).join("|")})\\b(?:\\/[^\\s<>"')]*)?`, "gi");
+const BARE_DOMAIN = /\b(?:www\.)?[a-z0-9][a-z0-9-]*(?:\.[a-z0-9-]+)*\.(?:com|net|org|co|io|shop|store|jewelry|jewellery|diamonds|ae|uk|in|be|fr|de|it|us|ca|au|hk|sg|ch|nl)(?:\/[^\s<>"')]*)?/gi;
+const URL_PATTERN = /https?:\/\/[^\s<>"')]+/gi;
+const PHONE_CUE = /(?:📞|☎️?|📱|\bcall\b|\btel\b|\bphone\b|\bph\b|\bmob(?:ile)?\b|\bwhats\s?app\b|\bwa\b)\s*[:.\-]?\s*(\+?\d[\d\s().-]{7,}\d)/gi;
+const WHATSAPP_CUE = /(?:\bwhats\s?app\b|\bwa\b)\s*[:.\-]?\s*(\+?\d[\d\s().-]{7,}\d)/gi;
+const MENTION = /(?:^|[^\w.@/])@([a-z0-9._]{2,30})/gi;
+
+// Cue words in any case ("Based in", "LOCATED IN"); the place after them still has to be capitalised, so no `i` flag
+const LOCATION_CUES = ["based in", "located in", "showroom in", "store in", "boutique in", "visit us in", "shipping from"];
+const anyCase = (words: string) => words.replace(/[a-z]/g, c => `[${c.toUpperCase()}${c}]`).replace(/ /g, "\\s+");
+const LOCATION = new RegExp(`(?:📍|📌)\\s*([^\\n#@|•.!]{2,40})|\\b(?:${LOCATION_CUES.map(anyCase).join("|")})\\s+([A-Z][\\w'’-]*(?:[ ,]+[A-Z][\\w'’-]*){0,2})`, "g");
+
+const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+const trimPunctuation = (text: string) => text.replace(/[.,;:!?)\]]+$/, "");
+
+const matchAll = (text: string, pattern: RegExp) => Array.from(text.matchAll(pattern));
+
+// 1. LINKS (full URLs, then bare domains that aren't part of an email)
+function extractUrls(text: string): string[] {
+  const withoutEmails = text.replace(/[^\s@]+@[^\s@]+/g, " ");
+  const full = withoutEmails.match(URL_PATTERN) || [];
+  const withoutFull = withoutEmails.replace(URL_PATTERN, " ");
+  const bare = [...(withoutFull.match(LINK_PAGE_DOMAIN) || []), ...(withoutFull.match(BARE_DOMAIN) || [])];
+  return unique([...full, ...bare.map(d => `https://${d}`)].map(trimPunctuation).map(url => {
+    try {
+      const parsed = new URL(url);
+      parsed.hostname = parsed.hostname.toLowerCase();
+      return parsed.toString().replace(/\/$/, "");
+    } catch (e) {
+      return "";
+    }
+  }));
+}
+
+const hostOf = (url: string) => new URL(url).hostname.replace(/^www\./, "");
+
+// 2. POST CLASSES (any keyword mentioned → the class applies)
+export function classifyPost(caption: string, classes: PostClass[] = DEFAULT_POST_CLASSES): string[] {
+  const text = caption.toLowerCase();
+  return classes.filter(c => c.keywords.some(k => !!k.trim() && text.includes(k.trim().toLowerCase()))).map(c => c.label);
+}
+
+// 3. PARSE A CAPTION (or any profile text); `place` = the location the post was tagged with
+export function parseCaption(caption: string, classes: PostClass[] = DEFAULT_POST_CLASSES, place?: string): CaptionDetails {
+  const urls = extractUrls(caption);
+  const withoutUrls = caption.replace(URL_PATTERN, " ").replace(/\b(?:wa\.me|api\.whatsapp\.com)\/\S+/gi, " ");
+
+  // Phones need a "+" or a cue ("📞", "Call"), so dates and prices aren't read as numbers
+  const whatsapp = unique([
+    ...extractWhatsApp(caption),
+    ...matchAll(withoutUrls, WHATSAPP_CUE).flatMap(m => extractPhones(m[1])).map(p => (p.startsWith("+") ? p : `+${p}`))
+  ]);
+  const cued = matchAll(withoutUrls, PHONE_CUE).flatMap(m => extractPhones(m[1]));
+  const phones = unique([...extractPhones(withoutUrls).filter(p => p.startsWith("+")), ...cued])
+    .filter(p => !whatsapp.includes(p.startsWith("+") ? p : `+${p}`)); // Listed once, as WhatsApp
+
+  const locations = matchAll(caption, LOCATION).map(m => (m[1] || m[2] || "").trim().replace(/[\s,]+$/, ""));
+
+  return {
+    emails: extractEmails(caption),
+    phones,
+    whatsapp,
+    linkPages: urls.filter(url => LINK_PAGE_HOSTS.includes(hostOf(url))),
+    websites: urls.filter(url => !LINK_PAGE_HOSTS.includes(hostOf(url)) && !SKIPPED_HOSTS.includes(hostOf(url))),
+    mentions: unique(matchAll(caption, MENTION).map(m => m[1].toLowerCase().replace(/\.+$/, ""))),
+    locations: unique([place?.trim() || "", ...locations]),
+    classes: classifyPost(caption, classes)
+  };
+}
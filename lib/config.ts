@@ -7,16 +7,56 @@ export interface ApiConfig {
   serpapi_key?: string;
   apify_token?: string;
   discord_webhook?: string; // 🆕 NEW FIELD
+
+  // 🔔 OTHER ALERT CHANNELS (lib/notifiers)
+  slack_webhook?: string;
+  telegram_bot_token?: string;
+  telegram_chat_id?: string;
+  alert_email_to?: string; // Sent through the outreach SMTP server
+
+  // ✉️ SMTP (Outreach)
+  smtp_host?: string;
+  smtp_port?: number;
+  smtp_secure?: boolean;
+  smtp_user?: string;
+  smtp_pass?: string;
+  smtp_from?: string;
+  smtp_reply_to?: string;
+  smtp_allow_self_signed?: boolean; // Only for local catchers (MailHog): skips the certificate check
+
+  // ✅ EMAIL VERIFICATION
+  verify_smtp_probe?: boolean;
+  verify_probe_port?: number;
+  verify_dns_servers?: string; // Comma separated, e.g. "127.0.0.1:5353"
+
+  // 🤝 CRM (HubSpot)
+  hubspot_token?: string;    // Private app access token
+  hubspot_base_url?: string; // Defaults to the real API; point at a local stand-in for testing
 }
 
-export function getApiKeys() {
-  let fileConfig: ApiConfig = {};
+export interface SmtpSettings {
+  host?: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from?: string;
+  replyTo?: string;
+  allowSelfSigned: boolean;
+}
+
+function readKeyFile(): ApiConfig {
   try {
     if (fs.existsSync(KEY_FILE)) {
       const raw = fs.readFileSync(KEY_FILE, 'utf-8');
-      fileConfig = JSON.parse(raw);
+      return JSON.parse(raw);
     }
   } catch (e) {}
+  return {};
+}
+
+export function getApiKeys() {
+  const fileConfig = readKeyFile();
 
   return {
     SERPAPI_KEY: fileConfig.serpapi_key || process.env.SERPAPI_KEY,
@@ -25,12 +65,81 @@ export function getApiKeys() {
   };
 }
 
+// ✉️ SMTP SETTINGS (keys.json first, then env)
+export function getSmtpSettings(): SmtpSettings {
+  const fileConfig = readKeyFile();
+  const envPort = process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT, 10) : undefined;
+  const port = fileConfig.smtp_port || envPort || 587;
+
+  let secure = port === 465;
+  if (typeof fileConfig.smtp_secure === 'boolean') secure = fileConfig.smtp_secure;
+  else if (process.env.SMTP_SECURE) secure = process.env.SMTP_SECURE === 'true';
+
+  return {
+    host: fileConfig.smtp_host || process.env.SMTP_HOST,
+    port,
+    secure,
+    user: fileConfig.smtp_user || process.env.SMTP_USER,
+    pass: fileConfig.smtp_pass || process.env.SMTP_PASS,
+    from: fileConfig.smtp_from || process.env.SMTP_FROM,
+    replyTo: fileConfig.smtp_reply_to || process.env.SMTP_REPLY_TO,
+    allowSelfSigned: fileConfig.smtp_allow_self_signed ?? process.env.SMTP_ALLOW_SELF_SIGNED === 'true'
+  };
+}
+
+// ✅ VERIFICATION SETTINGS (probe is off unless switched on: port 25 is often blocked)
+export function getVerificationSettings() {
+  const fileConfig = readKeyFile();
+  const dnsServers = fileConfig.verify_dns_servers || process.env.VERIFY_DNS_SERVERS || "";
+
+  return {
+    smtpProbe: fileConfig.verify_smtp_probe ?? process.env.VERIFY_SMTP_PROBE === 'true',
+    probePort: fileConfig.verify_probe_port || (process.env.VERIFY_PROBE_PORT ? parseInt(process.env.VERIFY_PROBE_PORT, 10) : 25),
+    dnsServers: dnsServers.split(',').map(s => s.trim()).filter(Boolean)
+  };
+}
+
+// 🔔 ALERT CHANNELS (keys.json first, then env)
+export interface NotifierSettings {
+  discordWebhook?: string;
+  slackWebhook?: string;
+  telegramBotToken?: string;
+  telegramChatId?: string;
+  alertEmailTo?: string;
+}
+
+export function getNotifierSettings(): NotifierSettings {
+  const fileConfig = readKeyFile();
+  return {
+    discordWebhook: fileConfig.discord_webhook || process.env.DISCORD_WEBHOOK,
+    slackWebhook: fileConfig.slack_webhook || process.env.SLACK_WEBHOOK,
+    telegramBotToken: fileConfig.telegram_bot_token || process.env.TELEGRAM_BOT_TOKEN,
+    telegramChatId: fileConfig.telegram_chat_id || process.env.TELEGRAM_CHAT_ID,
+    alertEmailTo: fileConfig.alert_email_to || process.env.ALERT_EMAIL_TO
+  };
+}
+
+// 🤝 CRM SETTINGS (keys.json first, then env)
+export const HUBSPOT_API_URL = "https://api.hubapi.com";
+
+export interface CrmSettings {
+  token?: string;
+  baseUrl: string;
+}
+
+export function getCrmSettings(): CrmSettings {
+  const fileConfig = readKeyFile();
+  return {
+    token: fileConfig.hubspot_token || process.env.HUBSPOT_TOKEN,
+    baseUrl: (fileConfig.hubspot_base_url || process.env.HUBSPOT_BASE_URL || HUBSPOT_API_URL).replace(/\/+$/, "")
+  };
+}
+
 export function saveApiKeys(config: ApiConfig) {
-  let current = {};
-  try {
-      if (fs.existsSync(KEY_FILE)) current = JSON.parse(fs.readFileSync(KEY_FILE, 'utf-8'));
-  } catch(e) {}
+  const current = readKeyFile();
 
-  const newConfig = { ...current, ...config };
+  // Drop keys the caller didn't send so a partial save doesn't wipe them
+  const updates = Object.fromEntries(Object.entries(config).filter(([, v]) => v !== undefined));
+  const newConfig = { ...current, ...updates };
   fs.writeFileSync(KEY_FILE, JSON.stringify(newConfig, null, 2));
-}
\ No newline at end of file
+}
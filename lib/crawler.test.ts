@@ -0,0 +1,78 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import net from "net";
+import { crawlWebsite } from "./crawler";
+
+// Fixture site: robots.txt keeps us out of /private, and some contact links redirect
+const PAGES: Record<string, { status?: number; location?: string; body?: string }> = {
+  "/robots.txt": { body: "User-agent: *\nDisallow: /private\n" },
+  "/": {
+    body: `<html><body>
+      <a href="/contact">Contact</a> <a href="/team">Team</a> <a href="/people">People</a>
+      <a href="/private/staff">Staff</a> <a href="/big">About the big page</a>
+    </body></html>`
+  },
+  "/contact": { status: 301, location: "/contact-us" },        // Two hops, both allowed
+  "/contact-us": { status: 302, location: "/about-us" },
+  "/about-us": { body: "<p>Write to anna@gems.test</p>" },
+  "/team": { status: 302, location: "/private/team" },         // Into a disallowed path
+  "/people": { status: 301, location: "http://elsewhere.test/people" }, // Off the site
+  "/big": { body: `<p>early@gems.test</p>${"<p>filler text</p>".repeat(2000)}<p>late@gems.test</p>` }
+};
+
+const requested: string[] = [];
+const server = http.createServer((req, res) => {
+  requested.push(req.url || "");
+  const page = PAGES[req.url || ""];
+  if (!page) { res.writeHead(404); return res.end(); }
+  if (page.location) { res.writeHead(page.status!, { location: page.location }); return res.end(); }
+  res.writeHead(200, { "content-type": req.url === "/robots.txt" ? "text/plain" : "text/html" });
+  res.end(page.body);
+});
+
+let site = "";
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  site = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+});
+after(() => server.close());
+
+const crawl = (options: Parameters<typeof crawlWebsite>[1] = {}) =>
+  crawlWebsite(site, { delayMs: 0, allowPrivateHosts: true, ...options });
+
+test("private and loopback hosts are refused unless allowed", async () => {
+  const result = await crawlWebsite(site, { delayMs: 0 });
+  assert.deepEqual(result.pagesCrawled, []);
+  assert.match(result.errors[0], /127\.0\.0\.1 is not a public host/);
+});
+
+test("a redirect chain on the site is followed", async () => {
+  const result = await crawl();
+  assert.ok(result.pagesCrawled.includes(`${site}/contact`));
+  assert.ok(result.emails.includes("anna@gems.test"));
+});
+
+test("robots.txt is checked before each page and after each redirect hop", async () => {
+  requested.length = 0;
+  const result = await crawl();
+  assert.ok(result.blockedByRobots.includes("/private/staff")); // Linked directly
+  assert.ok(result.blockedByRobots.includes("/private/team"));  // Reached through /team
+  assert.ok(result.errors.some(e => /redirect to \/private\/team is disallowed by robots\.txt/.test(e)));
+  assert.ok(!requested.some(url => url.startsWith("/private")));
+});
+
+test("a redirect off the site is not followed", async () => {
+  const result = await crawl();
+  assert.ok(result.errors.some(e => /redirected off site to elsewhere\.test/.test(e)));
+  assert.ok(!result.pagesCrawled.includes(`${site}/people`));
+});
+
+test("a page is read only up to maxBytes", async () => {
+  const result = await crawl({ maxBytes: 4000 });
+  assert.ok(result.emails.includes("early@gems.test"));
+  assert.ok(!result.emails.includes("late@gems.test"));
+
+  const whole = await crawl();
+  assert.ok(whole.emails.includes("late@gems.test"));
+});
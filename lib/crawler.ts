@@ -0,0 +1,243 @@
+import dns from 'dns';
+import net from 'net';
+import { Lead, WebsiteEnrichment } from './types';
+import {
+  extractEmails, extractLinks, extractNamedContacts, extractPhones,
+  extractSocialHandles, extractWhatsApp, htmlToText
+} from './extract';
+
+export interface CrawlOptions {
+  fetchImpl?: typeof fetch;  // Swap for tests; a local HTTP server works with allowPrivateHosts
+  allowPrivateHosts?: boolean; // Off by default: websites come from requests, so localhost / LAN stay out of reach
+  maxPages?: number;         // Homepage included
+  timeoutMs?: number;        // Per request
+  maxBytes?: number;         // Per page
+  delayMs?: number;          // Politeness gap between requests
+  userAgent?: string;
+}
+
+const DEFAULTS = {
+  maxPages: 5,
+  timeoutMs: 8000,
+  maxBytes: 1_000_000,
+  delayMs: 500,
+  allowPrivateHosts: false,
+  userAgent: "CaratBridgeBot/1.0 (+https://caratbridge.com)"
+};
+
+const CONTACT_LINK = /contact|about|team|impressum|kontakt|our-story|people|staff/i;
+const FALLBACK_PATHS = ["/contact", "/contact-us", "/about", "/about-us"];
+const MAX_REDIRECTS = 5;
+
+type FetchOptions = typeof DEFAULTS & { fetchImpl: typeof fetch };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 1. ROBOTS.TXT (groups for "*" or our bot; longest matching rule wins)
+export function parseRobots(robotsTxt: string, userAgent: string) {
+  const agent = userAgent.toLowerCase().split("/")[0];
+  const rules: { allow: boolean; path: string }[] = [];
+  let groupAgents: string[] = [];
+  let inRules = false;
+
+  robotsTxt.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const [key, ...rest] = line.split(":");
+    const value = rest.join(":").trim();
+    if (!key || !line.includes(":")) return;
+    const field = key.trim().toLowerCase();
+
+    if (field === "user-agent") {
+      if (inRules) { groupAgents = []; inRules = false; }
+      groupAgents.push(value.toLowerCase());
+      return;
+    }
+    if (field !== "allow" && field !== "disallow") return;
+    inRules = true;
+    const applies = groupAgents.some(a => a === "*" || agent.includes(a));
+    if (applies && value) rules.push({ allow: field === "allow", path: value });
+  });
+
+  return (path: string) => {
+    const matches = rules.filter(r => path.startsWith(r.path.replace(/\*$/, "")));
+    if (matches.length === 0) return true;
+    matches.sort((a, b) => b.path.length - a.path.length || Number(b.allow) - Number(a.allow));
+    return matches[0].allow;
+  };
+}
+
+// 2. PUBLIC HOSTS ONLY (loopback, private, link-local and CGNAT ranges are refused)
+const PRIVATE_V4 = [/^0\./, /^10\./, /^127\./, /^169\.254\./, /^172\.(1[6-9]|2\d|3[01])\./, /^192\.168\./, /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./];
+
+function isPrivateAddress(ip: string) {
+  if (net.isIPv4(ip)) return PRIVATE_V4.some(r => r.test(ip));
+  const v6 = ip.toLowerCase();
+  // "::ffff:…" wraps an IPv4 address; no public website is reached that way
+  return v6 === "::" || v6 === "::1" || v6.startsWith("::ffff:") || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6);
+}
+
+async function isPublicHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) return false;
+  const addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map(a => a.address);
+  return addresses.length > 0 && !addresses.some(isPrivateAddress);
+}
+
+// Reads the body only up to maxBytes, then drops the connection
+async function readText(res: Response, maxBytes: number) {
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  reader.cancel().catch(() => {});
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, maxBytes));
+}
+
+// Redirects are followed by hand, so every hop is checked (`checkHop` returns why a target is refused)
+async function fetchText(url: string, opts: FetchOptions, checkHop: (target: URL) => string | undefined = () => undefined) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), opts.timeoutMs);
+  try {
+    let current = new URL(url);
+    for (let hops = 0; ; hops++) {
+      if (!opts.allowPrivateHosts && !(await isPublicHost(current.hostname))) throw new Error(`${current.hostname} is not a public host`);
+      const res = await opts.fetchImpl(current.toString(), {
+        headers: { "User-Agent": opts.userAgent, "Accept": "text/html,text/plain" },
+        signal: controller.signal,
+        redirect: "manual"
+      });
+
+      const location = res.headers.get("location");
+      if (res.status >= 300 && res.status < 400 && location) {
+        res.body?.cancel().catch(() => {});
+        if (hops >= MAX_REDIRECTS) throw new Error("Too many redirects");
+        current = new URL(location, current);
+        const refused = checkHop(current);
+        if (refused) throw new Error(refused);
+        continue;
+      }
+
+      const type = res.headers.get("content-type") || "";
+      const text = await readText(res, opts.maxBytes);
+      return { ok: res.ok, status: res.status, isHtml: type.includes("html") || type === "", text, url: current.toString() };
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// 3. CRAWL: homepage + contact/about pages on the same host
+export async function crawlWebsite(website: string, options: CrawlOptions = {}): Promise<WebsiteEnrichment> {
+  const opts = { ...DEFAULTS, fetchImpl: fetch, ...options };
+  const result: WebsiteEnrichment = {
+    emails: [], phones: [], whatsapp: [], socials: {}, contacts: [],
+    pagesCrawled: [], blockedByRobots: [], errors: [], enrichedAt: new Date().toISOString()
+  };
+
+  let home: URL;
+  try {
+    home = new URL(website.startsWith("http") ? website : `https://${website}`);
+  } catch (e) {
+    result.errors.push(`Invalid website: ${website}`);
+    return result;
+  }
+
+  // ROBOTS
+  let isAllowed = (_path: string) => true;
+  try {
+    const robots = await fetchText(new URL("/robots.txt", home).toString(), opts);
+    if (robots.ok) isAllowed = parseRobots(robots.text, opts.userAgent);
+  } catch (e) {} // No robots.txt = everything allowed
+
+  // Redirects may move between http/https and "www.", but stay on the site and inside robots.txt
+  const siteOf = (host: string) => host.replace(/^www\./, "");
+  const checkHop = (target: URL) => {
+    if (siteOf(target.host) !== siteOf(home.host)) return `redirected off site to ${target.host}`;
+    if (!isAllowed(target.pathname)) {
+      result.blockedByRobots.push(target.pathname);
+      return `redirect to ${target.pathname} is disallowed by robots.txt`;
+    }
+    return undefined;
+  };
+
+  const queue: string[] = [home.toString()];
+  const seen = new Set<string>();
+  const allText: string[] = [];
+
+  while (queue.length > 0 && result.pagesCrawled.length < opts.maxPages) {
+    const url = queue.shift()!;
+    const key = url.replace(/#.*$/, "").replace(/\/$/, "");
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const path = new URL(url).pathname;
+    if (!isAllowed(path)) { result.blockedByRobots.push(path); continue; }
+
+    if (result.pagesCrawled.length > 0) await sleep(opts.delayMs);
+    try {
+      const page = await fetchText(url, opts, checkHop);
+      if (!page.ok || !page.isHtml) {
+        if (url === home.toString()) result.errors.push(`${path}: HTTP ${page.status}`);
+        continue;
+      }
+      result.pagesCrawled.push(url);
+
+      const links = extractLinks(page.text, page.url);
+      // Link targets carry mailto:, tel:, wa.me and social URLs
+      allText.push(htmlToText(page.text), links.map(l => l.href).join("\n"));
+
+      // Only the homepage decides which pages to visit next
+      if (url === home.toString()) {
+        const sameHost = links.filter(l => {
+          try { return siteOf(new URL(l.href).host) === siteOf(home.host); } catch (e) { return false; }
+        });
+        const contactPages = sameHost.filter(l => CONTACT_LINK.test(l.href) || CONTACT_LINK.test(l.text)).map(l => l.href);
+        const fallbacks = contactPages.length > 0 ? [] : FALLBACK_PATHS.map(p => new URL(p, home).toString());
+        queue.push(...contactPages, ...fallbacks);
+      }
+    } catch (e: any) {
+      result.errors.push(`${path}: ${e.name === "AbortError" ? "timed out" : e.message}`);
+    }
+  }
+
+  // EXTRACT
+  const text = allText.join("\n");
+  result.emails = extractEmails(text);
+  result.phones = extractPhones(text.replace(/https?:\/\/\S+/g, " "));
+  result.whatsapp = extractWhatsApp(text);
+  result.socials = extractSocialHandles(text);
+  result.contacts = extractNamedContacts(text);
+  return result;
+}
+
+// 4. APPLY TO A LEAD (best address: same domain, a person before a role inbox)
+export function applyEnrichment(lead: Lead, enrichment: WebsiteEnrichment): Lead {
+  const domain = (lead.domain || "").toLowerCase();
+  const ranked = [...enrichment.emails].sort((a, b) => rankEmail(b, domain) - rankEmail(a, domain));
+  const contact = enrichment.contacts[0];
+  const newEmail = ranked[0] && ranked[0] !== lead.rawEmail ? ranked[0] : undefined;
+
+  return {
+    ...lead,
+    rawEmail: ranked[0] || lead.rawEmail,
+    contactName: contact ? contact.name : lead.contactName,
+    contactRole: contact ? contact.role : lead.contactRole,
+    // A new address has not been verified yet
+    ...(newEmail ? { emailVerificationStatus: "unknown" as const, emailVerificationReason: "Found on website, not verified yet" } : {}),
+    enrichment
+  };
+}
+
+function rankEmail(email: string, domain: string) {
+  const [local, emailDomain] = email.split("@");
+  let rank = 0;
+  if (domain && emailDomain.endsWith(domain)) rank += 2;
+  if (!/^(info|sales|contact|hello|office|support|admin|enquiries)$/.test(local)) rank += 1;
+  return rank;
+}
@@ -0,0 +1,97 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import net from "net";
+import { createHubSpotClient, HubSpotClient } from "./hubspot";
+
+// A stand-in for HubSpot's CRM v3 API: contacts and companies in memory
+const records = new Map<string, Record<string, string>>();
+const associations: string[] = [];
+const queuedReplies: { status: number; body: object; retryAfter?: string }[] = []; // Answered before the real handler
+let nextId = 100;
+
+const server = http.createServer((req, res) => {
+  let raw = "";
+  req.on("data", chunk => raw += chunk);
+  req.on("end", () => {
+    const reply = (status: number, body: object = {}, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { "content-type": "application/json", ...headers });
+      res.end(JSON.stringify(body));
+    };
+    if (req.headers.authorization !== "Bearer test-token") return reply(401, { message: "Authentication credentials not found" });
+    const queued = queuedReplies.shift();
+    if (queued) return reply(queued.status, queued.body, queued.retryAfter ? { "Retry-After": queued.retryAfter } : {});
+
+    const body = raw ? JSON.parse(raw) : {};
+    const url = req.url || "";
+    let m: RegExpMatchArray | null;
+    if (req.method === "POST" && (m = url.match(/^\/crm\/v3\/objects\/(\w+)\/search$/))) {
+      const { propertyName, value } = body.filterGroups[0].filters[0];
+      const found = Array.from(records.entries()).find(([key, props]) => key.startsWith(`${m![1]}/`) && props[propertyName] === value);
+      return reply(200, { results: found ? [{ id: found[0].split("/")[1] }] : [] });
+    }
+    if (req.method === "POST" && (m = url.match(/^\/crm\/v3\/objects\/(\w+)$/))) {
+      const id = String(nextId++);
+      records.set(`${m[1]}/${id}`, body.properties);
+      return reply(201, { id });
+    }
+    if (req.method === "PATCH" && (m = url.match(/^\/crm\/v3\/objects\/(\w+)\/(\w+)$/))) {
+      const key = `${m[1]}/${m[2]}`;
+      if (!records.has(key)) return reply(404, { message: "Object not found" });
+      records.set(key, { ...records.get(key), ...body.properties });
+      return reply(200, { id: m[2] });
+    }
+    if (req.method === "PUT" && (m = url.match(/^\/crm\/v4\/objects\/contacts\/(\w+)\/associations\/default\/companies\/(\w+)$/))) {
+      associations.push(`${m[1]}→${m[2]}`);
+      return reply(200, {});
+    }
+    reply(404, { message: `No route for ${req.method} ${url}` });
+  });
+});
+
+let client: HubSpotClient;
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  client = createHubSpotClient({ token: "test-token", baseUrl: `http://127.0.0.1:${(server.address() as net.AddressInfo).port}` });
+});
+after(() => server.close());
+
+test("upsert creates a record, then updates it by id or by a matching property", async () => {
+  const created = await client.upsert("contacts", { email: "anna@gems.test", firstname: "Anna" }, undefined, { property: "email", value: "anna@gems.test" });
+  assert.equal(created.created, true);
+
+  const byId = await client.upsert("contacts", { jobtitle: "Buyer" }, created.id);
+  assert.deepEqual(byId, { id: created.id, created: false });
+
+  const byEmail = await client.upsert("contacts", { phone: "+971 4 123 4567" }, undefined, { property: "email", value: "anna@gems.test" });
+  assert.deepEqual(byEmail, { id: created.id, created: false });
+  assert.deepEqual(records.get(`contacts/${created.id}`), { email: "anna@gems.test", firstname: "Anna", jobtitle: "Buyer", phone: "+971 4 123 4567" });
+});
+
+test("a record deleted in the CRM is created again", async () => {
+  const result = await client.upsert("companies", { name: "Gems LLC" }, "999");
+  assert.equal(result.created, true);
+  assert.notEqual(result.id, "999");
+});
+
+test("a contact is associated with its company", async () => {
+  const contact = await client.upsert("contacts", { email: "omar@gems.test" });
+  const company = await client.upsert("companies", { name: "Omar Gems" });
+  await client.associate(contact.id, company.id);
+  assert.ok(associations.includes(`${contact.id}→${company.id}`));
+});
+
+test("a rate limit (429) is waited out and retried", async () => {
+  queuedReplies.push({ status: 429, body: { message: "Too many requests" }, retryAfter: "0" });
+  const result = await client.upsert("companies", { name: "Retry Gems" });
+  assert.equal(result.created, true);
+  assert.equal(queuedReplies.length, 0);
+});
+
+test("an error answer is thrown with HubSpot's message", async () => {
+  queuedReplies.push({ status: 400, body: { message: "Property values were not valid" } });
+  await assert.rejects(client.upsert("contacts", { email: "not-an-email" }), /failed \(400\): Property values were not valid/);
+
+  const wrongToken = createHubSpotClient({ token: "expired", baseUrl: `http://127.0.0.1:${(server.address() as net.AddressInfo).port}` });
+  await assert.rejects(wrongToken.ping(), /\(401\)/);
+});
@@ -0,0 +1,89 @@
+import { CrmSettings, getCrmSettings } from "../config";
+
+export type HubSpotObject = "contacts" | "companies";
+
+export interface UpsertResult {
+  id: string;
+  created: boolean;
+}
+
+export interface HubSpotClient {
+  // Updates `knownId` when given (and still there), else the record whose `match` property equals its value, else creates one
+  upsert(objectType: HubSpotObject, properties: Record<string, string>, knownId?: string, match?: { property: string; value?: string }): Promise<UpsertResult>;
+  associate(contactId: string, companyId: string): Promise<void>;
+  ping(): Promise<void>;
+}
+
+const MAX_RETRIES = 2;         // On 429 (HubSpot's burst limit is per 10 seconds)
+const MAX_RETRY_WAIT_MS = 10 * 1000;
+const TIMEOUT_MS = 20 * 1000;  // Per request: a hung CRM must not hold the push open
+
+// 1. BUILD CLIENT
+// Talks to settings.baseUrl, so a local stand-in that imitates the CRM v3 API works the same as HubSpot
+export function createHubSpotClient(settings: CrmSettings = getCrmSettings(), fetchImpl: typeof fetch = fetch): HubSpotClient {
+  if (!settings.token) throw new Error("HubSpot token is not configured. Go to Settings Tab.");
+
+  const call = async (method: string, path: string, body?: unknown, allowed: number[] = [], attempt = 0): Promise<{ status: number; data: any }> => {
+    let res: Response;
+    let text: string;
+    try {
+      res = await fetchImpl(`${settings.baseUrl}${path}`, {
+        method,
+        headers: { Authorization: `Bearer ${settings.token}`, "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(TIMEOUT_MS)
+      });
+      text = await res.text();
+    } catch (e: any) {
+      if (e.name === "TimeoutError") throw new Error(`HubSpot ${method} ${path}: no answer within ${TIMEOUT_MS / 1000}s`);
+      throw e;
+    }
+    let data: any = {};
+    try { data = text ? JSON.parse(text) : {}; } catch (e) { data = { message: text }; }
+
+    if (res.status === 429 && attempt < MAX_RETRIES) {
+      const waitMs = Math.min(Number(res.headers.get("Retry-After") || 1) * 1000, MAX_RETRY_WAIT_MS);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+      return call(method, path, body, allowed, attempt + 1);
+    }
+    if (!res.ok && !allowed.includes(res.status)) {
+      throw new Error(`HubSpot ${method} ${path} failed (${res.status}): ${data.message || res.statusText}`);
+    }
+    return { status: res.status, data };
+  };
+
+  const find = async (objectType: HubSpotObject, property: string, value: string) => {
+    const { data } = await call("POST", `/crm/v3/objects/${objectType}/search`, {
+      filterGroups: [{ filters: [{ propertyName: property, operator: "EQ", value }] }],
+      limit: 1
+    });
+    const id = data.results?.[0]?.id;
+    return id ? String(id) : undefined;
+  };
+
+  const update = (objectType: HubSpotObject, id: string, properties: Record<string, string>) =>
+    call("PATCH", `/crm/v3/objects/${objectType}/${encodeURIComponent(id)}`, { properties }, [404]);
+
+  return {
+    async upsert(objectType, properties, knownId, match) {
+      // A record deleted in HubSpot (404) is looked up again or re-created
+      if (knownId && (await update(objectType, knownId, properties)).status !== 404) return { id: knownId, created: false };
+
+      const existingId = match?.value ? await find(objectType, match.property, match.value) : undefined;
+      if (existingId && (await update(objectType, existingId, properties)).status !== 404) return { id: existingId, created: false };
+
+      const { data } = await call("POST", `/crm/v3/objects/${objectType}`, { properties });
+      if (!data.id) throw new Error(`HubSpot returned no id for the new ${objectType === "contacts" ? "contact" : "company"}`);
+      return { id: String(data.id), created: true };
+    },
+
+    async associate(contactId, companyId) {
+      await call("PUT", `/crm/v4/objects/contacts/${encodeURIComponent(contactId)}/associations/default/companies/${encodeURIComponent(companyId)}`);
+    },
+
+    // Cheapest authenticated call: checks the token and the URL
+    async ping() {
+      await call("GET", `/crm/v3/objects/contacts?limit=1`);
+    }
+  };
+}
@@ -0,0 +1,65 @@
+import { CrmMapping, CrmRecord, Lead } from "../types";
+import { getCrmMapping, saveLeadCrm, withStoredUserFields } from "../db";
+import { buildProperties, crmEmail } from "./mapping";
+import { createHubSpotClient, HubSpotClient } from "./hubspot";
+
+export interface PushResult {
+  leadId: string;
+  companyName: string;
+  success: boolean;
+  created: boolean; // A new contact or company was made (else existing ones were updated)
+  contactId?: string;
+  companyId?: string;
+  error?: string;
+}
+
+// 🤝 ONE LEAD → a HubSpot company, plus a contact when we know a person or an address
+async function pushLead(client: HubSpotClient, sent: Lead, mapping: CrmMapping) {
+  const lead = withStoredUserFields(sent); // Current stage and tags, and the ids of earlier pushes
+  const known = lead.crm;
+  const record: CrmRecord = { provider: "hubspot", companyId: known?.companyId, contactId: known?.contactId, pushedAt: new Date().toISOString() };
+  const companyProperties = buildProperties(lead, mapping.company);
+  const contactProperties = buildProperties(lead, mapping.contact);
+  const hasContact = !!(lead.contactName || crmEmail(lead));
+  let created = false;
+
+  try {
+    if (Object.keys(companyProperties).length > 0) {
+      const company = await client.upsert("companies", companyProperties, record.companyId, { property: "domain", value: companyProperties.domain });
+      record.companyId = company.id;
+      created = company.created;
+    }
+    if (hasContact && Object.keys(contactProperties).length > 0) {
+      const contact = await client.upsert("contacts", contactProperties, record.contactId, { property: "email", value: contactProperties.email });
+      record.contactId = contact.id;
+      created = created || contact.created;
+    }
+    if (record.companyId && record.contactId) await client.associate(record.contactId, record.companyId); // Idempotent
+  } catch (e) {
+    // Keep the ids of what was made before the failure, so a retry updates instead of duplicating
+    if (record.companyId !== known?.companyId || record.contactId !== known?.contactId) saveLeadCrm(lead, record);
+    throw e;
+  }
+  return { stored: saveLeadCrm(lead, record), created };
+}
+
+// One at a time: HubSpot's rate limit is per 10 seconds, and a failed lead doesn't stop the rest
+export async function pushLeads(leads: Lead[], client: HubSpotClient = createHubSpotClient(), mapping: CrmMapping = getCrmMapping()) {
+  const results: PushResult[] = [];
+  const updated: Lead[] = [];
+  for (const lead of leads) {
+    try {
+      const { stored, created } = await pushLead(client, lead, mapping);
+      updated.push(stored);
+      results.push({ leadId: lead.id, companyName: lead.companyName, success: true, created, contactId: stored.crm?.contactId, companyId: stored.crm?.companyId });
+    } catch (e: any) {
+      console.error(`CRM Push Error (${lead.companyName}):`, e.message);
+      results.push({ leadId: lead.id, companyName: lead.companyName, success: false, created: false, error: e.message });
+    }
+  }
+  return { results, leads: updated };
+}
+
+export { createHubSpotClient };
+export { DEFAULT_CRM_MAPPING, LEAD_VALUES } from "./mapping";
+export type { HubSpotClient } from "./hubspot";
@@ -0,0 +1,84 @@
+import { CrmMapping, CrmPropertyMapping, Lead, PipelineStage } from "../types";
+
+export const splitName = (name: string) => {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  return { first: parts.length > 1 ? parts.slice(0, -1).join(" ") : parts[0] || "", last: parts.length > 1 ? parts[parts.length - 1] : "" };
+};
+
+// HubSpot's built-in hs_lead_status options
+export const HUBSPOT_LEAD_STATUS: Record<PipelineStage, string> = {
+  New: "NEW", Qualified: "OPEN", Contacted: "ATTEMPTED_TO_CONTACT", Replied: "CONNECTED",
+  Meeting: "IN_PROGRESS", Won: "OPEN_DEAL", Lost: "UNQUALIFIED"
+};
+
+// Placeholders the sources fill in when a lead has no website of its own
+const PLATFORM_DOMAINS = ["google.com", "instagram.com", "facebook.com"];
+const realWebsite = (lead: Lead) => (lead.website && lead.website !== "#" && !PLATFORM_DOMAINS.includes(lead.domain) ? lead.website : undefined);
+
+// A found address, or a guessed one that passed verification: the CRM never gets a made-up contact email
+export const crmEmail = (lead: Lead) => lead.rawEmail || (lead.emailVerificationStatus === "valid" ? lead.predictedEmail : undefined);
+
+// 1. WHAT A CRM PROPERTY CAN BE FILLED FROM
+export const LEAD_VALUES: Record<string, { label: string; value: (lead: Lead) => string | number | undefined }> = {
+  companyName: { label: "Company", value: l => l.companyName },
+  contactName: { label: "Contact Name", value: l => l.contactName },
+  firstName: { label: "First Name", value: l => splitName(l.contactName).first },
+  lastName: { label: "Last Name", value: l => splitName(l.contactName).last },
+  contactRole: { label: "Contact Role", value: l => l.contactRole },
+  email: { label: "Email", value: crmEmail },
+  predictedEmail: { label: "Guessed Email (unverified)", value: l => (crmEmail(l) ? undefined : l.predictedEmail) },
+  emailVerificationStatus: { label: "Email Verification", value: l => l.emailVerificationStatus },
+  phone: { label: "Phone", value: l => l.phone },
+  website: { label: "Website", value: realWebsite },
+  domain: { label: "Domain", value: l => (realWebsite(l) ? l.domain : undefined) },
+  address: { label: "Address", value: l => l.address },
+  region: { label: "City/Region", value: l => l.region },
+  country: { label: "Country", value: l => l.country },
+  businessType: { label: "Business Type", value: l => l.businessType },
+  category: { label: "Category", value: l => l.category },
+  rating: { label: "Rating", value: l => l.rating },
+  score: { label: "Score", value: l => l.score },
+  stage: { label: "Stage", value: l => l.stage || "New" },
+  hubspotLeadStatus: { label: "Stage as HubSpot Lead Status", value: l => HUBSPOT_LEAD_STATUS[l.stage || "New"] },
+  tags: { label: "Tags", value: l => (l.tags || []).join("; ") },
+  notes: { label: "Source Notes", value: l => l.notes },
+  source: { label: "Source", value: l => l.source },
+  sourceQuery: { label: "Source Query", value: l => l.sourceQuery },
+  postUrl: { label: "Post URL", value: l => l.postUrl }
+};
+
+// 2. DEFAULTS (HubSpot's standard contact and company properties)
+export const DEFAULT_CRM_MAPPING: CrmMapping = {
+  contact: [
+    { property: "email", value: "email" },
+    { property: "firstname", value: "firstName" },
+    { property: "lastname", value: "lastName" },
+    { property: "jobtitle", value: "contactRole" },
+    { property: "phone", value: "phone" },
+    { property: "company", value: "companyName" },
+    { property: "website", value: "website" },
+    { property: "city", value: "region" },
+    { property: "country", value: "country" },
+    { property: "hs_lead_status", value: "hubspotLeadStatus" }
+  ],
+  company: [
+    { property: "name", value: "companyName" },
+    { property: "domain", value: "domain" },
+    { property: "website", value: "website" },
+    { property: "phone", value: "phone" },
+    { property: "address", value: "address" },
+    { property: "city", value: "region" },
+    { property: "country", value: "country" },
+    { property: "description", value: "category" }
+  ]
+};
+
+// 3. LEAD → PROPERTIES (empty values are left out so a push never blanks a field in the CRM)
+export function buildProperties(lead: Lead, mappings: CrmPropertyMapping[]): Record<string, string> {
+  const properties: Record<string, string> = {};
+  mappings.forEach(({ property, value }) => {
+    const resolved = LEAD_VALUES[value]?.value(lead);
+    if (property && resolved !== undefined && resolved !== "") properties[property] = String(resolved);
+  });
+  return properties;
+}
@@ -1,96 +1,706 @@
-import fs from 'fs';
 import path from 'path';
+import { AlertRules, CrmMapping, CrmRecord, Lead, PostClass, LeadList, PipelineStage, OutreachLog, OutreachTemplate, OutreachSequence, SequenceEnrollment, LeadOutcome, ScoringRules, SearchJob } from './types';
+import { DEFAULT_TEMPLATES } from './templates';
+import { DEFAULT_SEQUENCES } from './sequences';
+import { DEFAULT_SCORING_RULES, scoreLeads } from './scoring';
+import { DEFAULT_CRM_MAPPING } from './crm/mapping';
+import { DEFAULT_ALERT_RULES } from './alertRules';
+import { classifyPost, DEFAULT_POST_CLASSES } from './captionParser';
+import type { AlertSchedule, FailedAlert, NotifierId } from './notifiers/types';
+import { getSqlite, readSetting, writeDocument, writeEnrollment, writeLead, writeOutreachLog, writeSetting } from './sqlite';
+import { importJsonFile } from './jsonImport';
+import { advanceLeadStage, setLeadStage } from './pipeline';
+import { addNote, removeNote, setTags } from './notes';
+import { DUPLICATE_THRESHOLD, getInstagramHandle, matchLeads, normalizeCompanyName, normalizeDomain, normalizePhone } from './dedupe';
 
-// The file where we save everything
-const DB_PATH = path.join(process.cwd(), 'watchtower_data.json');
+// Pre-SQLite store; imported once on first use, then renamed
+const LEGACY_JSON_PATH = path.join(process.cwd(), 'watchtower_data.json');
 
+// Snapshot of the Watchtower state (what the monitor panel loads)
 interface WatchData {
   monitoredTags: string[];
-  leads: any[];
+  leads: Lead[];
   lastChecked: number;
   isRunning: boolean;
 }
 
-const defaultData: WatchData = {
-  monitoredTags: [],
-  leads: [],
-  lastChecked: 0,
-  isRunning: false 
-};
+// Addresses that replied, bounced or unsubscribed: never auto-emailed again
+export interface Suppression {
+  email: string;
+  leadId?: string;
+  reason: LeadOutcome;
+  at: string;
+}
 
-// 1. READ DATABASE (Safe Read)
-export function getDb(): WatchData {
-  try {
-    if (!fs.existsSync(DB_PATH)) {
-      fs.writeFileSync(DB_PATH, JSON.stringify(defaultData, null, 2));
-      return defaultData;
-    }
-    const data = fs.readFileSync(DB_PATH, 'utf-8');
-    if (!data) return defaultData;
-    return JSON.parse(data);
-  } catch (error) {
-    console.error("DB Read Error:", error);
-    return defaultData;
+export interface ScanRecord {
+  id: number;
+  startedAt: string;
+  finishedAt?: string;
+  trigger: ScanTrigger;
+  tags: string[];
+  newLeads: number;
+  error?: string;            // The whole run failed (e.g. no Apify token)
+  results: ScanTagResult[];  // One per tag scanned
+}
+
+export type ScanTrigger = "schedule" | "manual";
+
+// What one tag returned in one run
+export interface ScanTagResult {
+  tag: string;
+  fetched: number;    // Posts the scraper returned
+  tooOld: number;     // Dropped by the 48h freshness filter
+  newLeads: number;
+  duplicates: number; // Fresh posts from accounts we already had
+  error?: string;
+  durationMs: number;
+}
+
+// When a monitored tag is next scanned; failures push it back (see lib/watchtower.ts)
+export interface WatchSchedule {
+  tag: string;
+  intervalMinutes?: number; // Unset = the global interval
+  nextRunAt?: string;       // Unset = due now
+  lastRunAt?: string;
+  failures: number;         // Consecutive failed scans
+  lastError?: string;
+  channels?: NotifierId[];  // Where its new leads are announced; unset = every configured channel
+}
+
+let jsonChecked = false;
+
+function connect() {
+  const db = getSqlite();
+  if (!jsonChecked) {
+    importJsonFile(db, LEGACY_JSON_PATH);
+    jsonChecked = true;
   }
+  return db;
+}
+
+const parseRows = <T>(rows: unknown[]): T[] => (rows as { data: string }[]).map(r => JSON.parse(r.data));
+
+// 1. READ DATABASE (Snapshot for the monitor panel)
+export function getDb(): WatchData {
+  const db = connect();
+  return {
+    monitoredTags: getTags(),
+    leads: getLeads({ source: "watchtower" }),
+    lastChecked: readSetting<number>(db, "lastChecked") || 0,
+    isRunning: !!readSetting<boolean>(db, "isRunning")
+  };
 }
 
-// 2. SAVE DATABASE
-export function saveDb(data: WatchData) {
-  try {
-    fs.writeFileSync(DB_PATH, JSON.stringify(data, null, 2));
-  } catch (e) {
-    console.error("DB Save Error:", e);
+// 2. LEADS (newest first; filters use the indexed columns)
+export interface LeadQuery {
+  ids?: string[];
+  source?: Lead["source"];
+  sourceQuery?: string;
+  stage?: PipelineStage;
+  tracked?: boolean; // Only leads that moved past New
+  tag?: string;      // User-defined tag (case-insensitive)
+  domain?: string;
+  email?: string;
+  minScore?: number;
+  limit?: number;
+}
+
+export function getLeads(query: LeadQuery = {}): Lead[] {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (query.ids) {
+    if (query.ids.length === 0) return [];
+    where.push(`id IN (${query.ids.map(() => "?").join(",")})`);
+    params.push(...query.ids);
+  }
+  if (query.source) { where.push("source = ?"); params.push(query.source); }
+  if (query.sourceQuery) { where.push("source_query = ?"); params.push(query.sourceQuery); }
+  if (query.stage) { where.push("stage = ?"); params.push(query.stage); }
+  if (query.tracked) where.push("stage != 'New'");
+  if (query.tag) {
+    where.push("EXISTS (SELECT 1 FROM json_each(data, '$.tags') WHERE lower(value) = ?)");
+    params.push(query.tag.toLowerCase());
   }
+  if (query.domain) { where.push("domain = ?"); params.push(query.domain.toLowerCase()); }
+  if (query.email) { where.push("email = ?"); params.push(query.email.toLowerCase()); }
+  if (query.minScore !== undefined) { where.push("score >= ?"); params.push(query.minScore); }
+
+  const sql = `SELECT data FROM leads ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    ORDER BY added_at DESC, rowid DESC ${query.limit ? `LIMIT ${Number(query.limit)}` : ""}`;
+  return parseRows<Lead>(connect().prepare(sql).all(...params));
 }
 
 // 3. TOGGLE STATUS
 export function setRunningStatus(status: boolean) {
-  const db = getDb();
-  db.isRunning = status;
-  saveDb(db);
+  writeSetting(connect(), "isRunning", status);
 }
 
-// 4. ADD LEADS (Updated to return the ACTUAL OBJECTS added)
-export function addLeadsToDb(newLeads: any[]) {
-  const db = getDb();
-  const addedLeads: any[] = []; // Track actual new items
-
-  if (!db.leads) db.leads = [];
-
-  newLeads.forEach(lead => {
-    // Check duplicates by ID or Company Name
-    const exists = db.leads.some(l => l.id === lead.id || l.companyName === lead.companyName);
-    if (!exists) {
-      db.leads.unshift(lead); 
-      addedLeads.push(lead); // Add to our report list
-    }
+export function isMonitorRunning() {
+  return !!readSetting<boolean>(connect(), "isRunning");
+}
+
+// 4a. FIND A STORED DUPLICATE (optionally only among one source's leads)
+export function findStoredDuplicate(lead: Lead, source?: Lead["source"]) {
+  // Indexed lookup narrows it down, matchLeads decides
+  const rows = connect().prepare(`
+    SELECT data FROM leads
+    WHERE (id = @id OR name_key = @nameKey OR domain = @domain OR phone_key = @phoneKey OR handle_key = @handleKey)
+      AND (@source IS NULL OR source = @source)
+  `).all({
+    source: source || null,
+    id: lead.id,
+    nameKey: normalizeCompanyName(lead.companyName) || null,
+    domain: normalizeDomain(lead.domain) || null,
+    phoneKey: normalizePhone(lead.phone) || null,
+    handleKey: getInstagramHandle(lead) || null
   });
+  return parseRows<Lead>(rows)
+    .map(stored => ({ stored, match: matchLeads(stored, lead) }))
+    .filter(c => c.match && c.match.confidence >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.match!.confidence - a.match!.confidence)[0];
+}
 
-  if (addedLeads.length > 0) {
-      saveDb(db);
-  }
+// 4. ADD LEADS (Updated to return the ACTUAL OBJECTS added)
+export function addLeadsToDb(newLeads: Lead[]) {
+  const db = connect();
+
+  return db.transaction(() => {
+    const addedLeads: Lead[] = []; // Track actual new items
+    // Reverse so the first lead in the batch ends up on top, like the old unshift()
+    [...newLeads].reverse().forEach(lead => {
+      // Same business already stored by this source (id, name, domain, phone or handle)
+      if (findStoredDuplicate(lead, lead.source)) return;
+      writeLead(db, lead);
+      addedLeads.unshift(lead); // Add to our report list
+    });
+    return addedLeads; // Return the array so we can send alerts
+  })();
+}
+
+// 4b. UPDATE STORED LEADS IN PLACE (matched by id; stage, notes, tags and CRM link stay as stored)
+export function updateLeads(updated: Partial<Lead>[]) {
+  const db = connect();
+  const read = db.prepare(`SELECT data FROM leads WHERE id = ?`);
 
-  return addedLeads; // Return the array so we can send alerts
+  return db.transaction(() => {
+    let changed = 0;
+    updated.forEach(patch => {
+      const row = read.get(patch.id) as { data: string } | undefined;
+      if (!row) return;
+      const stored: Lead = JSON.parse(row.data);
+      writeLead(db, keepUserFields({ ...stored, ...patch }, stored));
+      changed++;
+    });
+    return changed;
+  })();
+}
+
+// 4c. MERGE TWO STORED LEADS (history moves to the surviving id)
+export function mergeStoredLeads(merged: Lead, removedId: string) {
+  const db = connect();
+  db.transaction(() => {
+    writeLead(db, merged);
+    db.prepare(`UPDATE OR IGNORE list_leads SET lead_id = ? WHERE lead_id = ?`).run(merged.id, removedId);
+    db.prepare(`DELETE FROM leads WHERE id = ?`).run(removedId);
+    db.prepare(`UPDATE outreach_logs SET lead_id = ?, data = json_set(data, '$.leadId', ?) WHERE lead_id = ?`)
+      .run(merged.id, merged.id, removedId);
+    db.prepare(`UPDATE enrollments SET lead_id = ?, data = json_set(data, '$.leadId', ?) WHERE lead_id = ?`)
+      .run(merged.id, merged.id, removedId);
+  })();
+}
+
+// 5. TAGS
+export function getTags(): string[] {
+  const rows = connect().prepare(`SELECT tag FROM tags ORDER BY added_at, rowid`).all() as { tag: string }[];
+  return rows.map(r => r.tag);
 }
 
-// 5. ADD TAG
 export function addTag(tag: string) {
-  const db = getDb();
   const cleanTag = tag.trim().replace('#', '');
+  if (!cleanTag) return;
+  connect().prepare(`INSERT OR IGNORE INTO tags (tag, added_at) VALUES (?, ?)`).run(cleanTag, new Date().toISOString());
+}
+
+// 6. REMOVE TAG
+export function removeTag(tag: string) {
+  const db = connect();
+  db.prepare(`DELETE FROM tags WHERE tag = ?`).run(tag);
+  db.prepare(`DELETE FROM watch_schedule WHERE tag = ?`).run(tag);
+}
+
+// 6a. WATCH SCHEDULE (tags without a row have never run, so they are due)
+export function getWatchSchedules(tags: string[]): WatchSchedule[] {
+  const read = connect().prepare(`SELECT * FROM watch_schedule WHERE tag = ?`);
+  return tags.map(tag => {
+    const r = read.get(tag) as any;
+    return {
+      tag,
+      intervalMinutes: r?.interval_minutes ?? undefined,
+      nextRunAt: r?.next_run_at ?? undefined,
+      lastRunAt: r?.last_run_at ?? undefined,
+      failures: r?.failures || 0,
+      lastError: r?.last_error ?? undefined,
+      channels: r?.channels ? JSON.parse(r.channels) : undefined
+    };
+  });
+}
+
+export function saveWatchSchedule(schedule: WatchSchedule) {
+  connect().prepare(`
+    INSERT INTO watch_schedule (tag, interval_minutes, next_run_at, last_run_at, failures, last_error, channels)
+    VALUES (@tag, @intervalMinutes, @nextRunAt, @lastRunAt, @failures, @lastError, @channels)
+    ON CONFLICT(tag) DO UPDATE SET interval_minutes = excluded.interval_minutes, next_run_at = excluded.next_run_at,
+      last_run_at = excluded.last_run_at, failures = excluded.failures, last_error = excluded.last_error, channels = excluded.channels
+  `).run({
+    tag: schedule.tag,
+    intervalMinutes: schedule.intervalMinutes ?? null,
+    nextRunAt: schedule.nextRunAt ?? null,
+    lastRunAt: schedule.lastRunAt ?? null,
+    failures: schedule.failures,
+    lastError: schedule.lastError ?? null,
+    channels: schedule.channels ? JSON.stringify(schedule.channels) : null
+  });
+}
+
+export function getWatchInterval(): number | undefined {
+  return readSetting<number>(connect(), "watchIntervalMinutes");
+}
 
-  if (!db.monitoredTags) db.monitoredTags = [];
+export function setWatchInterval(minutes: number) {
+  writeSetting(connect(), "watchIntervalMinutes", minutes);
+}
+
+// 6b. SCANS (one row per Watchtower run, plus one per tag it scanned)
+export function startScan(tags: string[], trigger: ScanTrigger = "manual"): number {
+  const result = connect().prepare(`INSERT INTO scans (started_at, tags, trigger) VALUES (?, ?, ?)`)
+    .run(new Date().toISOString(), JSON.stringify(tags), trigger);
+  return Number(result.lastInsertRowid);
+}
+
+export function recordScanTag(scanId: number, result: ScanTagResult) {
+  connect().prepare(`
+    INSERT OR REPLACE INTO scan_tags (scan_id, tag, fetched, too_old, new_leads, duplicates, error, duration_ms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(scanId, result.tag, result.fetched, result.tooOld, result.newLeads, result.duplicates, result.error || null, result.durationMs);
+}
+
+export function finishScan(id: number, newLeads: number, error?: string) {
+  const db = connect();
+  db.prepare(`UPDATE scans SET finished_at = ?, new_leads = ?, error = ? WHERE id = ?`)
+    .run(new Date().toISOString(), newLeads, error || null, id);
+  if (!error) writeSetting(db, "lastChecked", Date.now());
+}
+
+export function getScans(limit = 50): ScanRecord[] {
+  const db = connect();
+  const rows = db.prepare(`SELECT * FROM scans ORDER BY started_at DESC, id DESC LIMIT ?`).all(limit) as any[];
+  const readTags = db.prepare(`SELECT * FROM scan_tags WHERE scan_id = ? ORDER BY rowid`);
+  return rows.map(r => ({
+    id: r.id,
+    startedAt: r.started_at,
+    finishedAt: r.finished_at || undefined,
+    trigger: r.trigger,
+    tags: JSON.parse(r.tags),
+    newLeads: r.new_leads,
+    error: r.error || undefined,
+    results: (readTags.all(r.id) as any[]).map(t => ({
+      tag: t.tag,
+      fetched: t.fetched,
+      tooOld: t.too_old,
+      newLeads: t.new_leads,
+      duplicates: t.duplicates,
+      error: t.error || undefined,
+      durationMs: t.duration_ms
+    }))
+  }));
+}
+
+// 7. OUTREACH HISTORY
+export function addOutreachLog(log: OutreachLog) {
+  writeOutreachLog(connect(), log);
+  return log;
+}
 
-  if (cleanTag && !db.monitoredTags.includes(cleanTag)) {
-    db.monitoredTags.push(cleanTag);
-    saveDb(db);
+// leadId and email are OR'd: search-result ids aren't stable between searches,
+// so the address is what tells us a jeweler was already contacted
+export interface OutreachQuery {
+  leadId?: string;
+  email?: string;
+  from?: string; // ISO date, inclusive
+  to?: string;   // ISO date, inclusive
+}
+
+export function getOutreachLogs(query: OutreachQuery = {}): OutreachLog[] {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (query.leadId || query.email) {
+    where.push("(lead_id = ? OR email = ?)");
+    params.push(query.leadId || null, query.email ? query.email.toLowerCase() : null);
   }
+  if (query.from) { where.push("sent_at >= ?"); params.push(new Date(query.from).toISOString()); }
+  if (query.to) { where.push("sent_at <= ?"); params.push(new Date(query.to).toISOString()); }
+
+  const sql = `SELECT data FROM outreach_logs ${where.length ? `WHERE ${where.join(" AND ")}` : ""} ORDER BY sent_at DESC`;
+  return parseRows<OutreachLog>(connect().prepare(sql).all(...params));
 }
 
-// 6. REMOVE TAG
-export function removeTag(tag: string) {
-  const db = getDb();
-  if (!db.monitoredTags) db.monitoredTags = [];
+// 8. OUTREACH TEMPLATES (defaults until the first one is saved)
+export function getTemplates(): OutreachTemplate[] {
+  const templates = parseRows<OutreachTemplate>(connect().prepare(`SELECT data FROM templates ORDER BY rowid`).all());
+  return templates.length > 0 ? templates : DEFAULT_TEMPLATES;
+}
+
+function seedDefaults(table: "templates" | "sequences", defaults: { id: string }[]) {
+  const db = connect();
+  const { count } = db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number };
+  if (count === 0) defaults.forEach(doc => writeDocument(db, table, doc));
+}
+
+export function saveTemplate(template: OutreachTemplate) {
+  seedDefaults("templates", DEFAULT_TEMPLATES);
+  const saved = { ...template, updatedAt: new Date().toISOString() };
+  writeDocument(connect(), "templates", saved);
+  return saved;
+}
+
+export function deleteTemplate(id: string) {
+  seedDefaults("templates", DEFAULT_TEMPLATES);
+  connect().prepare(`DELETE FROM templates WHERE id = ?`).run(id);
+}
+
+// 9. SEQUENCES
+export function getSequences(): OutreachSequence[] {
+  const sequences = parseRows<OutreachSequence>(connect().prepare(`SELECT data FROM sequences ORDER BY rowid`).all());
+  return sequences.length > 0 ? sequences : DEFAULT_SEQUENCES;
+}
+
+export function saveSequence(sequence: OutreachSequence) {
+  seedDefaults("sequences", DEFAULT_SEQUENCES);
+  const saved = { ...sequence, updatedAt: new Date().toISOString() };
+  writeDocument(connect(), "sequences", saved);
+  return saved;
+}
+
+export function deleteSequence(id: string) {
+  seedDefaults("sequences", DEFAULT_SEQUENCES);
+  connect().prepare(`DELETE FROM sequences WHERE id = ?`).run(id);
+}
+
+// 10. ENROLLMENTS (newest first)
+export function getEnrollments(filter: { leadId?: string; email?: string; status?: SequenceEnrollment["status"] } = {}) {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (filter.status) { where.push("status = ?"); params.push(filter.status); }
+  if (filter.leadId || filter.email) {
+    where.push("(lead_id = ? OR email = ?)");
+    params.push(filter.leadId || null, filter.email ? filter.email.toLowerCase() : null);
+  }
+
+  const sql = `SELECT data FROM enrollments ${where.length ? `WHERE ${where.join(" AND ")}` : ""} ORDER BY rowid DESC`;
+  return parseRows<SequenceEnrollment>(connect().prepare(sql).all(...params));
+}
 
-  db.monitoredTags = db.monitoredTags.filter(t => t !== tag);
-  saveDb(db);
-}
\ No newline at end of file
+export function saveEnrollments(enrollments: SequenceEnrollment[]) {
+  const db = connect();
+  db.transaction(() => enrollments.forEach(e => writeEnrollment(db, e)))();
+}
+
+// 11. SUPPRESSIONS (replied / bounced / unsubscribed)
+export function getSuppression(email: string): Suppression | undefined {
+  const row = connect().prepare(`SELECT * FROM suppressions WHERE email = ?`).get(email.toLowerCase()) as any;
+  if (!row) return undefined;
+  return { email: row.email, leadId: row.lead_id || undefined, reason: row.reason, at: row.at };
+}
+
+export function addSuppression(suppression: Suppression) {
+  connect().prepare(`INSERT OR REPLACE INTO suppressions (email, lead_id, reason, at) VALUES (?, ?, ?, ?)`)
+    .run(suppression.email.toLowerCase(), suppression.leadId || null, suppression.reason, suppression.at);
+}
+
+// 12. SCORING RULES (saving re-scores every stored lead)
+export function getScoringRules(): ScoringRules {
+  // Merge so rules saved before a new factor existed still get its defaults
+  return { ...DEFAULT_SCORING_RULES, ...(readSetting<ScoringRules>(connect(), "scoringRules") || {}) };
+}
+
+export function saveScoringRules(rules: ScoringRules) {
+  const db = connect();
+  const merged = { ...DEFAULT_SCORING_RULES, ...rules };
+  return db.transaction(() => {
+    writeSetting(db, "scoringRules", merged);
+    const rescored = scoreLeads(getLeads(), merged);
+    rescored.forEach(lead => writeLead(db, lead));
+    return rescored.length;
+  })();
+}
+
+// 13. SAVED LISTS (search results kept under a name; leads live in the leads table)
+export function getLists(): LeadList[] {
+  const rows = connect().prepare(`
+    SELECT lists.*, COUNT(list_leads.lead_id) AS lead_count
+    FROM lists LEFT JOIN list_leads ON list_leads.list_id = lists.id
+    GROUP BY lists.id ORDER BY lists.updated_at DESC
+  `).all() as any[];
+  return rows.map(r => ({ id: r.id, name: r.name, createdAt: r.created_at, updatedAt: r.updated_at, leadCount: r.lead_count }));
+}
+
+export function getListLeads(listId: string): Lead[] {
+  return parseRows<Lead>(connect().prepare(`
+    SELECT leads.data FROM list_leads JOIN leads ON leads.id = list_leads.lead_id
+    WHERE list_leads.list_id = ? ORDER BY list_leads.added_at DESC, list_leads.rowid DESC
+  `).all(listId));
+}
+
+export function createList(name: string): LeadList {
+  const now = new Date().toISOString();
+  const list = { id: `list-${Math.random().toString(36).substr(2, 9)}`, name: name.trim(), createdAt: now, updatedAt: now, leadCount: 0 };
+  connect().prepare(`INSERT INTO lists (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)`).run(list.id, list.name, now, now);
+  return list;
+}
+
+// A new list with its leads in one transaction, so a failed import leaves no empty list behind
+export function createListWithLeads(name: string, leads: Lead[]) {
+  const db = connect();
+  return db.transaction(() => {
+    const list = createList(name);
+    return { listId: list.id, ...addLeadsToList(list.id, leads) };
+  })();
+}
+
+export function renameList(listId: string, name: string) {
+  connect().prepare(`UPDATE lists SET name = ?, updated_at = ? WHERE id = ?`).run(name.trim(), new Date().toISOString(), listId);
+}
+
+export function deleteList(listId: string) {
+  connect().prepare(`DELETE FROM lists WHERE id = ?`).run(listId);
+}
+
+// Skips leads the list already holds; reuses a stored record of the same business when there is one
+export function addLeadsToList(listId: string, leads: Lead[]) {
+  const db = connect();
+  const link = db.prepare(`INSERT OR IGNORE INTO list_leads (list_id, lead_id, added_at) VALUES (?, ?, ?)`);
+
+  return db.transaction(() => {
+    const held = getListLeads(listId);
+    const saved: Lead[] = [];
+    let skipped = 0;
+    const now = new Date().toISOString();
+
+    [...leads].reverse().forEach(lead => {
+      if ([...held, ...saved].some(h => (matchLeads(h, lead)?.confidence || 0) >= DUPLICATE_THRESHOLD)) {
+        skipped++;
+        return;
+      }
+      const existing = findStoredDuplicate(lead, lead.source);
+      const stored = existing ? existing.stored : lead;
+      if (!existing) writeLead(db, lead);
+      link.run(listId, stored.id, now);
+      saved.unshift(stored);
+    });
+
+    db.prepare(`UPDATE lists SET updated_at = ? WHERE id = ?`).run(now, listId);
+    return { added: saved, skipped };
+  })();
+}
+
+export function removeLeadsFromList(listId: string, leadIds: string[]) {
+  const db = connect();
+  const unlink = db.prepare(`DELETE FROM list_leads WHERE list_id = ? AND lead_id = ?`);
+  db.transaction(() => leadIds.forEach(id => unlink.run(listId, id)))();
+}
+
+// 14. PIPELINE (a stage change stores the lead, so search results get tracked too)
+export function saveLeadStage(lead: Lead, stage: PipelineStage) {
+  return editStoredLead(lead, current => setLeadStage(current, stage));
+}
+
+// Sending / replies move stored leads forward (by id, or by address for past search results)
+export function advanceStoredStage(stage: PipelineStage, match: { leadId?: string; email?: string; lead?: Lead }) {
+  const db = connect();
+  return db.transaction(() => {
+    let targets = match.leadId ? getLeads({ ids: [match.leadId] }) : [];
+    if (targets.length === 0 && match.email) targets = getLeads({ email: match.email });
+    if (targets.length === 0 && match.lead) targets = [match.lead];
+
+    const moved = targets.map(l => advanceLeadStage(l, stage)).filter((l, i) => l !== targets[i]);
+    moved.forEach(l => writeLead(db, l));
+    return moved;
+  })();
+}
+
+// 15. NOTES & TAGS (the user's own data on a lead; stored like a stage change)
+// Fields the team owns (hand edits, the CRM link): the stored copy wins over a fresh search result
+function keepUserFields(lead: Lead, stored: Lead): Lead {
+  return { ...lead, stage: stored.stage, stageHistory: stored.stageHistory, userNotes: stored.userNotes, tags: stored.tags, crm: stored.crm };
+}
+
+// A lead as the browser sent it, with the stored copy's user fields
+export function withStoredUserFields(lead: Lead): Lead {
+  const stored = getLeads({ ids: [lead.id] })[0];
+  return stored ? keepUserFields({ ...stored, ...lead }, stored) : lead;
+}
+
+function editStoredLead(lead: Lead, edit: (current: Lead) => Lead) {
+  const db = connect();
+  return db.transaction(() => {
+    const updated = edit(withStoredUserFields(lead));
+    writeLead(db, updated);
+    return updated;
+  })();
+}
+
+export function addLeadNote(lead: Lead, text: string) {
+  return editStoredLead(lead, current => addNote(current, text));
+}
+
+export function deleteLeadNote(lead: Lead, noteId: string) {
+  return editStoredLead(lead, current => removeNote(current, noteId));
+}
+
+export function saveLeadTags(lead: Lead, tags: string[]) {
+  return editStoredLead(lead, current => setTags(current, tags));
+}
+
+// Every tag in use, for suggestions
+export function getLeadTags(): string[] {
+  const rows = connect().prepare(`
+    SELECT DISTINCT t.value AS tag FROM leads, json_each(leads.data, '$.tags') t ORDER BY lower(t.value)
+  `).all() as { tag: string }[];
+  return rows.map(r => r.tag);
+}
+
+// 16. SEARCH JOBS (newest first; results are rewritten as each query finishes)
+export function saveSearchJob(job: SearchJob, results?: Lead[]) {
+  connect().prepare(`
+    INSERT INTO search_jobs (id, status, created_at, data, results) VALUES (@id, @status, @createdAt, @data, @results)
+    ON CONFLICT(id) DO UPDATE SET status = excluded.status, data = excluded.data,
+      results = CASE WHEN @hasResults THEN excluded.results ELSE search_jobs.results END
+  `).run({
+    id: job.id, status: job.status, createdAt: job.createdAt, data: JSON.stringify(job),
+    results: JSON.stringify(results || []), hasResults: results ? 1 : 0
+  });
+}
+
+export function getSearchJob(id: string): SearchJob | undefined {
+  const row = connect().prepare(`SELECT data FROM search_jobs WHERE id = ?`).get(id) as { data: string } | undefined;
+  return row ? JSON.parse(row.data) : undefined;
+}
+
+export function getSearchJobResults(id: string): Lead[] {
+  const row = connect().prepare(`SELECT results FROM search_jobs WHERE id = ?`).get(id) as { results: string } | undefined;
+  return row ? JSON.parse(row.results) : [];
+}
+
+export function getSearchJobs(limit = 20): SearchJob[] {
+  return parseRows<SearchJob>(connect().prepare(`SELECT data FROM search_jobs ORDER BY created_at DESC LIMIT ?`).all(limit));
+}
+
+// 17. CRM (field mapping, and where each pushed lead lives remotely)
+export function getCrmMapping(): CrmMapping {
+  return readSetting<CrmMapping>(connect(), "crmMapping") || DEFAULT_CRM_MAPPING;
+}
+
+export function saveCrmMapping(mapping?: CrmMapping) {
+  writeSetting(connect(), "crmMapping", mapping || DEFAULT_CRM_MAPPING);
+}
+
+export function saveLeadCrm(lead: Lead, crm: CrmRecord) {
+  return editStoredLead(lead, current => ({ ...current, crm }));
+}
+
+// 18. ALERT DELIVERY (digest schedule, leads waiting for it, failed sends)
+export function getAlertSchedule(): AlertSchedule {
+  return readSetting<AlertSchedule>(connect(), "alertSchedule") || { mode: "instant", hour: 9 };
+}
+
+export function saveAlertSchedule(schedule: AlertSchedule) {
+  writeSetting(connect(), "alertSchedule", schedule);
+}
+
+export function getLastDigestAt(): string | undefined {
+  return readSetting<string>(connect(), "lastDigestAt");
+}
+
+export function setLastDigestAt(at: string) {
+  writeSetting(connect(), "lastDigestAt", at);
+}
+
+export function queueAlertLeads(tag: string, leadIds: string[]) {
+  const insert = connect().prepare(`INSERT OR IGNORE INTO alert_queue (lead_id, tag, queued_at) VALUES (?, ?, ?)`);
+  const now = new Date().toISOString();
+  leadIds.forEach(id => insert.run(id, tag, now));
+}
+
+export function countQueuedAlerts(): number {
+  return (connect().prepare(`SELECT COUNT(DISTINCT lead_id) AS n FROM alert_queue`).get() as { n: number }).n;
+}
+
+// Everything waiting for the next digest (one digest takes it all)
+export function getQueuedAlerts(): { tag: string; leadId: string }[] {
+  const rows = connect().prepare(`SELECT lead_id, tag FROM alert_queue ORDER BY queued_at`).all() as { lead_id: string; tag: string }[];
+  return rows.map(r => ({ tag: r.tag, leadId: r.lead_id }));
+}
+
+// Removes what a digest covered; leads queued while it was being sent wait for the next one
+export function clearQueuedAlerts(entries: { tag: string; leadId: string }[]) {
+  const db = connect();
+  const remove = db.prepare(`DELETE FROM alert_queue WHERE lead_id = ? AND tag = ?`);
+  db.transaction(() => entries.forEach(e => remove.run(e.leadId, e.tag)))();
+}
+
+export function saveFailedAlert(failure: FailedAlert) {
+  connect().prepare(`INSERT OR REPLACE INTO alert_failures (id, channel, failed_at, retry_at, data) VALUES (?, ?, ?, ?, ?)`)
+    .run(failure.id, failure.channel, failure.failedAt, failure.retryAt || null, JSON.stringify(failure));
+}
+
+// Rate-limited sends whose wait is over
+export function getDueFailedAlerts(now = new Date()): FailedAlert[] {
+  return parseRows<FailedAlert>(connect().prepare(`SELECT data FROM alert_failures WHERE retry_at <= ? ORDER BY retry_at`).all(now.toISOString()));
+}
+
+export function getFailedAlerts(limit = 50): FailedAlert[] {
+  return parseRows<FailedAlert>(connect().prepare(`SELECT data FROM alert_failures ORDER BY failed_at DESC LIMIT ?`).all(limit));
+}
+
+export function getFailedAlert(id: string): FailedAlert | undefined {
+  const row = connect().prepare(`SELECT data FROM alert_failures WHERE id = ?`).get(id) as { data: string } | undefined;
+  return row ? JSON.parse(row.data) : undefined;
+}
+
+export function deleteFailedAlert(id: string) {
+  connect().prepare(`DELETE FROM alert_failures WHERE id = ?`).run(id);
+}
+
+// 19. ALERT RULES (which new Watchtower leads get announced; see lib/alertRules.ts)
+export function getAlertRules(): AlertRules {
+  return readSetting<AlertRules>(connect(), "alertRules") || DEFAULT_ALERT_RULES;
+}
+
+export function saveAlertRules(rules: AlertRules) {
+  writeSetting(connect(), "alertRules", rules);
+}
+
+// How often each rule fired, keyed by rule id ("fallback" = no rule matched)
+export function getAlertRuleStats(): Record<string, { fired: number; lastAt: string }> {
+  const rows = connect().prepare(`
+    SELECT COALESCE(json_extract(data, '$.alertDecision.ruleId'), 'fallback') AS rule_id, COUNT(*) AS fired,
+      MAX(json_extract(data, '$.alertDecision.at')) AS last_at
+    FROM leads WHERE json_extract(data, '$.alertDecision') IS NOT NULL GROUP BY rule_id
+  `).all() as { rule_id: string; fired: number; last_at: string }[];
+  return Object.fromEntries(rows.map(r => [r.rule_id, { fired: r.fired, lastAt: r.last_at }]));
+}
+
+// 20. POST CLASSES (caption keyword lists; saving re-classifies every stored caption)
+export function getPostClasses(): PostClass[] {
+  return readSetting<PostClass[]>(connect(), "postClasses") || DEFAULT_POST_CLASSES;
+}
+
+export function savePostClasses(classes: PostClass[]) {
+  const db = connect();
+  writeSetting(db, "postClasses", classes);
+  const leads = parseRows<Lead>(db.prepare(`SELECT data FROM leads WHERE json_extract(data, '$.captionDetails') IS NOT NULL`).all());
+  db.transaction(() => {
+    leads.forEach(lead => writeLead(db, { ...lead, captionDetails: { ...lead.captionDetails!, classes: classifyPost(lead.caption || "", classes) } }));
+  })();
+  return leads.length;
+}
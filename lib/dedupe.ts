@@ -0,0 +1,214 @@
+// Entity resolution: spot the same business across sources and searches,
+// and fold duplicates into one record without losing either side.
+
+import { DuplicateMatch, Lead } from "./types";
+import { normalizeTags } from "./notes";
+
+// At or above: treated as the same business automatically (search results, Watchtower)
+export const DUPLICATE_THRESHOLD = 80;
+// At or above: shown in the merge review for a human to decide
+export const REVIEW_THRESHOLD = 50;
+
+const LEGAL_SUFFIXES = [
+  "llc", "ltd", "limited", "inc", "co", "company", "corp", "fze", "fzco", "fzc", "fzllc", "llp", "plc",
+  "gmbh", "sarl", "sa", "srl", "bv", "pvt", "private", "pte", "est", "establishment", "the"
+];
+const PLACEHOLDER_DOMAINS = ["google.com", "instagram.com", "facebook.com", "#", ""];
+
+// 1. NORMALIZERS (also stored as indexed keys on each lead row)
+export function normalizeCompanyName(name?: string): string {
+  return (name || "")
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(word => word && !LEGAL_SUFFIXES.includes(word))
+    .join(" ");
+}
+
+// Last 8 digits: "+971 4 123 4567" and "04 123 4567" compare equal
+export function normalizePhone(phone?: string): string {
+  const digits = (phone || "").replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-8) : "";
+}
+
+export function normalizeDomain(domain?: string): string {
+  const clean = (domain || "").toLowerCase().trim().replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/.*$/, "");
+  return PLACEHOLDER_DOMAINS.includes(clean) ? "" : clean;
+}
+
+export function getInstagramHandle(lead: Partial<Lead>): string {
+  if (lead.domain === "instagram.com" && lead.companyName) return lead.companyName.toLowerCase().replace(/^@/, "");
+  const fromSite = (lead.website || "").match(/instagram\.com\/([a-z0-9._]{2,30})/i);
+  if (fromSite) return fromSite[1].toLowerCase();
+  return (lead.enrichment?.socials.instagram || "").toLowerCase();
+}
+
+function normalizeAddress(address?: string): string {
+  return (address || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Dice coefficient on letter pairs (0..1)
+function nameSimilarity(a: string, b: string): number {
+  const x = a.replace(/\s/g, "");
+  const y = b.replace(/\s/g, "");
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const pairs = (s: string) => Array.from({ length: s.length - 1 }, (_, i) => s.slice(i, i + 2));
+  const left = pairs(x);
+  const right = pairs(y);
+  const pool = [...right];
+  let shared = 0;
+  left.forEach(pair => {
+    const index = pool.indexOf(pair);
+    if (index >= 0) { shared++; pool.splice(index, 1); }
+  });
+  return (2 * shared) / (left.length + right.length || 1);
+}
+
+function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }) {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+// 2. COMPARE TWO LEADS (independent signals combine; a conflicting phone/address means another branch)
+export function matchLeads(a: Lead, b: Lead): DuplicateMatch | null {
+  if (a.id === b.id) return { leadId: a.id, duplicateId: b.id, confidence: 100, reasons: ["Same record"] };
+
+  const evidence: { p: number; reason: string }[] = [];
+  const conflicts: string[] = [];
+
+  const domainA = normalizeDomain(a.domain);
+  if (domainA && domainA === normalizeDomain(b.domain)) evidence.push({ p: 0.9, reason: "Same website domain" });
+
+  const phoneA = normalizePhone(a.phone);
+  const phoneB = normalizePhone(b.phone);
+  if (phoneA && phoneA === phoneB) evidence.push({ p: 0.85, reason: "Same phone number" });
+  else if (phoneA && phoneB) conflicts.push("different phone");
+
+  const handleA = getInstagramHandle(a);
+  if (handleA && handleA === getInstagramHandle(b)) evidence.push({ p: 0.95, reason: `Same Instagram handle (@${handleA})` });
+
+  const emailA = (a.rawEmail || "").toLowerCase();
+  if (emailA && emailA === (b.rawEmail || "").toLowerCase()) evidence.push({ p: 0.9, reason: "Same email address" });
+
+  const similarity = nameSimilarity(normalizeCompanyName(a.companyName), normalizeCompanyName(b.companyName));
+  if (similarity === 1) evidence.push({ p: 0.8, reason: "Same name" });
+  else if (similarity >= 0.85) evidence.push({ p: 0.5, reason: `Similar name (${Math.round(similarity * 100)}%)` });
+
+  if (a.coordinates && b.coordinates) {
+    const meters = distanceMeters(a.coordinates, b.coordinates);
+    if (meters < 50) evidence.push({ p: 0.6, reason: "Same map location" });
+    else if (meters > 1000) conflicts.push("different location");
+  } else if (a.address && b.address && normalizeAddress(a.address) !== normalizeAddress(b.address)) {
+    conflicts.push("different address");
+  }
+
+  if (evidence.length === 0) return null;
+
+  let confidence = 1 - evidence.reduce((miss, e) => miss * (1 - e.p), 1);
+  const reasons = evidence.map(e => e.reason);
+  // Same handle or email is the same account, even across branches
+  const sameAccount = reasons.some(r => r.startsWith("Same Instagram") || r === "Same email address");
+  if (conflicts.length > 0 && !sameAccount) {
+    confidence *= 0.4;
+    reasons.push(`But ${conflicts.join(" and ")} (likely another branch)`);
+  }
+  return { leadId: a.id, duplicateId: b.id, confidence: Math.round(confidence * 100), reasons };
+}
+
+// Keys that any real duplicate shares at least one of, so we never compare every pair
+function blockingKeys(lead: Lead): string[] {
+  const name = normalizeCompanyName(lead.companyName);
+  return [
+    normalizeDomain(lead.domain) && `d:${normalizeDomain(lead.domain)}`,
+    normalizePhone(lead.phone) && `p:${normalizePhone(lead.phone)}`,
+    getInstagramHandle(lead) && `h:${getInstagramHandle(lead)}`,
+    lead.rawEmail && `e:${lead.rawEmail.toLowerCase()}`,
+    name && `n:${name.replace(/\s/g, "").slice(0, 4)}`
+  ].filter((key): key is string => !!key);
+}
+
+// 3. ALL LIKELY DUPLICATE PAIRS IN A LIST (best first)
+export function findDuplicates(leads: Lead[], minConfidence = REVIEW_THRESHOLD): DuplicateMatch[] {
+  const buckets = new Map<string, number[]>();
+  leads.forEach((lead, i) => blockingKeys(lead).forEach(key => {
+    buckets.set(key, [...(buckets.get(key) || []), i]);
+  }));
+
+  const seen = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+  buckets.forEach(indexes => {
+    for (let x = 0; x < indexes.length; x++) {
+      for (let y = x + 1; y < indexes.length; y++) {
+        const pairKey = `${indexes[x]}:${indexes[y]}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+        const match = matchLeads(leads[indexes[x]], leads[indexes[y]]);
+        if (match && match.confidence >= minConfidence) matches.push(match);
+      }
+    }
+  });
+  return matches.sort((a, b) => b.confidence - a.confidence);
+}
+
+// 4. MERGE (field by field; history of both records is kept in mergedFrom)
+export const MERGEABLE_FIELDS: (keyof Lead)[] = [
+  "companyName", "website", "domain", "phone", "address", "rawEmail", "predictedEmail",
+  "contactName", "contactRole", "country", "region", "businessType", "category",
+  "rating", "reviewCount", "postUrl", "notes"
+];
+
+export type MergeChoices = Partial<Record<keyof Lead, "primary" | "secondary">>;
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === "" || value === "#" || value === "Unknown" ||
+  value === "google.com" || value === "Store Manager";
+
+export function mergeLeads(primary: Lead, secondary: Lead, choices: MergeChoices = {}): Lead {
+  const merged: any = { ...primary };
+  const keys = new Set([...Object.keys(primary), ...Object.keys(secondary)] as (keyof Lead)[]);
+  keys.forEach(key => {
+    if (key === "id" || key === "mergedFrom" || key === "userNotes" || key === "tags") return;
+    const pick = choices[key] || (isBlank(primary[key]) ? "secondary" : "primary");
+    if (pick === "secondary" && secondary[key] !== undefined) merged[key] = secondary[key];
+  });
+
+  // The team's notes and tags from both records are kept
+  const notes = [...(primary.userNotes || []), ...(secondary.userNotes || [])];
+  if (notes.length) merged.userNotes = notes.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const tags = normalizeTags([...(primary.tags || []), ...(secondary.tags || [])]);
+  if (tags.length) merged.tags = tags;
+
+  const { mergedFrom: secondaryHistory, ...secondarySnapshot } = secondary;
+  merged.mergedFrom = [
+    { lead: secondarySnapshot, mergedAt: new Date().toISOString() },
+    ...(secondaryHistory || []),
+    ...(primary.mergedFrom || [])
+  ];
+  return merged as Lead;
+}
+
+// 5. COLLAPSE A RESULT SET (first occurrence wins, later ones fill its gaps)
+export function dedupeLeads(leads: Lead[], threshold = DUPLICATE_THRESHOLD): Lead[] {
+  const kept: Lead[] = [];
+  const buckets = new Map<string, number[]>();
+
+  leads.forEach(lead => {
+    const keys = blockingKeys(lead);
+    const candidates = Array.from(new Set(keys.flatMap(key => buckets.get(key) || [])));
+    const hit = candidates.find(i => (matchLeads(kept[i], lead)?.confidence || 0) >= threshold);
+
+    if (hit !== undefined) {
+      kept[hit] = mergeLeads(kept[hit], lead);
+      return;
+    }
+    kept.push(lead);
+    keys.forEach(key => buckets.set(key, [...(buckets.get(key) || []), kept.length - 1]));
+  });
+  return kept;
+}
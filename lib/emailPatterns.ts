@@ -0,0 +1,89 @@
+// Email pattern engine: ranks likely addresses for a contact at a domain,
+// learning each company's convention from addresses we already know.
+
+import { EmailCandidate, EmailPattern } from "./types";
+
+// Priors: how common each pattern is across small/medium businesses
+const PERSON_PRIORS: Record<string, number> = { "first.last": 0.35, "first": 0.2, "flast": 0.15, "f.last": 0.1, "firstlast": 0.05 };
+const ROLE_PRIORS: Record<string, number> = { "info": 0.1, "sales": 0.03, "contact": 0.02 };
+const ROLE_ONLY_PRIORS: Record<string, number> = { "info": 0.55, "sales": 0.25, "contact": 0.2 };
+
+// Placeholder contact names the sources use when nobody is known
+const GENERIC_NAMES = ["store manager", "system", "unknown", "owner"];
+
+export type DomainPatternStats = Record<string, Partial<Record<EmailPattern, number>>>;
+
+// 1. NAME → { first, last } (accents stripped, letters only)
+function splitName(contactName?: string) {
+  const clean = (contactName || "")
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase().replace(/[^a-z\s-]/g, " ").trim();
+  if (!clean || GENERIC_NAMES.includes(clean)) return null;
+
+  const parts = clean.split(/[\s-]+/).filter(Boolean);
+  if (parts.length === 0) return null;
+  return { first: parts[0], last: parts.length > 1 ? parts[parts.length - 1] : "" };
+}
+
+function buildLocalPart(pattern: EmailPattern, name: { first: string; last: string } | null): string | null {
+  if (pattern === "info" || pattern === "sales" || pattern === "contact") return pattern;
+  if (!name) return null;
+  const { first, last } = name;
+  if (pattern === "first") return first;
+  if (!last) return null;
+  if (pattern === "first.last") return `${first}.${last}`;
+  if (pattern === "flast") return `${first[0]}${last}`;
+  if (pattern === "f.last") return `${first[0]}.${last}`;
+  if (pattern === "firstlast") return `${first}${last}`;
+  return null;
+}
+
+// 2. WHICH PATTERN PRODUCED A KNOWN ADDRESS?
+export function detectPattern(email: string, contactName?: string): EmailPattern | null {
+  const local = (email || "").toLowerCase().split("@")[0];
+  if (!local) return null;
+  if (local === "info" || local === "sales" || local === "contact") return local;
+
+  const name = splitName(contactName);
+  const patterns = Object.keys(PERSON_PRIORS) as EmailPattern[];
+  return patterns.find(p => buildLocalPart(p, name) === local) || null;
+}
+
+// 3. LEARN FROM KNOWN ADDRESSES (rawEmail + contactName on existing leads)
+export function learnDomainPatterns(known: { rawEmail?: string; contactName?: string }[]): DomainPatternStats {
+  const stats: DomainPatternStats = {};
+  known.forEach(({ rawEmail, contactName }) => {
+    if (!rawEmail || !rawEmail.includes("@")) return;
+    const domain = rawEmail.toLowerCase().split("@")[1].replace(/^www\./, "");
+    const pattern = detectPattern(rawEmail, contactName);
+    if (!pattern) return;
+    stats[domain] = stats[domain] || {};
+    stats[domain][pattern] = (stats[domain][pattern] || 0) + 1;
+  });
+  return stats;
+}
+
+// 4. RANKED CANDIDATES
+export function generateEmailCandidates(contactName: string | undefined, domain: string, stats: DomainPatternStats = {}): EmailCandidate[] {
+  const cleanDomain = (domain || "").toLowerCase().replace(/^www\./, "");
+  if (!cleanDomain || cleanDomain === "google.com" || cleanDomain === "instagram.com") return [];
+
+  const name = splitName(contactName);
+  const priors = name ? { ...PERSON_PRIORS, ...ROLE_PRIORS } : ROLE_ONLY_PRIORS;
+  const learned = stats[cleanDomain] || {};
+  const learnedTotal = Object.values(learned).reduce((sum, n) => sum + (n || 0), 0);
+
+  // Each known address counts like one full observation on top of the prior
+  const scored = (Object.keys(priors) as EmailPattern[]).map(pattern => {
+    const local = buildLocalPart(pattern, name);
+    if (!local) return null;
+    const count = learned[pattern] || 0;
+    const weight = (priors[pattern] + count) / (1 + learnedTotal);
+    return { email: `${local}@${cleanDomain}`, pattern, weight, learned: count > 0 };
+  }).filter((c): c is NonNullable<typeof c> => c !== null);
+
+  const total = scored.reduce((sum, c) => sum + c.weight, 0) || 1;
+  return scored
+    .map(c => ({ email: c.email, pattern: c.pattern, learned: c.learned, confidence: Math.round((c.weight / total) * 100) }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,100 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import net from "net";
+import { createSmtpProber, MxResolver, ProbeResult, SmtpProber, verifyEmail } from "./emailVerification";
+
+const mxOf = (exchange: string): MxResolver => async () => [{ exchange, priority: 10 }];
+const dnsError = (code: string): MxResolver => async () => { throw Object.assign(new Error(code), { code }); };
+
+// Answers RCPT TO per mailbox; anything not listed gets `otherwise`
+const prober = (replies: Record<string, ProbeResult>, otherwise: ProbeResult): SmtpProber =>
+  async (_mx, email) => replies[email] || otherwise;
+const rcpt = (code: number, message = `${code}`): ProbeResult => ({ code, message, stage: "RCPT TO" });
+
+test("a domain without a mail server is invalid", async () => {
+  const result = await verifyEmail("sales@nomail.test", { resolveMx: dnsError("ENODATA") });
+  assert.equal(result.status, "invalid");
+  assert.match(result.reason, /No mail server/);
+
+  const empty = await verifyEmail("sales@nomail.test", { resolveMx: async () => [] });
+  assert.equal(empty.status, "invalid");
+});
+
+test("a DNS failure is unknown, not invalid", async () => {
+  const result = await verifyEmail("anna@shop.test", { resolveMx: dnsError("ETIMEOUT") });
+  assert.equal(result.status, "unknown");
+});
+
+test("RCPT 550 marks the mailbox invalid", async () => {
+  const result = await verifyEmail("anna@shop.test", { resolveMx: mxOf("mx.shop.test"), probe: prober({}, rcpt(550, "550 no such user")) });
+  assert.equal(result.status, "invalid");
+  assert.equal(result.mx, "mx.shop.test");
+});
+
+test("a 5xx before RCPT TO is inconclusive, not invalid", async () => {
+  for (const stage of ["greeting", "EHLO", "MAIL FROM"] as const) {
+    const result = await verifyEmail("anna@shop.test", {
+      resolveMx: mxOf("mx.shop.test"),
+      probe: prober({}, { code: 554, message: "554 your IP is blocklisted", stage })
+    });
+    assert.equal(result.status, "risky", stage);
+    assert.match(result.reason, new RegExp(`${stage}: 554 your IP is blocklisted`));
+  }
+});
+
+test("a mailbox the server accepts is valid, unless the domain takes any mailbox", async () => {
+  const real = await verifyEmail("anna@shop.test", { resolveMx: mxOf("mx.shop.test"), probe: prober({ "anna@shop.test": rcpt(250) }, rcpt(550)) });
+  assert.equal(real.status, "valid");
+  assert.equal(real.isCatchAll, false);
+
+  const catchAll = await verifyEmail("anna@shop.test", { resolveMx: mxOf("mx.shop.test"), probe: prober({}, rcpt(250)) });
+  assert.equal(catchAll.status, "risky");
+  assert.equal(catchAll.isCatchAll, true);
+});
+
+test("a probe that times out is inconclusive", async () => {
+  const result = await verifyEmail("anna@shop.test", { resolveMx: mxOf("mx.shop.test"), probe: prober({}, { code: 0, message: "Timed out", stage: "greeting" }) });
+  assert.equal(result.status, "risky");
+});
+
+// --- The default prober against a local SMTP stand-in ---
+let mailFromReply = "250 ok";
+const seen: string[] = [];
+const server = net.createServer(socket => {
+  socket.write("220 stand-in ready\r\n");
+  socket.on("data", chunk => chunk.toString().split("\r\n").filter(Boolean).forEach(line => {
+    seen.push(line);
+    if (line.startsWith("EHLO")) socket.write("250-stand-in\r\n250 SIZE 1000\r\n");
+    else if (line.startsWith("MAIL FROM")) socket.write(`${mailFromReply}\r\n`);
+    else if (line.startsWith("RCPT TO")) socket.write(line.includes("anna@") ? "250 ok\r\n" : "550 no such user\r\n");
+    else if (line === "QUIT") socket.end("221 bye\r\n");
+  }));
+});
+let port = 0;
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  port = (server.address() as net.AddressInfo).port;
+});
+after(() => server.close());
+
+test("the SMTP prober reports which command the reply answered", async () => {
+  const probe = createSmtpProber({ port, mailFrom: "Gem Desk <desk@caratbridge.test>", timeoutMs: 2000 });
+
+  mailFromReply = "250 ok";
+  assert.deepEqual(await probe("127.0.0.1", "anna@shop.test"), { code: 250, message: "250 ok", stage: "RCPT TO" });
+  assert.deepEqual(await probe("127.0.0.1", "bob@shop.test"), { code: 550, message: "550 no such user", stage: "RCPT TO" });
+  assert.ok(seen.includes("MAIL FROM:<desk@caratbridge.test>")); // Bare address in the envelope
+
+  mailFromReply = "550 sender refused by policy";
+  assert.deepEqual(await probe("127.0.0.1", "anna@shop.test"), { code: 550, message: "550 sender refused by policy", stage: "MAIL FROM" });
+});
+
+test("the SMTP prober gives up on a silent server", async () => {
+  const silent = net.createServer(() => {});
+  await new Promise<void>(resolve => silent.listen(0, "127.0.0.1", resolve));
+  const probe = createSmtpProber({ port: (silent.address() as net.AddressInfo).port, timeoutMs: 200 });
+  const result = await probe("127.0.0.1", "anna@shop.test");
+  silent.close();
+  assert.deepEqual(result, { code: 0, message: "Timed out", stage: "greeting" });
+});
@@ -0,0 +1,196 @@
+import dns from 'dns';
+import net from 'net';
+import { LeadStatus } from './types';
+
+// --- PLUGGABLE NETWORK PARTS (swap in a local resolver / SMTP stand-in for tests) ---
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
+export type MxResolver = (domain: string) => Promise<MxRecord[]>;
+
+// Which command the last reply answered: only a RCPT TO refusal says anything about the mailbox
+export type ProbeStage = "greeting" | "EHLO" | "MAIL FROM" | "RCPT TO";
+
+export interface ProbeResult {
+  code: number; // SMTP reply code (0 = no answer)
+  message: string;
+  stage: ProbeStage;
+}
+
+export type SmtpProber = (mxHost: string, email: string) => Promise<ProbeResult>;
+
+export interface VerifyOptions {
+  resolveMx?: MxResolver;
+  probe?: SmtpProber | false; // false = skip the RCPT probe
+}
+
+export interface VerificationResult {
+  email: string;
+  status: LeadStatus;
+  reason: string;
+  mx?: string;
+  isRole: boolean;
+  isDisposable: boolean;
+  isCatchAll?: boolean;
+  checkedAt: string;
+}
+
+const EMAIL_SYNTAX = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+const ROLE_PREFIXES = [
+  "info", "sales", "contact", "hello", "admin", "office", "support", "enquiries", "enquiry",
+  "inquiries", "help", "team", "mail", "marketing", "orders", "shop", "store", "service", "noreply", "no-reply"
+];
+
+const DISPOSABLE_DOMAINS = [
+  "mailinator.com", "guerrillamail.com", "10minutemail.com", "tempmail.com", "temp-mail.org",
+  "yopmail.com", "trashmail.com", "getnada.com", "sharklasers.com", "dispostable.com", "maildrop.cc", "throwawaymail.com"
+];
+
+// 1. DEFAULT DNS (system resolver, or specific servers e.g. ["127.0.0.1:5353"])
+export function createMxResolver(servers?: string[]): MxResolver {
+  const resolver = new dns.promises.Resolver();
+  if (servers && servers.length > 0) resolver.setServers(servers);
+  return async (domain) => {
+    try {
+      return await resolver.resolveMx(domain);
+    } catch (e: any) {
+      if (e.code !== "ENODATA") throw e;
+      // No MX record: RFC 5321 "implicit MX", mail goes to the domain's own A / AAAA address
+      const hasAddress = async (lookup: (d: string) => Promise<string[]>) => (await lookup(domain).catch(() => [])).length > 0;
+      if (await hasAddress(d => resolver.resolve4(d)) || await hasAddress(d => resolver.resolve6(d))) {
+        return [{ exchange: domain, priority: 0 }];
+      }
+      throw e;
+    }
+  };
+}
+
+// "Name <a@b.com>" → "a@b.com" (the envelope only takes the bare address)
+const bareAddress = (from: string) => (from.match(/<([^>]+)>/)?.[1] || from).trim();
+
+// 2. DEFAULT SMTP PROBE: EHLO → MAIL FROM → RCPT TO, then QUIT (nothing is sent)
+export function createSmtpProber(options: { port?: number; heloHost?: string; mailFrom?: string; timeoutMs?: number } = {}): SmtpProber {
+  const port = options.port || 25;
+  const heloHost = options.heloHost || "caratbridge.com";
+  const mailFrom = options.mailFrom ? bareAddress(options.mailFrom) : `verify@${heloHost}`;
+  const timeoutMs = options.timeoutMs || 10000;
+
+  return (mxHost, email) => new Promise((resolve) => {
+    const socket = net.createConnection({ host: mxHost, port });
+    const steps: { stage: ProbeStage; command?: string }[] = [
+      { stage: "greeting" },
+      { stage: "EHLO", command: `EHLO ${heloHost}` },
+      { stage: "MAIL FROM", command: `MAIL FROM:<${mailFrom}>` },
+      { stage: "RCPT TO", command: `RCPT TO:<${email}>` }
+    ];
+    let step = 0; // The reply we are waiting for
+    let buffer = "";
+    let done = false;
+
+    const finish = (result: Omit<ProbeResult, "stage">) => {
+      if (done) return;
+      done = true;
+      try { socket.write("QUIT\r\n"); } catch (e) {}
+      socket.destroy();
+      resolve({ ...result, stage: steps[step].stage });
+    };
+
+    socket.setTimeout(timeoutMs, () => finish({ code: 0, message: "Timed out" }));
+    socket.on('error', (e) => finish({ code: 0, message: e.message }));
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      // Wait for the last line of a (possibly multi-line) reply: "250 ok" not "250-..."
+      const lines = buffer.split("\r\n").filter(Boolean);
+      const last = lines[lines.length - 1];
+      if (!last || !/^\d{3} /.test(last) || !buffer.endsWith("\r\n")) return;
+      buffer = "";
+
+      const code = parseInt(last.slice(0, 3), 10);
+      if (code >= 400 || step === steps.length - 1) return finish({ code, message: last });
+      step++;
+      socket.write(steps[step].command + "\r\n");
+    });
+  });
+}
+
+// 3. OFFLINE CHECKS (no network): syntax, disposable, role
+export function checkEmailOffline(email: string): VerificationResult {
+  const clean = (email || "").trim().toLowerCase();
+  const [local, domain] = clean.split("@");
+  const isRole = ROLE_PREFIXES.includes((local || "").split("+")[0]);
+  const isDisposable = DISPOSABLE_DOMAINS.includes(domain || "");
+  const base = { email: clean, isRole, isDisposable, checkedAt: new Date().toISOString() };
+
+  if (!EMAIL_SYNTAX.test(clean)) return { ...base, status: "invalid", reason: "Invalid syntax" };
+  if (isDisposable) return { ...base, status: "invalid", reason: "Disposable email domain" };
+  if (isRole) return { ...base, status: "risky", reason: `Role address (${local}@), not a person` };
+  return { ...base, status: "unknown", reason: "Syntax OK, mail server not checked" };
+}
+
+// 4. FULL VERIFICATION
+export async function verifyEmail(email: string, options: VerifyOptions = {}): Promise<VerificationResult> {
+  const offline = checkEmailOffline(email);
+  if (offline.status === "invalid") return offline;
+
+  const resolveMx = options.resolveMx || createMxResolver();
+  const domain = offline.email.split("@")[1];
+
+  // MX LOOKUP
+  let records: MxRecord[] = [];
+  try {
+    records = await resolveMx(domain);
+  } catch (e: any) {
+    if (e.code === "ENOTFOUND" || e.code === "ENODATA") {
+      return { ...offline, status: "invalid", reason: `No mail server for ${domain}` };
+    }
+    return { ...offline, status: "unknown", reason: `DNS lookup failed (${e.code || e.message})` };
+  }
+  const mx = records.filter(r => r.exchange).sort((a, b) => a.priority - b.priority)[0];
+  if (!mx) return { ...offline, status: "invalid", reason: `No mail server for ${domain}` };
+
+  const withMx = { ...offline, mx: mx.exchange };
+  if (!options.probe) {
+    if (offline.isRole) return { ...withMx, reason: `${offline.reason}; domain accepts mail` };
+    return { ...withMx, status: "valid", reason: `Domain accepts mail (MX ${mx.exchange})` };
+  }
+
+  // SMTP RCPT PROBE (+ catch-all check with a random mailbox)
+  // A refusal before RCPT TO (blocklisted IP, sender policy, "554 no SMTP service") is about us, not the mailbox
+  const probe = await options.probe(mx.exchange, offline.email);
+  const accepted = (r: ProbeResult) => r.stage === "RCPT TO" && (r.code === 250 || r.code === 251);
+  if (probe.stage === "RCPT TO" && probe.code >= 500) {
+    return { ...withMx, status: "invalid", reason: `Mailbox rejected: ${probe.message}` };
+  }
+  if (!accepted(probe)) {
+    return { ...withMx, status: "risky", reason: `Probe inconclusive at ${probe.stage}: ${probe.message || probe.code}` };
+  }
+
+  const randomBox = `cb-${Math.random().toString(36).substr(2, 10)}@${domain}`;
+  const catchAll = await options.probe(mx.exchange, randomBox);
+  if (catchAll.stage !== "RCPT TO") {
+    return { ...withMx, status: "risky", reason: `Mailbox accepted; catch-all check inconclusive at ${catchAll.stage}: ${catchAll.message || catchAll.code}` };
+  }
+  if (accepted(catchAll)) {
+    return { ...withMx, status: "risky", isCatchAll: true, reason: "Catch-all domain: accepts any mailbox" };
+  }
+  if (offline.isRole) return { ...withMx, reason: `${offline.reason}; mailbox exists` };
+  return { ...withMx, status: "valid", isCatchAll: false, reason: "Mailbox accepted by mail server" };
+}
+
+// 5. BULK (small worker pool so we don't hammer DNS / mail servers)
+export async function verifyEmails(emails: string[], options: VerifyOptions = {}, concurrency = 5) {
+  const results = new Map<string, VerificationResult>();
+  const queue = Array.from(new Set(emails.map(e => e.trim().toLowerCase()).filter(Boolean)));
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const email = queue.shift()!;
+      results.set(email, await verifyEmail(email, options));
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  return results;
+}
@@ -0,0 +1,248 @@
+import ExcelJS from "exceljs";
+import { Lead, OutreachLog, PipelineStage, SequenceEnrollment } from "./types";
+import { HUBSPOT_LEAD_STATUS, splitName } from "./crm/mapping";
+import { getEnrollments, getLeads, getListLeads, getOutreachLogs, getSequences, getSuppression, LeadQuery, Suppression } from "./db";
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "vcard" | "hubspot" | "salesforce";
+
+// What to export: a saved list, a stored-lead filter, or rows the client has on screen
+export interface ExportScope {
+  listId?: string;
+  filter?: LeadQuery;
+  leads?: Lead[]; // Stored copies win where they exist (fresher stage, notes and verification)
+}
+
+// Outreach history of one lead, looked up by id and by email address
+interface LeadActivity {
+  logs: OutreachLog[]; // Newest first
+  enrollments: SequenceEnrollment[];
+  suppression?: Suppression;
+  sequenceNames: Map<string, string>;
+}
+
+type Cell = string | number | undefined;
+
+interface ExportColumn {
+  id: string;
+  label: string;
+  value: (lead: Lead, activity: LeadActivity) => Cell;
+}
+
+const emailOf = (lead: Lead) => lead.rawEmail || lead.predictedEmail;
+
+function outreachStatus({ logs, enrollments, suppression }: LeadActivity) {
+  if (suppression) return `Suppressed (${suppression.reason})`;
+  const sent = logs.filter(l => l.status === "sent").length;
+  if (enrollments.some(e => e.status === "active")) return `In sequence (${sent} sent)`;
+  if (sent > 0) return `Contacted (${sent} sent)`;
+  if (logs.length > 0) return "Send failed";
+  return "Not contacted";
+}
+
+// 1. COLUMNS (the order here is the order in the file)
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: "companyName", label: "Company", value: l => l.companyName },
+  { id: "contactName", label: "Contact Name", value: l => l.contactName },
+  { id: "contactRole", label: "Contact Role", value: l => l.contactRole },
+  { id: "email", label: "Email", value: emailOf },
+  { id: "emailKind", label: "Email Source", value: l => (l.rawEmail ? "Found" : l.predictedEmail ? "Predicted" : undefined) },
+  { id: "emailVerificationStatus", label: "Verification", value: l => (emailOf(l) ? l.emailVerificationStatus : undefined) },
+  { id: "emailVerificationReason", label: "Verification Detail", value: l => l.emailVerificationReason },
+  { id: "emailVerifiedAt", label: "Verified At", value: l => l.emailVerifiedAt },
+  { id: "phone", label: "Phone", value: l => l.phone },
+  { id: "website", label: "Website", value: l => (l.website && l.website !== "#" ? l.website : undefined) },
+  { id: "domain", label: "Domain", value: l => l.domain },
+  { id: "address", label: "Address", value: l => l.address },
+  { id: "region", label: "City/Region", value: l => l.region },
+  { id: "country", label: "Country", value: l => l.country },
+  { id: "businessType", label: "Business Type", value: l => l.businessType },
+  { id: "category", label: "Category", value: l => l.category },
+  { id: "rating", label: "Rating", value: l => l.rating },
+  { id: "reviewCount", label: "Reviews", value: l => l.reviewCount },
+  { id: "score", label: "Score", value: l => l.score },
+  { id: "stage", label: "Stage", value: l => l.stage || "New" },
+  { id: "tags", label: "Tags", value: l => (l.tags || []).join("; ") },
+  { id: "userNotes", label: "Team Notes", value: l => (l.userNotes || []).map(n => `[${n.createdAt.slice(0, 10)}] ${n.text}`).join("\n") },
+  { id: "notes", label: "Source Notes", value: l => l.notes },
+  { id: "caption", label: "Caption", value: l => l.caption },
+  { id: "postClasses", label: "Post Classes", value: l => l.captionDetails?.classes.join("; ") },
+  { id: "whatsapp", label: "WhatsApp", value: l => l.captionDetails?.whatsapp.join("; ") },
+  { id: "captionLinks", label: "Caption Links", value: l => (l.captionDetails ? [...l.captionDetails.linkPages, ...l.captionDetails.websites].join("; ") : undefined) },
+  { id: "outreachStatus", label: "Outreach Status", value: (_, a) => outreachStatus(a) },
+  { id: "emailsSent", label: "Emails Sent", value: (_, a) => a.logs.filter(l => l.status === "sent").length },
+  { id: "lastContactedAt", label: "Last Contacted", value: (_, a) => a.logs.find(l => l.status === "sent")?.sentAt },
+  { id: "sequence", label: "Sequence", value: (_, a) => a.enrollments.map(e => `${a.sequenceNames.get(e.sequenceId) || e.sequenceId} (${e.status}${e.stopReason ? `: ${e.stopReason}` : ""})`).join("; ") },
+  { id: "source", label: "Source", value: l => l.source },
+  { id: "sourceQuery", label: "Source Query", value: l => l.sourceQuery },
+  { id: "postUrl", label: "Post URL", value: l => l.postUrl },
+  { id: "postedAt", label: "Posted At", value: l => l.postedAt },
+  { id: "capturedAt", label: "Captured At", value: l => l.capturedAt },
+  { id: "id", label: "Lead ID", value: l => l.id }
+];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  "companyName", "contactName", "email", "emailVerificationStatus", "phone", "website", "region", "country",
+  "score", "stage", "tags", "outreachStatus", "lastContactedAt", "source", "sourceQuery"
+];
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; usesColumns: boolean }[] = [
+  { id: "csv", label: "CSV", usesColumns: true },
+  { id: "xlsx", label: "Excel (.xlsx)", usesColumns: true },
+  { id: "json", label: "JSON", usesColumns: true },
+  { id: "vcard", label: "vCard (.vcf)", usesColumns: false },
+  { id: "hubspot", label: "HubSpot import CSV", usesColumns: false },
+  { id: "salesforce", label: "Salesforce import CSV", usesColumns: false }
+];
+
+// 2. WHICH LEADS
+export function resolveExportLeads(scope: ExportScope): Lead[] {
+  if (scope.listId) return getListLeads(scope.listId);
+  if (scope.leads) {
+    const stored = new Map(getLeads({ ids: scope.leads.map(l => l.id) }).map(l => [l.id, l]));
+    return scope.leads.map(l => stored.get(l.id) || l);
+  }
+  return getLeads(scope.filter || {});
+}
+
+function loadActivity(leads: Lead[]) {
+  const sequenceNames = new Map(getSequences().map(s => [s.id, s.name]));
+  return leads.map(lead => {
+    const email = emailOf(lead);
+    return {
+      logs: getOutreachLogs({ leadId: lead.id, email }),
+      enrollments: getEnrollments({ leadId: lead.id, email }),
+      suppression: email ? getSuppression(email) : undefined,
+      sequenceNames
+    };
+  });
+}
+
+// 3. CRM LAYOUTS (their import wizards map these headers without manual matching)
+const SALESFORCE_LEAD_STATUS: Record<PipelineStage, string> = {
+  New: "Open - Not Contacted", Qualified: "Open - Not Contacted", Contacted: "Working - Contacted", Replied: "Working - Contacted",
+  Meeting: "Working - Contacted", Won: "Closed - Converted", Lost: "Closed - Not Converted"
+};
+
+const CRM_LAYOUTS: Record<"hubspot" | "salesforce", { header: string; value: (lead: Lead) => Cell }[]> = {
+  hubspot: [
+    { header: "First Name", value: l => splitName(l.contactName).first },
+    { header: "Last Name", value: l => splitName(l.contactName).last },
+    { header: "Email", value: emailOf },
+    { header: "Phone Number", value: l => l.phone },
+    { header: "Job Title", value: l => l.contactRole },
+    { header: "Company Name", value: l => l.companyName },
+    { header: "Website URL", value: l => (l.website !== "#" ? l.website : undefined) },
+    { header: "Street Address", value: l => l.address },
+    { header: "City", value: l => l.region },
+    { header: "Country/Region", value: l => l.country },
+    { header: "Industry", value: l => l.category || l.businessType },
+    { header: "Lead Status", value: l => HUBSPOT_LEAD_STATUS[l.stage || "New"] },
+    { header: "Lifecycle Stage", value: l => (l.stage === "Won" ? "customer" : "lead") }
+  ],
+  salesforce: [
+    { header: "First Name", value: l => splitName(l.contactName).first },
+    { header: "Last Name", value: l => splitName(l.contactName).last || l.companyName }, // Required by Salesforce
+    { header: "Company", value: l => l.companyName },
+    { header: "Title", value: l => l.contactRole },
+    { header: "Email", value: emailOf },
+    { header: "Phone", value: l => l.phone },
+    { header: "Website", value: l => (l.website !== "#" ? l.website : undefined) },
+    { header: "Street", value: l => l.address },
+    { header: "City", value: l => l.region },
+    { header: "Country", value: l => l.country },
+    { header: "Industry", value: l => l.category || l.businessType },
+    { header: "Lead Source", value: l => l.source },
+    { header: "Lead Status", value: l => SALESFORCE_LEAD_STATUS[l.stage || "New"] },
+    { header: "Rating", value: l => (l.score >= 70 ? "Hot" : l.score >= 40 ? "Warm" : "Cold") },
+    { header: "Description", value: l => [l.notes, ...(l.userNotes || []).map(n => n.text)].filter(Boolean).join("\n") }
+  ]
+};
+
+// 4. WRITERS
+// Text starting like a formula ("=HYPERLINK(…)" in a caption) would run when the sheet is opened.
+// Phone numbers ("+971 4 …") and negative numbers stay as they are: digits alone can't call anything
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PHONE_OR_NUMBER = /^[+-][\d\s().-]+$/;
+const isFormulaLike = (value: Cell): value is string =>
+  typeof value === "string" && FORMULA_START.test(value) && !PHONE_OR_NUMBER.test(value);
+
+const csvCell = (value: Cell) => {
+  if (value === undefined || value === "") return '""';
+  const text = isFormulaLike(value) ? `'${value}` : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+// "\ufeff" makes Excel read the file as UTF-8 (Japanese/Arabic names)
+const toCsv = (headers: string[], rows: Cell[][]) =>
+  "\ufeff" + [headers.map(csvCell).join(","), ...rows.map(r => r.map(csvCell).join(","))].join("\r\n");
+
+const vcardText = (value: Cell) => String(value ?? "").replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/([,;])/g, "\\$1");
+
+function toVcard(leads: Lead[]) {
+  return leads.map(l => {
+    const email = emailOf(l);
+    const lines = [
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      `FN:${vcardText(l.contactName || l.companyName)}`,
+      `N:${vcardText(splitName(l.contactName).last)};${vcardText(splitName(l.contactName).first)};;;`,
+      `ORG:${vcardText(l.companyName)}`,
+      l.contactRole && `TITLE:${vcardText(l.contactRole)}`,
+      email && `EMAIL;TYPE=INTERNET,WORK:${email}`,
+      l.phone && `TEL;TYPE=WORK,VOICE:${vcardText(l.phone)}`,
+      l.website && l.website !== "#" && `URL:${l.website}`,
+      (l.address || l.region || l.country) && `ADR;TYPE=WORK:;;${vcardText(l.address)};${vcardText(l.region)};;;${vcardText(l.country)}`,
+      l.tags?.length && `CATEGORIES:${l.tags.map(vcardText).join(",")}`,
+      l.notes && `NOTE:${vcardText(l.notes)}`,
+      "END:VCARD"
+    ];
+    return lines.filter(Boolean).join("\r\n");
+  }).join("\r\n");
+}
+
+async function toXlsx(headers: string[], rows: Cell[][]) {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Leads", { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.addRow(headers).font = { bold: true };
+  rows.forEach(r => {
+    const row = sheet.addRow(r.map(v => (v === undefined ? null : v)));
+    // Strings are written as plain text, never as formulas; the "@" format keeps them text after an edit too
+    r.forEach((v, i) => { if (isFormulaLike(v)) row.getCell(i + 1).numFmt = "@"; });
+  });
+  sheet.columns.forEach((column, i) => {
+    const longest = Math.max(headers[i].length, ...rows.map(r => String(r[i] ?? "").split("\n")[0].length));
+    column.width = Math.min(Math.max(longest + 2, 8), 50);
+  });
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export interface ExportFile {
+  body: string | Buffer;
+  contentType: string;
+  extension: string;
+}
+
+// 5. EXPORT (unknown column ids are ignored; none selected = the defaults)
+export async function exportLeads(leads: Lead[], format: ExportFormat, columnIds: string[] = DEFAULT_EXPORT_COLUMNS): Promise<ExportFile> {
+  if (format === "vcard") return { body: toVcard(leads), contentType: "text/vcard; charset=utf-8", extension: "vcf" };
+  if (format === "hubspot" || format === "salesforce") {
+    const layout = CRM_LAYOUTS[format];
+    const rows = leads.map(lead => layout.map(c => c.value(lead)));
+    return { body: toCsv(layout.map(c => c.header), rows), contentType: "text/csv; charset=utf-8", extension: "csv" };
+  }
+
+  let columns = EXPORT_COLUMNS.filter(c => columnIds.includes(c.id));
+  if (columns.length === 0) columns = EXPORT_COLUMNS.filter(c => DEFAULT_EXPORT_COLUMNS.includes(c.id));
+  const activity = loadActivity(leads);
+  const rows = leads.map((lead, i) => columns.map(c => c.value(lead, activity[i])));
+  const headers = columns.map(c => c.label);
+
+  if (format === "json") {
+    const records = rows.map(r => Object.fromEntries(columns.map((c, i) => [c.id, r[i] ?? null])));
+    return { body: JSON.stringify(records, null, 2), contentType: "application/json", extension: "json" };
+  }
+  if (format === "xlsx") {
+    return { body: await toXlsx(headers, rows), contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", extension: "xlsx" };
+  }
+  return { body: toCsv(headers, rows), contentType: "text/csv; charset=utf-8", extension: "csv" };
+}
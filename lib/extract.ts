@@ -0,0 +1,98 @@
+// Contact extraction helpers shared by the website crawler and caption parsing.
+
+import { NamedContact, SocialHandles } from "./types";
+
+const EMAIL_REGEX = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const ASSET_SUFFIX = /\.(png|jpe?g|gif|webp|svg|css|js)$/i;
+
+// 1. HTML → PLAIN TEXT
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<script[\s\S]*?<\/script>/gi, " ")
+    .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&#64;|&commat;/g, "@")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*/g, "\n")
+    .trim();
+}
+
+// 2. LINKS (href values, resolved against the page URL)
+export function extractLinks(html: string, baseUrl: string): { href: string; text: string }[] {
+  const links: { href: string; text: string }[] = [];
+  const anchor = /<a\b[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+  let match;
+  while ((match = anchor.exec(html))) {
+    try {
+      links.push({ href: new URL(match[1], baseUrl).toString(), text: htmlToText(match[2]) });
+    } catch (e) {}
+  }
+  return links;
+}
+
+// 3. EMAILS (plain text, mailto: links and "name [at] domain [dot] com")
+export function extractEmails(text: string): string[] {
+  const deobfuscated = text
+    .replace(/\s*[\[(]\s*at\s*[\])]\s*/gi, "@")
+    .replace(/\s*[\[(]\s*dot\s*[\])]\s*/gi, ".");
+  const found = (deobfuscated.match(EMAIL_REGEX) || [])
+    .map(e => e.toLowerCase().replace(/^mailto:/, "").replace(/\.+$/, ""))
+    .filter(e => !ASSET_SUFFIX.test(e) && !e.includes("example.com") && !e.endsWith("sentry.io"));
+  return Array.from(new Set(found));
+}
+
+// 4. PHONES (international format, tel: links)
+export function extractPhones(text: string): string[] {
+  const candidates = text.match(/(?:tel:)?\+?\d[\d\s().-]{7,}\d/g) || [];
+  const phones = candidates
+    .map(p => p.replace(/^tel:/, "").trim())
+    .filter(p => {
+      const digits = p.replace(/\D/g, "");
+      // Skip dates, years and prices that happen to be long digit runs
+      return digits.length >= 8 && digits.length <= 15 && !/^\d{4}-\d{2}-\d{2}/.test(p);
+    })
+    .map(p => (p.startsWith("+") ? "+" : "") + p.replace(/\D/g, ""));
+  return Array.from(new Set(phones));
+}
+
+// 5. WHATSAPP (wa.me / api.whatsapp.com links → number)
+export function extractWhatsApp(text: string): string[] {
+  const numbers: string[] = [];
+  const pattern = /(?:wa\.me\/|api\.whatsapp\.com\/send\?phone=|whatsapp\.com\/send\?phone=)\+?(\d{7,15})/gi;
+  let match;
+  while ((match = pattern.exec(text))) numbers.push(`+${match[1]}`);
+  return Array.from(new Set(numbers));
+}
+
+// 6. SOCIAL PROFILES
+export function extractSocialHandles(text: string): SocialHandles {
+  const handles: SocialHandles = {};
+  const ig = text.match(/instagram\.com\/([a-z0-9._]{2,30})/i);
+  if (ig && !["p", "explore", "reel", "accounts"].includes(ig[1].toLowerCase())) handles.instagram = ig[1];
+  const fb = text.match(/facebook\.com\/([a-z0-9.\-]{2,60})/i);
+  if (fb && !["sharer", "share", "tr", "plugins"].includes(fb[1].toLowerCase())) handles.facebook = fb[1];
+  const li = text.match(/linkedin\.com\/((?:company|in)\/[a-z0-9\-_%]{2,100})/i);
+  if (li) handles.linkedin = li[1];
+  return handles;
+}
+
+// 7. NAMED CONTACTS ("Jane Doe – Founder", "Owner: Jane Doe")
+const ROLE = "(Co-Founder|Founder|CEO|Owner|Managing Director|Director|General Manager|Store Manager|Sales Manager|Manager|Head Buyer|Buyer|Head of [A-Z][a-z]+|Proprietor|President)";
+const NAME = "([A-Z][a-z]+(?: [A-Z][a-z'-]+){1,2})";
+
+export function extractNamedContacts(text: string): NamedContact[] {
+  const contacts: NamedContact[] = [];
+  const nameThenRole = new RegExp(`${NAME}\\s*(?:,|-|–|—|\\||:|\\()\\s*${ROLE}`, "g");
+  const roleThenName = new RegExp(`${ROLE}\\s*(?::|-|–|—)\\s*${NAME}`, "g");
+  let match;
+  while ((match = nameThenRole.exec(text))) contacts.push({ name: match[1], role: match[2] });
+  while ((match = roleThenName.exec(text))) contacts.push({ name: match[2], role: match[1] });
+
+  const seen = new Set<string>();
+  return contacts.filter(c => !seen.has(c.name) && !!seen.add(c.name));
+}
@@ -0,0 +1,275 @@
+import ExcelJS from "exceljs";
+import { Lead } from "./types";
+import { addLeadsToList, createListWithLeads, findStoredDuplicate, getScoringRules } from "./db";
+import { checkEmailOffline } from "./emailVerification";
+import { classifyBusinessType } from "./leadModel";
+import { dedupeLeads } from "./dedupe";
+import { normalizeTags } from "./notes";
+import { scoreLeads } from "./scoring";
+
+export interface Sheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// Lead fields a spreadsheet column can fill; aliases are compared without case, spaces or punctuation
+export const IMPORT_FIELDS = [
+  { field: "companyName", label: "Company", aliases: ["company", "companyname", "business", "businessname", "name", "organisation", "organization", "account", "store", "firm"] },
+  { field: "contactName", label: "Contact Name", aliases: ["contact", "contactname", "fullname", "person", "contactperson", "buyer"] },
+  { field: "contactRole", label: "Contact Role", aliases: ["role", "title", "jobtitle", "position", "designation"] },
+  { field: "rawEmail", label: "Email", aliases: ["email", "emailaddress", "mail", "email1", "workemail"] },
+  { field: "phone", label: "Phone", aliases: ["phone", "phonenumber", "telephone", "tel", "mobile", "cell", "whatsapp"] },
+  { field: "website", label: "Website", aliases: ["website", "web", "url", "site", "homepage", "domain"] },
+  { field: "country", label: "Country", aliases: ["country", "countrycode", "nation"] },
+  { field: "region", label: "Region / City", aliases: ["region", "city", "state", "area", "location", "town"] },
+  { field: "address", label: "Address", aliases: ["address", "streetaddress", "street", "fulladdress"] },
+  { field: "category", label: "Category", aliases: ["category", "type", "businesstype", "industry", "segment"] },
+  { field: "notes", label: "Notes", aliases: ["notes", "note", "comments", "comment", "remarks", "description"] },
+  { field: "tags", label: "Tags", aliases: ["tags", "tag", "labels", "event", "show", "tradeshow"] }
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number]["field"];
+
+// One entry per column: the field it fills, or null to ignore it
+export type ColumnMapping = (ImportField | null)[];
+
+export interface RowIssue {
+  row: number; // 1-based, as shown in the spreadsheet (header row = 1)
+  message: string;
+  rejected?: boolean; // The row was left out
+}
+
+// 1. PARSE (CSV or the first worksheet of an XLSX file)
+export async function parseSpreadsheet(data: Buffer, fileName: string): Promise<Sheet> {
+  const table = /\.xlsx$/i.test(fileName) ? await readWorkbook(data) : parseCsv(data.toString("utf-8"));
+  const [headerRow = [], ...rows] = table.filter(r => r.some(cell => cell.trim() !== ""));
+  const headers = headerRow.map((h, i) => h.trim() || `Column ${i + 1}`);
+  return { headers, rows: rows.map(r => headers.map((_, i) => (r[i] || "").trim())) };
+}
+
+async function readWorkbook(data: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  // ExcelJS types its input as an ArrayBuffer; a copy gives one without a cast
+  await workbook.xlsx.load(new Uint8Array(data).buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const table: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    // cell.text is what Excel displays (hyperlinks, formulas and dates come out as text)
+    row.eachCell({ includeEmpty: true }, (cell, col) => { cells[col - 1] = cell.text || ""; });
+    table[rowNumber - 1] = Array.from(cells, c => c || "");
+  });
+  return Array.from(table, r => r || []);
+}
+
+// RFC 4180: quoted fields may hold the delimiter, newlines and "" escapes
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.split(/\r?\n/)[0] || "";
+  // Excel in many locales saves with ";"; exports from some tools use tabs
+  const delimiter = [",", ";", "\t"]
+    .map(d => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) rows.push([...row, field]);
+  return rows;
+}
+
+// 2. GUESS THE MAPPING FROM THE HEADERS (each field is used once; exact aliases first)
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const keys = headers.map(headerKey);
+  const mapping: ColumnMapping = headers.map(() => null);
+  const claim = (match: (key: string, alias: string) => boolean) => {
+    IMPORT_FIELDS.forEach(({ field, aliases }) => {
+      if (mapping.includes(field)) return;
+      const col = keys.findIndex((key, i) => mapping[i] === null && aliases.some(alias => match(key, alias)));
+      if (col >= 0) mapping[col] = field;
+    });
+  };
+  claim((key, alias) => key === alias);
+  claim((key, alias) => alias.length > 4 && key.includes(alias)); // "Primary Email", "Company Name (legal)"
+  return mapping;
+}
+
+// 3. COUNTRIES ("ae", "UAE", "united arab emirates" → "United Arab Emirates")
+const COUNTRY_ALIASES: Record<string, string> = {
+  uae: "AE", usa: "US", america: "US", uk: "GB", england: "GB", britain: "GB", greatbritain: "GB",
+  hongkong: "HK", holland: "NL", korea: "KR", southkorea: "KR", russia: "RU", turkey: "TR", turkiye: "TR", dubai: "AE"
+};
+
+let countryIndex: Map<string, string> | undefined;
+
+function getCountryIndex() {
+  if (countryIndex) return countryIndex;
+  const names = new Intl.DisplayNames(["en"], { type: "region" });
+  const index = new Map<string, string>();
+  const letters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+  for (const a of letters) for (const b of letters) {
+    const code = a + b;
+    let name: string | undefined;
+    try { name = names.of(code); } catch (e) { continue; }
+    if (!name || name === code || name === "Unknown Region") continue;
+    index.set(code.toLowerCase(), name);
+    index.set(headerKey(name), name);
+  }
+  // Short forms people actually type, which Intl doesn't know ("UAE", "Hong Kong" for "Hong Kong SAR China")
+  Object.entries(COUNTRY_ALIASES).forEach(([alias, code]) => index.set(alias, names.of(code) || code));
+  return (countryIndex = index);
+}
+
+export function normalizeCountry(value: string): string | undefined {
+  const raw = value.trim();
+  if (!raw) return undefined;
+  const index = getCountryIndex();
+  return index.get(raw.toLowerCase()) || index.get(headerKey(raw));
+}
+
+// 4. ROWS → LEADS (with what was wrong in each row)
+export function rowsToLeads(sheet: Sheet, mapping: ColumnMapping, fileName: string) {
+  const leads: Lead[] = [];
+  const issues: RowIssue[] = [];
+  const capturedAt = new Date().toISOString();
+
+  sheet.rows.forEach((cells, i) => {
+    const row = i + 2;
+    const value = (field: ImportField) =>
+      mapping.map((f, col) => (f === field ? cells[col] || "" : "")).filter(Boolean).join(" ").trim();
+
+    const companyName = value("companyName") || value("contactName");
+    if (!companyName) {
+      issues.push({ row, message: "No company or contact name", rejected: true });
+      return;
+    }
+
+    let rawEmail: string | undefined = value("rawEmail").split(/[\s,;]+/)[0] || undefined;
+    const emailCheck = rawEmail ? checkEmailOffline(rawEmail) : undefined;
+    if (rawEmail && emailCheck?.reason === "Invalid syntax") {
+      issues.push({ row, message: `Email "${rawEmail}" dropped: invalid syntax` });
+      rawEmail = undefined;
+    } else if (emailCheck?.status === "invalid") {
+      issues.push({ row, message: `${emailCheck.email}: ${emailCheck.reason}` });
+    }
+
+    const rawCountry = value("country");
+    const country = normalizeCountry(rawCountry);
+    if (rawCountry && !country) issues.push({ row, message: `Unknown country "${rawCountry}" kept as written` });
+
+    const rawWebsite = value("website");
+    const website = rawWebsite ? (/^https?:\/\//i.test(rawWebsite) ? rawWebsite : `https://${rawWebsite}`) : "#";
+    let domain = "";
+    if (rawWebsite) {
+      try { domain = new URL(website).hostname.replace(/^www\./, ""); } catch (e) {
+        issues.push({ row, message: `Website "${rawWebsite}" is not a valid address` });
+      }
+    }
+
+    const category = value("category") || undefined;
+    const notes = value("notes") || undefined;
+    const tags = normalizeTags(value("tags").split(/[;,]/));
+
+    leads.push({
+      id: `import-${Math.random().toString(36).substr(2, 9)}`,
+      companyName,
+      website: domain ? website : "#",
+      domain: domain || (rawEmail ? rawEmail.split("@")[1].toLowerCase() : ""),
+      country: country || rawCountry,
+      region: value("region"),
+      address: value("address") || undefined,
+      businessType: classifyBusinessType(category, companyName, notes),
+      category,
+      contactName: value("contactName"),
+      contactRole: value("contactRole"),
+      rawEmail: rawEmail ? emailCheck!.email : undefined,
+      emailVerificationStatus: rawEmail ? emailCheck!.status : "unknown",
+      emailVerificationReason: rawEmail ? emailCheck!.reason : undefined,
+      phone: value("phone") || undefined,
+      score: 0,
+      source: "import",
+      sourceQuery: fileName,
+      capturedAt,
+      notes,
+      tags: tags.length ? tags : undefined
+    });
+  });
+
+  return { leads, issues };
+}
+
+// 5. DRY RUN (what the import would do, without writing anything)
+export function previewImport(sheet: Sheet, mapping: ColumnMapping, fileName: string) {
+  const { leads, issues } = rowsToLeads(sheet, mapping, fileName);
+  const unique = dedupeLeads(leads);
+  return {
+    total: sheet.rows.length,
+    valid: leads.length,
+    duplicatesInFile: leads.length - unique.length,
+    existing: unique.filter(lead => findStoredDuplicate(lead)).length,
+    sample: scoreLeads(unique.slice(0, 10), getScoringRules()),
+    issues
+  };
+}
+
+// 6. IMPORT INTO A LIST (a lead we already have is listed as it is stored; new ones are scored first)
+export function importLeads(sheet: Sheet, mapping: ColumnMapping, fileName: string, target: { listId?: string; newListName?: string }) {
+  if (!mapping.includes("companyName") && !mapping.includes("contactName")) {
+    throw new Error("Map a column to Company or Contact Name first.");
+  }
+  const newListName = target.newListName?.trim();
+  if (!target.listId && !newListName) throw new Error("Choose a list to import into.");
+
+  // Every row is checked before anything is written
+  const { leads, issues } = rowsToLeads(sheet, mapping, fileName);
+  if (leads.length === 0) throw new Error(`No row can be imported (${issues.filter(i => i.rejected).length} rejected). Check the preview.`);
+  const unique = dedupeLeads(leads);
+  const newIds = new Set<string>();
+  const resolved = scoreLeads(unique, getScoringRules()).map(lead => {
+    const match = findStoredDuplicate(lead);
+    if (match) return match.stored;
+    newIds.add(lead.id);
+    return lead;
+  });
+  const { listId, added, skipped } = target.listId
+    ? { listId: target.listId, ...addLeadsToList(target.listId, resolved) }
+    : createListWithLeads(newListName!, resolved);
+
+  return {
+    listId,
+    added: added.length,
+    newLeads: added.filter(lead => newIds.has(lead.id)).length, // The rest were already stored
+    existing: resolved.length - newIds.size,
+    duplicatesInFile: leads.length - unique.length,
+    alreadyInList: skipped,
+    rejected: issues.filter(i => i.rejected).length,
+    issues
+  };
+}
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { Lead } from './types';
+import { LEAD_SCHEMA_VERSION, migrateLegacyLead } from './leadModel';
+import { readSetting, writeDocument, writeEnrollment, writeLead, writeOutreachLog, writeSetting } from './sqlite';
+
+// One-time import of the old watchtower_data.json store into SQLite.
+// The file is renamed to *.imported.json afterwards and kept as a backup.
+export function importJsonFile(db: Database.Database, filePath: string) {
+  if (!fs.existsSync(filePath)) return null;
+  if (readSetting(db, "json_imported_at")) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8') || "{}");
+  } catch (e) {
+    console.error("JSON Import Error: could not parse", filePath, e);
+    return null;
+  }
+
+  // Files written before the structured Lead model still carry the old shape.
+  // Only the Watchtower ever wrote to the JSON file, so that's where every lead came from.
+  const needsLeadMigration = (data.schemaVersion || 1) < LEAD_SCHEMA_VERSION;
+  const importedAt = new Date().toISOString();
+  // The last scan is the closest known time the leads were found
+  const foundAt = new Date(data.lastChecked || importedAt);
+  const leads: Lead[] = (data.leads || []).map((l: any) => ({
+    ...(needsLeadMigration ? migrateLegacyLead(l, foundAt) : l),
+    source: "watchtower"
+  }));
+
+  const counts = db.transaction(() => {
+    // Oldest first, so the newest-first order of the file survives (rowid breaks ties)
+    [...leads].reverse().forEach(lead => writeLead(db, lead, importedAt));
+
+    const insertTag = db.prepare(`INSERT OR IGNORE INTO tags (tag, added_at) VALUES (?, ?)`);
+    (data.monitoredTags || []).forEach((tag: string) => insertTag.run(tag, importedAt));
+
+    (data.outreachLogs || []).forEach((log: any) => writeOutreachLog(db, { status: "sent", ...log }));
+    (data.templates || []).forEach((t: any) => writeDocument(db, "templates", t));
+    (data.sequences || []).forEach((s: any) => writeDocument(db, "sequences", s));
+    [...(data.enrollments || [])].reverse().forEach((e: any) => writeEnrollment(db, e));
+
+    const insertSuppression = db.prepare(`INSERT OR REPLACE INTO suppressions (email, lead_id, reason, at) VALUES (?, ?, ?, ?)`);
+    (data.suppressions || []).forEach((s: any) => insertSuppression.run(s.email.toLowerCase(), s.leadId || null, s.reason, s.at));
+
+    if (data.scoringRules) writeSetting(db, "scoringRules", data.scoringRules);
+    writeSetting(db, "isRunning", !!data.isRunning);
+    writeSetting(db, "lastChecked", data.lastChecked || 0);
+    writeSetting(db, "json_imported_at", importedAt);
+
+    return { leads: leads.length, tags: (data.monitoredTags || []).length, outreachLogs: (data.outreachLogs || []).length };
+  })();
+
+  try {
+    fs.renameSync(filePath, filePath.replace(/\.json$/, '.imported.json'));
+  } catch (e) {} // The json_imported_at flag already stops a second import
+
+  console.log(`📦 Imported ${counts.leads} leads, ${counts.tags} tags and ${counts.outreachLogs} outreach logs from ${filePath}`);
+  return counts;
+}
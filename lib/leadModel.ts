@@ -0,0 +1,54 @@
+import { BusinessType, Lead, LeadSourceId } from "./types";
+
+// Bump when the stored lead shape changes; see migrateLegacyLead
+export const LEAD_SCHEMA_VERSION = 2;
+
+const TYPE_KEYWORDS: [BusinessType, RegExp][] = [
+  ["Wholesaler", /wholesal|manufactur|dealer|supplier|distribut|trader|import|export/i],
+  ["Broker", /broker|agent/i],
+  ["Brand", /brand|designer|atelier|studio/i],
+  ["Retailer", /store|shop|jewel|boutique|retail|showroom|souk|souq/i]
+];
+
+// 1. FREE TEXT ("Jewelry store", "diamond wholesaler") → BusinessType
+export function classifyBusinessType(...texts: (string | undefined)[]): BusinessType {
+  const text = texts.filter(Boolean).join(" ");
+  const match = TYPE_KEYWORDS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : "Unknown";
+}
+
+const PHONE_ONLY = /^\+?[\d\s().-]{7,}$/;
+const POST_AGE = /^(\d+)\s*([mhd]) ago$/;
+const AGE_UNIT_MS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// 2. v1 → v2: phone lived in `notes`, search terms / #hashtags in `businessType`
+// `foundAt` is when the lead was stored; the old "postAge" is counted back from it
+export function migrateLegacyLead(raw: any, foundAt: Date = new Date()): Lead {
+  const lead = { ...raw };
+  const legacyType = String(raw.businessType || "");
+  const isInstagram = raw.domain === "instagram.com" || raw.region === "Instagram";
+
+  let source: LeadSourceId = "google";
+  if (isInstagram) source = String(raw.id || "").startsWith("post-") ? "watchtower" : "instagram";
+  lead.source = raw.source || source;
+
+  if (!["Retailer", "Wholesaler", "Brand", "Broker", "Unknown"].includes(legacyType)) {
+    lead.sourceQuery = raw.sourceQuery || legacyType || undefined;
+    lead.businessType = isInstagram ? "Unknown" : classifyBusinessType(legacyType, raw.companyName);
+  }
+
+  if (!isInstagram && typeof raw.notes === "string") {
+    if (PHONE_ONLY.test(raw.notes.trim())) {
+      lead.phone = raw.phone || raw.notes.trim();
+      lead.notes = undefined;
+    } else if (raw.notes === "No Phone") {
+      lead.notes = undefined;
+    }
+  }
+
+  // Watchtower leads carried a display-only "postAge" string ("5h ago" when found) → approximate postedAt
+  const age = POST_AGE.exec(String(raw.postAge || "").trim());
+  if (age && !raw.postedAt) lead.postedAt = new Date(foundAt.getTime() - Number(age[1]) * AGE_UNIT_MS[age[2]]).toISOString();
+  delete lead.postAge;
+  return lead as Lead;
+}
@@ -0,0 +1,95 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+
+// A MailHog-style catcher: accepts every message, except for recipients at "bounce.test"
+interface Caught { from: string; to: string[]; data: string }
+const caught: Caught[] = [];
+
+const catcher = net.createServer(socket => {
+  let current: Caught = { from: "", to: [], data: "" };
+  let inData = false;
+  let buffer = "";
+  const reply = (line: string) => socket.write(line + "\r\n");
+  reply("220 catcher ready");
+
+  socket.on("data", chunk => {
+    buffer += chunk.toString();
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      if (inData) {
+        if (line === ".") {
+          inData = false;
+          caught.push(current);
+          current = { from: "", to: [], data: "" };
+          reply("250 queued");
+        } else current.data += line + "\n";
+        continue;
+      }
+      const command = line.toUpperCase();
+      if (command.startsWith("EHLO") || command.startsWith("HELO")) reply("250 catcher");
+      else if (command.startsWith("MAIL FROM:")) { current.from = line.slice(10).replace(/[<>]/g, "").split(" ")[0]; reply("250 ok"); }
+      else if (command.startsWith("RCPT TO:")) {
+        const to = line.slice(8).replace(/[<>]/g, "").trim();
+        if (to.endsWith("@bounce.test")) reply("550 no such user");
+        else { current.to.push(to); reply("250 ok"); }
+      }
+      else if (command === "DATA") { inData = true; reply("354 go ahead"); }
+      else if (command === "QUIT") { reply("221 bye"); socket.end(); }
+      else reply("250 ok");
+    }
+  });
+});
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "caratbridge-mailer-"));
+let outreach: typeof import("../app/api/outreach/route");
+let db: typeof import("./db");
+
+before(async () => {
+  await new Promise<void>(resolve => catcher.listen(0, "127.0.0.1", resolve));
+  process.env.DB_FILE = path.join(dir, "test.db");
+  process.env.SMTP_HOST = "127.0.0.1";
+  process.env.SMTP_PORT = String((catcher.address() as net.AddressInfo).port);
+  process.env.SMTP_FROM = "Gem Desk <desk@caratbridge.test>";
+  // Loaded after the env is set: the database file is picked when lib/sqlite is first imported
+  outreach = await import("../app/api/outreach/route");
+  db = await import("./db");
+});
+
+after(() => {
+  catcher.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const send = (body: object) => outreach.POST(new Request("http://localhost/api/outreach", { method: "POST", body: JSON.stringify(body) }));
+
+test("an outreach email reaches the SMTP server and is logged as sent", async () => {
+  const res = await send({ leadId: "lead-1", emailUsed: "buyer@shop.test", subject: "Loose diamonds", body: "Hello!" });
+  const data = await res.json();
+
+  assert.equal(data.success, true);
+  const mail = caught[caught.length - 1];
+  assert.equal(mail.from, "desk@caratbridge.test");
+  assert.deepEqual(mail.to, ["buyer@shop.test"]);
+  assert.match(mail.data, /Subject: Loose diamonds/);
+
+  const [log] = db.getOutreachLogs({ leadId: "lead-1" });
+  assert.equal(log.status, "sent");
+  assert.equal(log.emailUsed, "buyer@shop.test");
+  assert.equal(log.messageId, data.log.messageId);
+});
+
+test("a recipient the server refuses is logged as failed", async () => {
+  const res = await send({ leadId: "lead-2", emailUsed: "nobody@bounce.test", subject: "Hi", body: "Hello!" });
+  const data = await res.json();
+
+  assert.equal(data.success, false);
+  const [log] = db.getOutreachLogs({ leadId: "lead-2" });
+  assert.equal(log.status, "failed");
+  assert.ok(log.error);
+});
@@ -0,0 +1,66 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { getSmtpSettings, SmtpSettings } from './config';
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface DeliveryResult {
+  success: boolean;
+  messageId?: string;
+  accepted?: string[];
+  rejected?: string[];
+  response?: string;
+  error?: string;
+}
+
+// 1. BUILD TRANSPORT
+// Works with any SMTP server, including a local catcher (e.g. MailHog on localhost:1025)
+export function createSmtpTransport(settings: SmtpSettings = getSmtpSettings()): Transporter {
+  if (!settings.host) throw new Error("SMTP host is not configured. Go to Settings Tab.");
+
+  return nodemailer.createTransport({
+    host: settings.host,
+    port: settings.port,
+    secure: settings.secure,
+    auth: settings.user ? { user: settings.user, pass: settings.pass || '' } : undefined,
+    // Local stand-ins rarely have a valid certificate; real servers are always checked unless switched off
+    tls: settings.allowSelfSigned ? { rejectUnauthorized: false } : undefined
+  });
+}
+
+// 2. SEND ONE EMAIL
+export async function sendEmail(
+  email: OutgoingEmail,
+  settings: SmtpSettings = getSmtpSettings(),
+  transport?: Transporter
+): Promise<DeliveryResult> {
+  try {
+    const from = settings.from || settings.user;
+    if (!from) throw new Error("SMTP from-address is not configured.");
+
+    const mailer = transport || createSmtpTransport(settings);
+    const info = await mailer.sendMail({
+      from,
+      to: email.to,
+      replyTo: settings.replyTo || undefined,
+      subject: email.subject,
+      text: email.body
+    });
+
+    const rejected = (info.rejected || []).map(String);
+    return {
+      success: rejected.length === 0,
+      messageId: info.messageId,
+      accepted: (info.accepted || []).map(String),
+      rejected,
+      response: info.response,
+      error: rejected.length > 0 ? `Rejected by server: ${rejected.join(', ')}` : undefined
+    };
+  } catch (error: any) {
+    console.error("SMTP Error:", error);
+    return { success: false, error: error.message };
+  }
+}
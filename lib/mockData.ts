@@ -1,4 +1,5 @@
 import { Lead } from "./types";
+import { generateEmailCandidates, DomainPatternStats } from "./emailPatterns";
 
 // --- 1. MOCK DATASET (50+ Leads) ---
 const FIRST_NAMES = ["James", "Sarah", "David", "Emma", "Michael", "Sophie", "Wei", "Ahmed", "Elena", "Robert"];
@@ -23,7 +24,7 @@ function generateMockLeads(count: number): Lead[] {
       website: `https://www.${domain}`,
       country: ["USA", "UK", "France", "UAE", "Japan", "Australia", "India", "Germany"][Math.floor(Math.random() * 8)],
       region: ["North America", "Europe", "Middle East", "Asia", "Oceania"][Math.floor(Math.random() * 5)],
-      businessType: ["Retailer", "Wholesaler", "Brand", "Broker"][Math.floor(Math.random() * 4)] as any,
+      businessType: (["Retailer", "Wholesaler", "Brand", "Broker"] as const)[Math.floor(Math.random() * 4)],
       contactName: `${fn} ${ln}`,
       contactRole: ["Buyer", "Director", "Procurement Head", "Owner"][Math.floor(Math.random() * 4)],
       rawEmail: hasRawEmail ? `${fn.toLowerCase()}@${domain}` : undefined,
@@ -37,47 +38,10 @@ function generateMockLeads(count: number): Lead[] {
 const db_leads = generateMockLeads(60);
 
 // --- 2. LOGIC: EMAIL PREDICTION ---
-export function predictEmail(contactName: string, domain: string): string {
-  const parts = contactName.toLowerCase().split(" ");
-  if (parts.length < 2) return `info@${domain}`;
-
-  // Strategy: firstname.lastname@domain (Most common corporate pattern)
-  return `${parts[0]}.${parts[1]}@${domain}`;
-}
-
-// --- 3. LOGIC: DUMMY VERIFICATION ---
-export function mockVerifyEmail(email: string): "valid" | "risky" | "invalid" {
-  // Deterministic mock verification based on string length to keep it consistent
-  const len = email.length;
-  if (len % 7 === 0) return "invalid";
-  if (len % 5 === 0) return "risky";
-  return "valid";
-}
-
-// --- 4. LOGIC: LEAD SCORING ---
-export function calculateLeadScore(lead: Lead, keywords: string): number {
-  let score = 0;
-
-  // Region Weight
-  if (["USA", "UK", "UAE"].includes(lead.country)) score += 25;
-  else if (["France", "Germany", "Australia"].includes(lead.country)) score += 20;
-  else score += 10;
-
-  // Business Type Weight
-  if (lead.businessType === "Wholesaler") score += 25;
-  if (lead.businessType === "Brand") score += 20;
-  if (lead.businessType === "Retailer") score += 15;
-
-  // Data Completeness
-  if (lead.rawEmail) score += 20;
-  else if (lead.predictedEmail) score += 10;
-
-  // Keyword Match (Simple check against company name for demo)
-  if (keywords && lead.companyName.toLowerCase().includes(keywords.toLowerCase())) {
-    score += 15;
-  }
-
-  return Math.min(score, 100);
+export function predictEmail(contactName: string, domain: string, stats?: DomainPatternStats): string {
+  // Best-ranked candidate from the pattern engine (learns per-domain conventions)
+  const [best] = generateEmailCandidates(contactName, domain, stats);
+  return best ? best.email : `info@${domain}`;
 }
 
 // Export the "database"
@@ -0,0 +1,32 @@
+import { Lead } from "./types";
+
+// Tags compare case-insensitively; the first spelling used is kept
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map(t => t.trim().replace(/\s+/g, " "))
+    .filter(t => {
+      const key = t.toLowerCase();
+      if (!t || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// 1. NOTES THREAD (append-only apart from deleting a note)
+export function addNote(lead: Lead, text: string, at = new Date().toISOString()): Lead {
+  const note = { id: `note-${Math.random().toString(36).substr(2, 9)}`, text: text.trim(), createdAt: at };
+  return { ...lead, userNotes: [...(lead.userNotes || []), note] };
+}
+
+export function removeNote(lead: Lead, noteId: string): Lead {
+  return { ...lead, userNotes: (lead.userNotes || []).filter(n => n.id !== noteId) };
+}
+
+// 2. TAGS
+export function setTags(lead: Lead, tags: string[]): Lead {
+  return { ...lead, tags: normalizeTags(tags) };
+}
+
+export const hasTag = (lead: Lead, tag: string) =>
+  (lead.tags || []).some(t => t.toLowerCase() === tag.toLowerCase());
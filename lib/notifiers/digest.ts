@@ -0,0 +1,37 @@
+import { Lead } from "../types";
+import { AlertSchedule, Digest } from "./types";
+import { scoreBand } from "./format";
+
+const TOP_LEADS = 5;
+
+// 1. SUMMARIZE (entries = queued leads with the tag that found them)
+export function buildDigest(entries: { tag: string; lead: Lead }[], mode: Digest["mode"], since: string): Digest {
+  const tags = new Map<string, Digest["tags"][number]>();
+  for (const { tag, lead } of entries) {
+    const row = tags.get(tag) || { tag, count: 0, hot: 0, warm: 0, cold: 0 };
+    row.count++;
+    row[scoreBand(lead.score)]++;
+    tags.set(tag, row);
+  }
+
+  // A lead found by two tags counts for each tag, but is listed once
+  const leads = Array.from(new Map(entries.map(e => [e.lead.id, e.lead])).values());
+  return {
+    mode,
+    since,
+    total: leads.length,
+    tags: Array.from(tags.values()).sort((a, b) => b.count - a.count),
+    top: leads.sort((a, b) => b.score - a.score).slice(0, TOP_LEADS)
+  };
+}
+
+// 2. WHEN THE NEXT ONE GOES OUT (the first schedule hour after `after`; weekly ones on Monday)
+export function nextDigestAt(schedule: AlertSchedule, after: Date): Date {
+  const next = new Date(after);
+  next.setHours(schedule.hour, 0, 0, 0);
+  if (next.getTime() <= after.getTime()) next.setDate(next.getDate() + 1);
+  if (schedule.mode === "weekly") {
+    while (next.getDay() !== 1) next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
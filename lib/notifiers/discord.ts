@@ -0,0 +1,60 @@
+import { Lead } from "../types";
+import { Notifier } from "./types";
+import { batchTitle, digestTagLine, digestTitle, getTimeAgo, summarizeLead } from "./format";
+import { postJson } from "./http";
+
+const MAX_EMBEDS = 10; // Discord's limit per message
+
+const leadEmbed = (lead: Lead) => {
+  const { title, url, time, source, caption } = summarizeLead(lead);
+  return {
+    title,
+    url,
+    color: 3066993,
+    fields: [
+      { name: "Time", value: time, inline: true },
+      { name: "Source", value: source, inline: true },
+      { name: "Caption", value: caption.slice(0, 1024) } // Discord's field limit
+    ],
+    footer: { text: "CaratBridge Secret Finder" },
+    timestamp: new Date().toISOString()
+  };
+};
+
+async function post(webhook: string, payload: object) {
+  const res = await postJson(webhook, { username: "CaratBridge Watchtower", ...payload });
+  if (!res.ok) throw new Error(`Discord returned ${res.status}: ${res.data.message || "no details"}`);
+}
+
+// 🟣 Discord webhook: a scan's leads as embeds, ten to a message
+export const discord: Notifier = {
+  id: "discord",
+  label: "Discord",
+
+  isConfigured: settings => !!settings.discordWebhook,
+
+  async send(leads, settings) {
+    for (let i = 0; i < leads.length; i += MAX_EMBEDS) {
+      await post(settings.discordWebhook!, {
+        content: i === 0 ? batchTitle(leads.length) : undefined,
+        embeds: leads.slice(i, i + MAX_EMBEDS).map(leadEmbed)
+      });
+    }
+  },
+
+  async sendDigest(digest, settings) {
+    await post(settings.discordWebhook!, {
+      embeds: [{
+        title: digestTitle(digest),
+        color: 3447003,
+        description: digest.tags.map(digestTagLine).join("\n").slice(0, 4096),
+        fields: digest.top.map(lead => ({
+          name: `${lead.score} · @${lead.companyName}`.slice(0, 256),
+          value: `${summarizeLead(lead).url || "-"} · ${getTimeAgo(lead.postedAt)}`.slice(0, 1024)
+        })),
+        footer: { text: `Since ${new Date(digest.since).toLocaleString()}` },
+        timestamp: new Date().toISOString()
+      }]
+    });
+  }
+};
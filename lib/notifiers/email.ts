@@ -0,0 +1,38 @@
+import { Notifier } from "./types";
+import { NotifierSettings } from "../config";
+import { batchTitle, digestTagLine, digestTitle, summarizeLead } from "./format";
+import { sendEmail } from "../mailer";
+
+async function post(settings: NotifierSettings, subject: string, body: string) {
+  const result = await sendEmail({ to: settings.alertEmailTo!, subject, body: `${body}\n\n— CaratBridge Secret Finder` });
+  if (!result.success) throw new Error(`Email alert failed: ${result.error}`);
+}
+
+// ✉️ Email through the outreach SMTP server: one message listing every lead
+export const email: Notifier = {
+  id: "email",
+  label: "Email",
+
+  isConfigured: settings => !!settings.alertEmailTo,
+
+  async send(leads, settings) {
+    const body = leads.map(lead => {
+      const { title, url, time, source, caption } = summarizeLead(lead);
+      return `${title}\n${url}\n${time} · ${source}\n${caption}`;
+    }).join("\n\n---\n\n");
+    await post(settings, batchTitle(leads.length), body);
+  },
+
+  async sendDigest(digest, settings) {
+    const top = digest.top.map(lead => {
+      const { title, url } = summarizeLead(lead);
+      return `${lead.score} · ${title}\n${url}`;
+    });
+    const body = [
+      `New leads since ${new Date(digest.since).toLocaleString()}, by tag:`,
+      digest.tags.map(digestTagLine).join("\n"),
+      ...(top.length ? [`Top leads:\n\n${top.join("\n\n")}`] : [])
+    ].join("\n\n");
+    await post(settings, digestTitle(digest), body);
+  }
+};
@@ -0,0 +1,62 @@
+import { Lead } from "../types";
+import { Digest } from "./types";
+
+export function getTimeAgo(isoDate?: string) {
+    if (!isoDate) return "Unknown";
+    const created = new Date(isoDate);
+    const now = new Date();
+    const diffMs = now.getTime() - created.getTime();
+    const diffMins = Math.floor(diffMs / 60000);
+    const diffHours = Math.floor(diffMins / 60);
+    const diffDays = Math.floor(diffHours / 24);
+
+    if (diffMins < 60) return `${diffMins}m ago`;
+    if (diffHours < 24) return `${diffHours}h ago`;
+    return `${diffDays}d ago`;
+}
+
+// The same facts for every channel; each one lays them out its own way
+export function summarizeLead(lead: Lead) {
+  return {
+    title: `💎 Fresh Post: @${lead.companyName}`,
+    url: lead.postUrl || lead.website,
+    time: getTimeAgo(lead.postedAt),
+    source: lead.sourceQuery || "-",
+    caption: lead.notes || "-"
+  };
+}
+
+// Stand-in lead for the Settings tab's "Test" buttons
+export function sampleLead(): Lead {
+  return {
+    id: "test-alert",
+    companyName: "caratbridge_test",
+    website: "https://www.instagram.com/",
+    domain: "instagram.com",
+    country: "",
+    region: "Instagram",
+    businessType: "Unknown",
+    contactName: "",
+    contactRole: "",
+    emailVerificationStatus: "unknown",
+    score: 0,
+    source: "watchtower",
+    sourceQuery: "#test",
+    postedAt: new Date().toISOString(),
+    notes: "Test alert from CaratBridge Secret Finder. If you can read this, the channel works."
+  };
+}
+
+// Same bands as the "Rating" column in CRM exports
+export function scoreBand(score: number): "hot" | "warm" | "cold" {
+  return score >= 70 ? "hot" : score >= 40 ? "warm" : "cold";
+}
+
+export const batchTitle = (count: number) => `💎 ${count} fresh post${count === 1 ? "" : "s"} from the Watchtower`;
+
+export function digestTitle(digest: Digest) {
+  return `📊 ${digest.mode === "daily" ? "Daily" : "Weekly"} Watchtower digest: ${digest.total} new lead${digest.total === 1 ? "" : "s"}`;
+}
+
+// "#gold: 12 (3 hot, 5 warm, 4 cold)"
+export const digestTagLine = (t: Digest["tags"][number]) => `#${t.tag}: ${t.count} (${t.hot} hot, ${t.warm} warm, ${t.cold} cold)`;
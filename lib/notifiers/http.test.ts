@@ -0,0 +1,57 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import net from "net";
+import { postJson } from "./http";
+
+// A channel that answers each request with the next queued reply, then 200
+const replies: { status: number; retryAfter?: string; body?: object }[] = [];
+let requests = 0;
+const server = http.createServer((req, res) => {
+  requests++;
+  req.resume();
+  req.on("end", () => {
+    const reply = replies.shift() || { status: 200, body: { ok: true } };
+    res.writeHead(reply.status, { "content-type": "application/json", ...(reply.retryAfter ? { "Retry-After": reply.retryAfter } : {}) });
+    res.end(JSON.stringify(reply.body || {}));
+  });
+});
+
+let url = "";
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}/hook`;
+});
+after(() => server.close());
+
+test("a short rate limit is waited out and retried", async () => {
+  requests = 0;
+  replies.push({ status: 429, retryAfter: "0" });
+  const res = await postJson(url, { text: "hi" });
+  assert.equal(res.status, 200);
+  assert.equal(requests, 2);
+});
+
+test("a wait over the cap is not slept through: the error says when to send again", async () => {
+  requests = 0;
+  replies.push({ status: 429, retryAfter: "3600" });
+  const started = Date.now();
+  const error: any = await postJson(url, { text: "hi" }).catch(e => e);
+  assert.match(error.message, /Rate limited \(429\): asked to wait 3600s/);
+  assert.equal(requests, 1);
+  assert.ok(Date.now() - started < 5000);
+  const retryIn = new Date(error.retryAt).getTime() - Date.now();
+  assert.ok(retryIn > 3590 * 1000 && retryIn <= 3600 * 1000);
+});
+
+test("Discord's retry_after field counts too", async () => {
+  replies.push({ status: 429, body: { message: "You are being rate limited.", retry_after: 120 } });
+  const error: any = await postJson(url, {}).catch(e => e);
+  assert.ok(error.retryAt);
+});
+
+test("other errors are returned, not thrown", async () => {
+  replies.push({ status: 404, body: { message: "Unknown Webhook" } });
+  const res = await postJson(url, {});
+  assert.deepEqual(res, { ok: false, status: 404, data: { message: "Unknown Webhook" } });
+});
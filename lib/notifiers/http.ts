@@ -0,0 +1,47 @@
+const MAX_RETRIES = 3;
+const MAX_RETRY_WAIT_MS = 30 * 1000;
+const TIMEOUT_MS = 15 * 1000; // Per attempt: a channel that hangs must not hold up the scan
+
+export interface ChannelResponse {
+  ok: boolean;
+  status: number;
+  data: any; // Parsed JSON, or { message } for a plain-text answer
+}
+
+// How long the channel asked us to wait: the Retry-After header, or Discord's and Telegram's JSON fields
+function retryWaitMs(res: Response, data: any, attempt: number) {
+  const seconds = Number(res.headers.get("Retry-After") || data.retry_after || data.parameters?.retry_after);
+  return seconds >= 0 ? seconds * 1000 : Math.min(1000 * 2 ** attempt, MAX_RETRY_WAIT_MS);
+}
+
+// POST JSON to a channel; rate limits (429) and server errors are retried, anything else is returned as is.
+// A wait longer than MAX_RETRY_WAIT_MS is not slept through: the error carries `retryAt` for a later send.
+export async function postJson(url: string, body: unknown, attempt = 0): Promise<ChannelResponse> {
+  let res: Response;
+  let text: string;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(TIMEOUT_MS)
+    });
+    text = await res.text();
+  } catch (e: any) {
+    if (e.name === "TimeoutError") throw new Error(`No answer within ${TIMEOUT_MS / 1000}s`);
+    throw e;
+  }
+  let data: any = {};
+  try { data = text ? JSON.parse(text) : {}; } catch (e) { data = { message: text }; }
+
+  if ((res.status === 429 || res.status >= 500) && attempt < MAX_RETRIES) {
+    const waitMs = retryWaitMs(res, data, attempt);
+    if (waitMs > MAX_RETRY_WAIT_MS) {
+      const retryAt = new Date(Date.now() + waitMs).toISOString();
+      throw Object.assign(new Error(`Rate limited (${res.status}): asked to wait ${Math.ceil(waitMs / 1000)}s`), { retryAt });
+    }
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+    return postJson(url, body, attempt + 1);
+  }
+  return { ok: res.ok, status: res.status, data };
+}
@@ -0,0 +1,178 @@
+import { Lead } from "../types";
+import { getNotifierSettings, NotifierSettings } from "../config";
+import {
+  clearQueuedAlerts, deleteFailedAlert, getAlertSchedule, getDueFailedAlerts, getFailedAlert, getLastDigestAt, getLeads, getQueuedAlerts,
+  getWatchSchedules, queueAlertLeads, saveAlertSchedule, saveFailedAlert, setLastDigestAt
+} from "../db";
+import { discord } from "./discord";
+import { slack } from "./slack";
+import { telegram } from "./telegram";
+import { email } from "./email";
+import { sampleLead } from "./format";
+import { buildDigest, nextDigestAt } from "./digest";
+import { AlertSchedule, Digest, Notifier, NotifierDescriptor, NotifierId } from "./types";
+
+// 🔔 REGISTERED CHANNELS (order shown in Settings)
+const NOTIFIERS: Notifier[] = [discord, slack, telegram, email];
+
+export function getNotifier(id: string): Notifier | undefined {
+  return NOTIFIERS.find(n => n.id === id);
+}
+
+export function describeNotifiers(settings: NotifierSettings = getNotifierSettings()): NotifierDescriptor[] {
+  return NOTIFIERS.map(({ id, label, isConfigured }) => ({ id, label, configured: isConfigured(settings) }));
+}
+
+export interface NotifyResult {
+  channel: NotifierId;
+  error?: string;
+}
+
+// 1. DELIVER ONE MESSAGE (a send that fails after its retries is kept for the Settings tab, rate-limited ones with their retry time)
+async function deliver(notifier: Notifier, content: { leads: Lead[] } | { digest: Digest }, settings: NotifierSettings): Promise<NotifyResult> {
+  try {
+    if ("digest" in content) await notifier.sendDigest(content.digest, settings);
+    else await notifier.send(content.leads, settings);
+    return { channel: notifier.id };
+  } catch (e: any) {
+    console.error(`${notifier.label} Alert Error:`, e.message);
+    saveFailedAlert({
+      id: `alert-${Math.random().toString(36).substr(2, 9)}`,
+      channel: notifier.id,
+      ...("digest" in content ? { digest: content.digest } : { leadIds: content.leads.map(l => l.id) }),
+      error: e.message,
+      attempts: 1,
+      failedAt: new Date().toISOString(),
+      retryAt: e.retryAt
+    });
+    return { channel: notifier.id, error: e.message };
+  }
+}
+
+// Each tag's own channels, or every configured one
+const routedTo = (notifier: Notifier, tag: string, routes: Map<string, NotifierId[] | undefined>) => {
+  const channels = routes.get(tag);
+  return !channels || channels.includes(notifier.id);
+};
+
+const routesFor = (tags: string[]) => new Map(getWatchSchedules(Array.from(new Set(tags))).map(s => [s.tag, s.channels]));
+
+// 2. A SCAN'S NEW LEADS → one batched message per channel, or held for the next digest
+export async function alertNewLeads(found: { tag: string; leads: Lead[] }[], settings: NotifierSettings = getNotifierSettings()): Promise<NotifyResult[]> {
+  const batches = found.filter(f => f.leads.length > 0);
+  if (batches.length === 0) return [];
+
+  if (getAlertSchedule().mode !== "instant") {
+    batches.forEach(b => queueAlertLeads(b.tag, b.leads.map(l => l.id)));
+    return [];
+  }
+
+  const routes = routesFor(batches.map(b => b.tag));
+  const results: NotifyResult[] = [];
+  for (const notifier of NOTIFIERS.filter(n => n.isConfigured(settings))) {
+    const leads = batches.filter(b => routedTo(notifier, b.tag, routes)).flatMap(b => b.leads);
+    const unique = Array.from(new Map(leads.map(l => [l.id, l])).values());
+    if (unique.length > 0) results.push(await deliver(notifier, { leads: unique }, settings));
+  }
+  return results;
+}
+
+// 3. DIGEST (called on every scheduler tick; back in instant mode, anything still queued goes out at once)
+let sendingDigest = false; // A slow send spans ticks; the next tick must not send the same queue again
+
+export async function sendDueDigest(now = new Date(), settings: NotifierSettings = getNotifierSettings()): Promise<NotifyResult[]> {
+  if (sendingDigest) return [];
+  const schedule = getAlertSchedule();
+  const last = getLastDigestAt();
+  if (schedule.mode !== "instant") {
+    if (!last) {
+      setLastDigestAt(now.toISOString()); // The first digest covers from here
+      return [];
+    }
+    if (nextDigestAt(schedule, new Date(last)).getTime() > now.getTime()) return [];
+  }
+
+  const queued = getQueuedAlerts();
+  if (schedule.mode !== "instant") setLastDigestAt(now.toISOString());
+  if (queued.length === 0) return [];
+
+  sendingDigest = true;
+  try {
+    return await deliverDigest(queued, schedule, last || now.toISOString(), settings);
+  } finally {
+    sendingDigest = false;
+  }
+}
+
+// The queue is cleared only once every channel was sent to or has its failure saved for a retry
+async function deliverDigest(queued: { tag: string; leadId: string }[], schedule: AlertSchedule, since: string, settings: NotifierSettings) {
+  const leads = new Map(getLeads({ ids: Array.from(new Set(queued.map(q => q.leadId))) }).map(l => [l.id, l]));
+  const entries = queued.filter(q => leads.has(q.leadId)).map(q => ({ tag: q.tag, lead: leads.get(q.leadId)! }));
+  const routes = routesFor(entries.map(e => e.tag));
+  const mode = schedule.mode === "instant" ? "daily" : schedule.mode;
+
+  const results: NotifyResult[] = [];
+  for (const notifier of NOTIFIERS.filter(n => n.isConfigured(settings))) {
+    const routed = entries.filter(e => routedTo(notifier, e.tag, routes));
+    if (routed.length > 0) results.push(await deliver(notifier, { digest: buildDigest(routed, mode, since) }, settings));
+  }
+  clearQueuedAlerts(queued);
+  return results;
+}
+
+// A new schedule counts from now, so switching to "weekly" doesn't send a digest at the next tick
+export function setAlertSchedule(schedule: AlertSchedule) {
+  if (!["instant", "daily", "weekly"].includes(schedule.mode)) throw new Error(`Unknown alert mode "${schedule.mode}"`);
+  const hour = Math.round(Number(schedule.hour));
+  if (!(hour >= 0 && hour <= 23)) throw new Error("Digest hour must be between 0 and 23");
+  saveAlertSchedule({ mode: schedule.mode, hour });
+  setLastDigestAt(new Date().toISOString());
+}
+
+// 4. RETRY A FAILED SEND (it stays on the list, with the new error, until it goes through)
+export async function retryFailedAlert(id: string, settings: NotifierSettings = getNotifierSettings()) {
+  const failure = getFailedAlert(id);
+  if (!failure) throw new Error("Failed alert not found");
+  const notifier = getNotifier(failure.channel);
+  if (!notifier || !notifier.isConfigured(settings)) throw new Error(`${notifier?.label || failure.channel} is not configured anymore.`);
+
+  try {
+    if (failure.digest) await notifier.sendDigest(failure.digest, settings);
+    else {
+      const leads = getLeads({ ids: failure.leadIds || [] });
+      if (leads.length > 0) await notifier.send(leads, settings);
+    }
+  } catch (e: any) {
+    saveFailedAlert({ ...failure, error: e.message, attempts: failure.attempts + 1, failedAt: new Date().toISOString(), retryAt: e.retryAt });
+    throw e;
+  }
+  deleteFailedAlert(id);
+}
+
+// Rate-limited sends go out again once the channel's wait is over (called on every scheduler tick)
+let retryingDue = false;
+
+export async function retryDueAlerts(now = new Date(), settings: NotifierSettings = getNotifierSettings()) {
+  if (retryingDue) return;
+  retryingDue = true;
+  try {
+    const due = getDueFailedAlerts(now).filter(f => getNotifier(f.channel)?.isConfigured(settings)); // Unconfigured ones wait for a manual retry or dismiss
+    for (const failure of due) {
+      await retryFailedAlert(failure.id, settings).catch(e => console.error(`Alert Retry Error (${failure.channel}):`, e.message));
+    }
+  } finally {
+    retryingDue = false;
+  }
+}
+
+// One sample alert, so Settings can check a channel end to end
+export async function sendTestAlert(id: string, settings: NotifierSettings = getNotifierSettings()) {
+  const notifier = getNotifier(id);
+  if (!notifier) throw new Error(`Unknown alert channel "${id}"`);
+  if (!notifier.isConfigured(settings)) throw new Error(`${notifier.label} is not configured. Save its settings first.`);
+  await notifier.send([sampleLead()], settings);
+}
+
+export { getTimeAgo } from "./format";
+export { nextDigestAt } from "./digest";
+export type { AlertMode, AlertSchedule, Digest, FailedAlert, Notifier, NotifierDescriptor, NotifierId } from "./types";
@@ -0,0 +1,51 @@
+import { Notifier } from "./types";
+import { batchTitle, digestTagLine, digestTitle, summarizeLead } from "./format";
+import { postJson } from "./http";
+
+const MAX_LEADS_PER_MESSAGE = 20; // Slack allows 50 blocks; each lead takes two
+
+// Captions and usernames are someone else's text: unescaped, "<!channel>" would ping everyone
+const escapeMrkdwn = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+async function post(webhook: string, payload: object) {
+  const res = await postJson(webhook, payload);
+  // Slack answers "ok" as plain text, or an error code like "invalid_token"
+  if (!res.ok) throw new Error(`Slack returned ${res.status}: ${res.data.message || "no details"}`);
+}
+
+// 💬 Slack incoming webhook: one message per scan, a section per lead
+export const slack: Notifier = {
+  id: "slack",
+  label: "Slack",
+
+  isConfigured: settings => !!settings.slackWebhook,
+
+  async send(leads, settings) {
+    for (let i = 0; i < leads.length; i += MAX_LEADS_PER_MESSAGE) {
+      const batch = leads.slice(i, i + MAX_LEADS_PER_MESSAGE);
+      const blocks = batch.flatMap(lead => {
+        const { title, url, time, source, caption } = summarizeLead(lead);
+        return [
+          { type: "section", text: { type: "mrkdwn", text: `*<${escapeMrkdwn(url)}|${escapeMrkdwn(title)}>*\n${escapeMrkdwn(`${time} · ${source}`)}\n${escapeMrkdwn(caption.slice(0, 2500))}` } },
+          { type: "divider" }
+        ];
+      });
+      await post(settings.slackWebhook!, { text: escapeMrkdwn(batchTitle(leads.length)), blocks });
+    }
+  },
+
+  async sendDigest(digest, settings) {
+    const top = digest.top.map(lead => {
+      const { title, url } = summarizeLead(lead);
+      return `• *${lead.score}* <${escapeMrkdwn(url)}|${escapeMrkdwn(title)}>`;
+    });
+    await post(settings.slackWebhook!, {
+      text: escapeMrkdwn(digestTitle(digest)),
+      blocks: [
+        { type: "header", text: { type: "plain_text", text: digestTitle(digest).slice(0, 150) } },
+        { type: "section", text: { type: "mrkdwn", text: escapeMrkdwn(digest.tags.map(digestTagLine).join("\n")).slice(0, 3000) } },
+        ...(top.length ? [{ type: "section", text: { type: "mrkdwn", text: `*Top leads*\n${top.join("\n")}`.slice(0, 3000) } }] : [])
+      ]
+    });
+  }
+};
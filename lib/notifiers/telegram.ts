@@ -0,0 +1,56 @@
+import { Notifier } from "./types";
+import { NotifierSettings } from "../config";
+import { batchTitle, digestTagLine, digestTitle, summarizeLead } from "./format";
+import { postJson } from "./http";
+
+const MAX_MESSAGE_LENGTH = 4096;
+const MAX_CAPTION = 300; // Per lead in a batch, so a scan still fits in a message or two
+
+const escapeHtml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+async function post(settings: NotifierSettings, text: string) {
+  const res = await postJson(`https://api.telegram.org/bot${settings.telegramBotToken}/sendMessage`, {
+    chat_id: settings.telegramChatId,
+    parse_mode: "HTML",
+    disable_web_page_preview: true,
+    text
+  });
+  if (!res.ok || !res.data.ok) throw new Error(`Telegram returned ${res.status}: ${res.data.description || res.data.message || "no details"}`);
+}
+
+// Joins the parts into as few messages as fit
+function pack(parts: string[]) {
+  const messages: string[] = [];
+  for (const part of parts) {
+    const last = messages.length - 1;
+    if (last >= 0 && messages[last].length + part.length + 2 <= MAX_MESSAGE_LENGTH) messages[last] += `\n\n${part}`;
+    else messages.push(part.slice(0, MAX_MESSAGE_LENGTH));
+  }
+  return messages;
+}
+
+// ✈️ Telegram bot: one message per scan to a chat, group or channel the bot is in
+export const telegram: Notifier = {
+  id: "telegram",
+  label: "Telegram",
+
+  isConfigured: settings => !!(settings.telegramBotToken && settings.telegramChatId),
+
+  async send(leads, settings) {
+    const parts = leads.map(lead => {
+      const { title, url, time, source, caption } = summarizeLead(lead);
+      return `<b><a href="${escapeHtml(url)}">${escapeHtml(title)}</a></b>\n${escapeHtml(time)} · ${escapeHtml(source)}\n${escapeHtml(caption.slice(0, MAX_CAPTION))}`;
+    });
+    for (const text of pack([`<b>${escapeHtml(batchTitle(leads.length))}</b>`, ...parts])) await post(settings, text);
+  },
+
+  async sendDigest(digest, settings) {
+    const top = digest.top.map(lead => {
+      const { title, url } = summarizeLead(lead);
+      return `${lead.score} · <a href="${escapeHtml(url)}">${escapeHtml(title)}</a>`;
+    });
+    const parts = [`<b>${escapeHtml(digestTitle(digest))}</b>`, escapeHtml(digest.tags.map(digestTagLine).join("\n"))];
+    if (top.length) parts.push(`<b>Top leads</b>\n${top.join("\n")}`);
+    for (const text of pack(parts)) await post(settings, text);
+  }
+};
@@ -0,0 +1,50 @@
+import { Lead } from "../types";
+import { NotifierSettings } from "../config";
+
+export type NotifierId = "discord" | "slack" | "telegram" | "email";
+
+// 🔔 An alert channel: where fresh leads get announced
+export interface Notifier {
+  id: NotifierId;
+  label: string;
+  isConfigured(settings: NotifierSettings): boolean;
+  // Both throw when the channel refused the message (bad webhook, wrong chat id...)
+  send(leads: Lead[], settings: NotifierSettings): Promise<void>; // One scan's new leads, batched
+  sendDigest(digest: Digest, settings: NotifierSettings): Promise<void>;
+}
+
+// What the Settings tab and the tag routing show
+export interface NotifierDescriptor {
+  id: NotifierId;
+  label: string;
+  configured: boolean;
+}
+
+// Instant = one batched alert per scan; digests hold new leads back and summarize them (weekly = Mondays)
+export type AlertMode = "instant" | "daily" | "weekly";
+
+export interface AlertSchedule {
+  mode: AlertMode;
+  hour: number; // Server's local time, 0-23
+}
+
+// New leads since the last digest, by tag and by score band
+export interface Digest {
+  mode: Exclude<AlertMode, "instant">;
+  since: string;
+  total: number;
+  tags: { tag: string; count: number; hot: number; warm: number; cold: number }[];
+  top: Lead[]; // Best scores first
+}
+
+// A send that still failed after its retries (kept until retried or dismissed)
+export interface FailedAlert {
+  id: string;
+  channel: NotifierId;
+  leadIds?: string[]; // A scan alert: re-read from the database on retry
+  digest?: Digest;
+  error: string;
+  attempts: number;
+  failedAt: string;
+  retryAt?: string; // The channel asked us to wait this long: sent again by the scheduler tick from then on
+}
@@ -0,0 +1,20 @@
+import { Lead, PipelineStage } from "./types";
+
+export const PIPELINE_STAGES: PipelineStage[] = ["New", "Qualified", "Contacted", "Replied", "Meeting", "Won", "Lost"];
+
+export const getStage = (lead: Lead): PipelineStage => lead.stage || "New";
+
+// 1. MOVE A LEAD (every change is kept with its time)
+export function setLeadStage(lead: Lead, stage: PipelineStage, at = new Date().toISOString()): Lead {
+  const from = getStage(lead);
+  if (from === stage) return lead;
+  return { ...lead, stage, stageHistory: [...(lead.stageHistory || []), { from, to: stage, at }] };
+}
+
+// 2. AUTOMATIC MOVES (sending / a reply) only push a lead forward, never back or out of Won/Lost
+export function advanceLeadStage(lead: Lead, stage: PipelineStage): Lead {
+  const current = getStage(lead);
+  if (current === "Won" || current === "Lost") return lead;
+  if (PIPELINE_STAGES.indexOf(stage) <= PIPELINE_STAGES.indexOf(current)) return lead;
+  return setLeadStage(lead, stage);
+}
@@ -0,0 +1,122 @@
+import { Lead, ScoreFactor, ScoringRules } from "./types";
+
+// Same weights the old calculateLeadScore used, extended with the new signals
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  markets: {
+    tier1: ["USA", "United States", "New York", "UK", "United Kingdom", "London", "UAE", "Dubai"],
+    tier1Points: 25,
+    tier2: ["France", "Germany", "Australia", "Japan", "Belgium", "Antwerp", "Hong Kong"],
+    tier2Points: 20,
+    otherPoints: 10
+  },
+  businessTypes: [
+    { match: "wholesale", points: 25 },
+    { match: "manufactur", points: 25 },
+    { match: "brand", points: 20 },
+    { match: "diamond", points: 20 },
+    { match: "jewel", points: 15 },
+    { match: "retail", points: 15 },
+    { match: "broker", points: 10 }
+  ],
+  emailQuality: { rawEmail: 20, predictedEmail: 10, validBonus: 5, riskyPenalty: 5 },
+  rating: { maxPoints: 15 },
+  reviewCount: { maxPoints: 10, saturation: 200 },
+  recency: { maxPoints: 15, freshHours: 24, staleHours: 168 },
+  keywords: { terms: ["wholesale", "loose diamonds", "bridal", "custom"], pointsEach: 5, maxPoints: 15 }
+};
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+const includesText = (haystack: string, needle: string) => !!needle && haystack.toLowerCase().includes(needle.toLowerCase());
+// Whole words only, so "UK" doesn't match "Ukraine" or "Phuket" and "USA" not "Jerusalem"
+const includesWord = (haystack: string, needle: string) => {
+  const word = needle.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return !!word && new RegExp(`(?<![\\p{L}\\p{N}])${word}(?![\\p{L}\\p{N}])`, "iu").test(haystack);
+};
+
+// Each factor returns null when the lead has no data for it (e.g. rating on Instagram),
+// so a source isn't punished for signals it can never provide.
+type FactorFn = (lead: Lead, rules: ScoringRules) => ScoreFactor | null;
+
+const FACTORS: FactorFn[] = [
+  // 1. MARKET
+  (lead, { markets }) => {
+    const place = `${lead.country} ${lead.region}`;
+    const max = Math.max(markets.tier1Points, markets.tier2Points, markets.otherPoints);
+    const tier1 = markets.tier1.find(m => includesWord(place, m));
+    if (tier1) return { factor: "Market", points: markets.tier1Points, max, detail: `Tier 1 market (${tier1})` };
+    const tier2 = markets.tier2.find(m => includesWord(place, m));
+    if (tier2) return { factor: "Market", points: markets.tier2Points, max, detail: `Tier 2 market (${tier2})` };
+    if (!lead.country || lead.country === "Global") return null; // Instagram: market unknown
+    return { factor: "Market", points: markets.otherPoints, max, detail: `Other market (${lead.country})` };
+  },
+
+  // 2. BUSINESS TYPE (best keyword match in type + name)
+  (lead, { businessTypes }) => {
+    if (businessTypes.length === 0) return null;
+    const text = `${lead.businessType} ${lead.category || ""} ${lead.sourceQuery || ""} ${lead.companyName}`;
+    const max = Math.max(...businessTypes.map(b => b.points));
+    const best = businessTypes.filter(b => includesText(text, b.match)).sort((a, b) => b.points - a.points)[0];
+    return best
+      ? { factor: "Business type", points: best.points, max, detail: `Matches "${best.match}"` }
+      : { factor: "Business type", points: 0, max, detail: "No matching business type" };
+  },
+
+  // 3. EMAIL QUALITY
+  (lead, { emailQuality: q }) => {
+    const max = q.rawEmail + q.validBonus;
+    if (!lead.rawEmail && !lead.predictedEmail) return { factor: "Email", points: 0, max, detail: "No email" };
+    if (lead.emailVerificationStatus === "invalid") return { factor: "Email", points: 0, max, detail: "Email is invalid" };
+
+    let points = lead.rawEmail ? q.rawEmail : q.predictedEmail;
+    let detail = lead.rawEmail ? "Real address" : "Predicted address";
+    if (lead.emailVerificationStatus === "valid") { points += q.validBonus; detail += ", verified"; }
+    if (lead.emailVerificationStatus === "risky") { points -= q.riskyPenalty; detail += ", risky"; }
+    return { factor: "Email", points: clamp(points, 0, max), max, detail };
+  },
+
+  // 4. RATING
+  (lead, { rating }) => {
+    if (typeof lead.rating !== "number") return null;
+    const points = Math.round((clamp(lead.rating, 0, 5) / 5) * rating.maxPoints);
+    return { factor: "Rating", points, max: rating.maxPoints, detail: `${lead.rating}★` };
+  },
+
+  // 5. REVIEW COUNT (log scale: the first reviews matter most)
+  (lead, { reviewCount }) => {
+    if (typeof lead.reviewCount !== "number") return null;
+    const ratio = Math.log(1 + lead.reviewCount) / Math.log(1 + Math.max(1, reviewCount.saturation));
+    const points = Math.round(clamp(ratio, 0, 1) * reviewCount.maxPoints);
+    return { factor: "Reviews", points, max: reviewCount.maxPoints, detail: `${lead.reviewCount} reviews` };
+  },
+
+  // 6. POST RECENCY (full points while fresh, fading to zero when stale)
+  (lead, { recency }, now = new Date()) => {
+    if (!lead.postedAt) return null;
+    const hours = (now.getTime() - new Date(lead.postedAt).getTime()) / 3600000;
+    const span = Math.max(1, recency.staleHours - recency.freshHours);
+    const ratio = hours <= recency.freshHours ? 1 : clamp(1 - (hours - recency.freshHours) / span, 0, 1);
+    return { factor: "Recency", points: Math.round(ratio * recency.maxPoints), max: recency.maxPoints, detail: `Posted ${Math.round(hours)}h ago` };
+  },
+
+  // 7. KEYWORDS (name, type and notes/caption)
+  (lead, { keywords }) => {
+    if (keywords.terms.length === 0) return null;
+    const text = `${lead.companyName} ${lead.category || ""} ${lead.sourceQuery || ""} ${lead.caption || lead.notes || ""}`;
+    const hits = keywords.terms.filter(t => includesText(text, t));
+    const points = Math.min(hits.length * keywords.pointsEach, keywords.maxPoints);
+    return { factor: "Keywords", points, max: keywords.maxPoints, detail: hits.length ? hits.join(", ") : "No keyword matches" };
+  }
+];
+
+// SCORE = earned points / points available for this lead, as 0-100
+export function scoreLead(lead: Lead, rules: ScoringRules = DEFAULT_SCORING_RULES): Lead {
+  const breakdown = FACTORS.map(f => f(lead, rules)).filter((f): f is ScoreFactor => f !== null && f.max > 0);
+  const earned = breakdown.reduce((sum, f) => sum + f.points, 0);
+  const available = breakdown.reduce((sum, f) => sum + f.max, 0);
+  const score = available > 0 ? Math.round((earned / available) * 100) : 0;
+  return { ...lead, score, scoreBreakdown: breakdown };
+}
+
+export function scoreLeads(leads: Lead[], rules: ScoringRules = DEFAULT_SCORING_RULES): Lead[] {
+  return leads.map(lead => scoreLead(lead, rules));
+}
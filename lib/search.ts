@@ -0,0 +1,80 @@
+import { Lead, SearchParams } from "./types";
+import { getScoringRules } from "./db";
+import { scoreLeads } from "./scoring";
+import { dedupeLeads } from "./dedupe";
+import { getSource } from "./sources";
+import { LeadSource, SourceContext, SourceQuery } from "./sources/types";
+
+export interface QueryResult {
+  leads: Lead[];
+  fetched: number; // Items the source returned (some may not map to a lead)
+  error?: string;
+  quotaExhausted?: boolean;
+}
+
+// One unit of progress in a search job
+export interface SearchQuery {
+  label: string;
+  run: (signal: AbortSignal) => Promise<QueryResult>;
+}
+
+// 1. RUN ONE QUERY (follows the cursor up to the source's page limit)
+export async function runSourceQuery<T, S>(source: LeadSource<T, S>, query: SourceQuery, context: SourceContext<S>): Promise<QueryResult> {
+  const result: QueryResult = { leads: [], fetched: 0 };
+  let cursor: string | undefined;
+
+  for (let page = 0; page < source.maxPages; page++) {
+    if (context.signal.aborted) break;
+    const { items, cursor: next, error, quotaExhausted } = await source.fetchPage(query, cursor, context);
+    items.forEach(item => {
+      const lead = source.toLead(item, query, result.fetched++, context);
+      if (lead) result.leads.push(lead);
+    });
+    if (error) return { ...result, error, quotaExhausted };
+    if (!next || items.length === 0) break;
+    cursor = next;
+  }
+  return result;
+}
+
+// The registered source a search asks for; fails before anything runs when it can't
+export function requireSource(id: string): LeadSource {
+  const source = getSource(id);
+  if (!source) throw new Error(`Unknown lead source "${id}"`);
+  const setupError = source.getSetupError();
+  if (setupError) throw new Error(setupError);
+  return source;
+}
+
+// 2. PLAN (bulk inputs → one query per combination)
+export function planSearch(params: SearchParams): SearchQuery[] {
+  const source = requireSource(params.source);
+  const shared = source.prepare?.();
+  return source.plan(params.input).map(query => ({
+    label: query.label,
+    run: (signal: AbortSignal) => runSourceQuery(source, query, { signal, shared })
+  }));
+}
+
+// 3. ASSEMBLE RESULTS
+// Partial results while a search runs: duplicates merged where the source wants it
+// (Maps branches with their own phone stay apart), everything scored, nothing slow
+export function previewResults(params: SearchParams, leads: Lead[]): Lead[] {
+  const source = getSource(params.source);
+  return scoreLeads(source?.dedupe ? dedupeLeads(leads) : leads, getScoringRules());
+}
+
+// Final results: the source's slow last step (e.g. verifying caption emails), then scored
+export async function finishResults(params: SearchParams, leads: Lead[]): Promise<Lead[]> {
+  const source = getSource(params.source);
+  if (!source?.finish) return previewResults(params, leads);
+  return previewResults(params, await source.finish(leads));
+}
+
+// 4. RUN IN ONE GO (plain HTTP searches, no job)
+export async function runSearch(params: SearchParams): Promise<Lead[]> {
+  const signal = new AbortController().signal;
+  let leads: Lead[] = [];
+  for (const query of planSearch(params)) leads = [...leads, ...(await query.run(signal)).leads];
+  return finishResults(params, leads);
+}
@@ -0,0 +1,128 @@
+import { getSearchJob, getSearchJobResults, getSearchJobs, saveSearchJob } from "./db";
+import { finishResults, planSearch, previewResults } from "./search";
+import { Lead, SearchJob, SearchParams } from "./types";
+
+// What a watcher receives: the job, plus the result list whenever it changed
+export interface SearchJobEvent {
+  job: SearchJob;
+  leads?: Lead[];
+}
+
+type Listener = (event: SearchJobEvent) => void;
+
+// Live state of this server process (kept on globalThis so dev hot-reloads reuse it)
+interface JobRuntime {
+  controllers: Map<string, AbortController>;
+  listeners: Map<string, Set<Listener>>;
+  recovered: boolean;
+}
+
+function runtime(): JobRuntime {
+  const g = globalThis as unknown as { __searchJobs?: JobRuntime };
+  if (!g.__searchJobs) g.__searchJobs = { controllers: new Map(), listeners: new Map(), recovered: false };
+  return g.__searchJobs;
+}
+
+// Jobs saved as running by an earlier process died with it
+function recoverInterruptedJobs() {
+  const rt = runtime();
+  if (rt.recovered) return;
+  rt.recovered = true;
+  getSearchJobs(100)
+    .filter(job => job.status === "running" && !rt.controllers.has(job.id))
+    .forEach(job => saveSearchJob({ ...job, status: "failed", error: "Interrupted by a server restart", finishedAt: new Date().toISOString() }));
+}
+
+function emit(event: SearchJobEvent) {
+  runtime().listeners.get(event.job.id)?.forEach(listener => listener(event));
+}
+
+// 1. SUBMIT (plans synchronously so a missing API key fails the request, then runs in the background)
+export function startSearchJob(params: SearchParams): SearchJob {
+  recoverInterruptedJobs();
+  const queries = planSearch(params);
+  const job: SearchJob = {
+    id: `job-${Math.random().toString(36).substr(2, 9)}`,
+    params,
+    status: "running",
+    totalQueries: queries.length,
+    completedQueries: 0,
+    leadCount: 0,
+    createdAt: new Date().toISOString()
+  };
+  saveSearchJob(job, []);
+
+  const controller = new AbortController();
+  runtime().controllers.set(job.id, controller);
+  runJob(job, queries, controller.signal).finally(() => runtime().controllers.delete(job.id));
+  return job;
+}
+
+async function runJob(job: SearchJob, queries: ReturnType<typeof planSearch>, signal: AbortSignal) {
+  let found: Lead[] = [];
+  let results: Lead[] = [];
+  const update = (changes: Partial<SearchJob>, leads?: Lead[]) => {
+    job = { ...job, ...changes };
+    saveSearchJob(job, leads);
+    emit({ job, leads });
+  };
+
+  try {
+    for (const query of queries) {
+      if (signal.aborted) break;
+      update({ currentQuery: query.label });
+      const result = await query.run(signal);
+      found = [...found, ...result.leads];
+      results = previewResults(job.params, found);
+      const warnings = result.error ? [...(job.warnings || []), `${query.label}: ${result.error}`] : job.warnings;
+      update({ completedQueries: job.completedQueries + 1, leadCount: results.length, warnings }, results);
+
+      // Out of credits: the remaining queries would fail the same way
+      if (result.quotaExhausted) {
+        update({ warnings: [...(job.warnings || []), `Stopped after ${job.completedQueries} of ${job.totalQueries} queries: out of API credits`] });
+        break;
+      }
+    }
+
+    if (signal.aborted) {
+      update({ status: "cancelled", currentQuery: undefined, finishedAt: new Date().toISOString() });
+      return;
+    }
+    results = await finishResults(job.params, found);
+    update({ status: "done", currentQuery: undefined, leadCount: results.length, finishedAt: new Date().toISOString() }, results);
+  } catch (error: any) {
+    // An abort mid-request surfaces as an error: that is a cancel, partial results stay
+    if (signal.aborted) update({ status: "cancelled", currentQuery: undefined, finishedAt: new Date().toISOString() });
+    else update({ status: "failed", currentQuery: undefined, error: error.message, finishedAt: new Date().toISOString() });
+  }
+}
+
+// 2. CANCEL (the running query stops at its next request; results so far are kept)
+export function cancelSearchJob(id: string): boolean {
+  const controller = runtime().controllers.get(id);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
+
+// 3. READ / WATCH
+export function findSearchJob(id: string): SearchJobEvent | undefined {
+  recoverInterruptedJobs();
+  const job = getSearchJob(id);
+  return job ? { job, leads: getSearchJobResults(id) } : undefined;
+}
+
+export function listSearchJobs(limit?: number): SearchJob[] {
+  recoverInterruptedJobs();
+  return getSearchJobs(limit);
+}
+
+export function watchSearchJob(id: string, listener: Listener): () => void {
+  const listeners = runtime().listeners;
+  if (!listeners.has(id)) listeners.set(id, new Set());
+  listeners.get(id)!.add(listener);
+  return () => {
+    listeners.get(id)?.delete(listener);
+    if (listeners.get(id)?.size === 0) listeners.delete(id);
+  };
+}
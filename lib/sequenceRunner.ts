@@ -0,0 +1,133 @@
+import { addOutreachLog, addSuppression, advanceStoredStage, getEnrollments, getSequences, getSuppression, getTemplates, saveEnrollments } from "./db";
+import { sendEmail, DeliveryResult, OutgoingEmail } from "./mailer";
+import { getStepSendAt } from "./sequences";
+import { pickTemplateForLead, renderTemplate } from "./templates";
+import { Lead, LeadOutcome, PipelineStage, SequenceEnrollment } from "./types";
+
+const RETRY_MS = 60 * 60 * 1000; // Transient SMTP failures retry an hour later
+const MAX_ATTEMPTS = 5;           // Per step; then the enrollment stops as "send-failed"
+const TICK_MS = 60 * 1000;
+
+let isProcessing = false;
+
+// 1. SEND EVERY STEP THAT IS DUE
+export async function processDueSteps(
+  now = new Date(),
+  send: (email: OutgoingEmail) => Promise<DeliveryResult> = sendEmail
+) {
+  // Block overlapping runs (timer tick + manual "run" at the same time)
+  if (isProcessing) return { skipped: true, sent: 0, failed: 0, stopped: 0 };
+  isProcessing = true;
+
+  let sent = 0, failed = 0, stopped = 0;
+  try {
+    const sequences = getSequences();
+    const templates = getTemplates();
+    const due = getEnrollments({ status: "active" })
+      .filter(e => e.nextSendAt && new Date(e.nextSendAt).getTime() <= now.getTime());
+
+    for (const enrollment of due) {
+      const updated: SequenceEnrollment = { ...enrollment, history: [...enrollment.history] };
+
+      // Replied / bounced / unsubscribed since the last step
+      const suppression = getSuppression(enrollment.email);
+      if (suppression) {
+        saveEnrollments([{ ...updated, status: "stopped", stopReason: suppression.reason, nextSendAt: undefined }]);
+        stopped++;
+        continue;
+      }
+
+      const sequence = sequences.find(s => s.id === enrollment.sequenceId);
+      const step = sequence?.steps[enrollment.currentStep];
+      const template = step && (step.templateId
+        ? templates.find(t => t.id === step.templateId)
+        : pickTemplateForLead(templates, enrollment.lead));
+
+      if (!sequence || !step || !template) {
+        saveEnrollments([{ ...updated, status: "stopped", stopReason: "missing-template", nextSendAt: undefined }]);
+        stopped++;
+        continue;
+      }
+
+      const { subject, body } = renderTemplate(template, enrollment.lead);
+      const result = await send({ to: enrollment.email, subject, body });
+      const sentAt = new Date().toISOString();
+
+      addOutreachLog({
+        id: Math.random().toString(36).substr(2, 9),
+        leadId: enrollment.leadId,
+        subject,
+        body,
+        emailUsed: enrollment.email,
+        sentAt,
+        status: result.success ? "sent" : "failed",
+        templateId: template.id,
+        sequenceId: sequence.id,
+        messageId: result.messageId,
+        error: result.error
+      });
+      updated.history.push({ step: enrollment.currentStep, sentAt, status: result.success ? "sent" : "failed", error: result.error });
+
+      if (result.success) {
+        advanceStoredStage("Contacted", { leadId: enrollment.leadId, email: enrollment.email, lead: enrollment.lead });
+        updated.currentStep++;
+        updated.nextSendAt = getStepSendAt(sequence, updated.currentStep, now);
+        if (!updated.nextSendAt) updated.status = "completed";
+        sent++;
+      } else if (result.rejected && result.rejected.length > 0) {
+        // The server refused the address: treat as a bounce
+        addSuppression({ email: enrollment.email, leadId: enrollment.leadId, reason: "bounced", at: sentAt });
+        updated.status = "stopped";
+        updated.stopReason = "bounced";
+        updated.nextSendAt = undefined;
+        stopped++;
+      } else {
+        const attempts = updated.history.filter(h => h.step === enrollment.currentStep && h.status === "failed").length;
+        if (attempts >= MAX_ATTEMPTS) {
+          updated.status = "stopped";
+          updated.stopReason = "send-failed";
+          updated.nextSendAt = undefined;
+          stopped++;
+        } else {
+          updated.nextSendAt = new Date(now.getTime() + RETRY_MS).toISOString();
+          failed++;
+        }
+      }
+
+      saveEnrollments([updated]);
+    }
+  } finally {
+    isProcessing = false;
+  }
+
+  return { skipped: false, sent, failed, stopped };
+}
+
+// 2. LEAD REPLIED / BOUNCED / UNSUBSCRIBED: leave every active sequence
+export function recordLeadOutcome(email: string, leadId: string | undefined, outcome: LeadOutcome) {
+  addSuppression({ email, leadId, reason: outcome, at: new Date().toISOString() });
+  if (outcome === "replied") advanceStoredStage("Replied", { leadId, email });
+
+  const active = getEnrollments({ leadId, email, status: "active" });
+  saveEnrollments(active.map(e => ({ ...e, status: "stopped" as const, stopReason: outcome, nextSendAt: undefined })));
+  return active.length;
+}
+
+// Moving a lead to one of these stages (board or sidebar) ends its sequences like marking the outcome
+const STAGE_OUTCOMES: Partial<Record<PipelineStage, LeadOutcome>> = { Replied: "replied", Won: "won", Lost: "lost" };
+
+export function recordStageOutcome(lead: Lead, stage: PipelineStage) {
+  const outcome = STAGE_OUTCOMES[stage];
+  const email = lead.rawEmail || lead.predictedEmail || getEnrollments({ leadId: lead.id })[0]?.email;
+  if (!outcome || !email) return 0;
+  return recordLeadOutcome(email, lead.id, outcome);
+}
+
+// 3. BACKGROUND TICK (one per server process; started from instrumentation.ts and the sequences route)
+export function ensureSequenceRunner() {
+  const g = globalThis as any;
+  if (g.__sequenceRunner) return;
+  g.__sequenceRunner = setInterval(() => {
+    processDueSteps().catch(e => console.error("Sequence Runner Error:", e));
+  }, TICK_MS);
+}
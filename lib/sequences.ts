@@ -0,0 +1,48 @@
+import { Lead, OutreachSequence, SequenceEnrollment } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SEQUENCES: OutreachSequence[] = [
+  {
+    id: "seq-standard",
+    name: "Intro + 2 Follow-ups",
+    steps: [
+      { templateId: "", delayDays: 0 }, // Empty = the intro template that fits the lead's source
+      { templateId: "tpl-follow-up", delayDays: 3 },
+      { templateId: "tpl-final-nudge", delayDays: 7 }
+    ],
+    updatedAt: new Date(0).toISOString()
+  }
+];
+
+// 1. WHEN IS A STEP DUE? (delays count from the previous step)
+export function getStepSendAt(sequence: OutreachSequence, stepIndex: number, from: Date): string | undefined {
+  const step = sequence.steps[stepIndex];
+  if (!step) return undefined;
+  return new Date(from.getTime() + step.delayDays * DAY_MS).toISOString();
+}
+
+// 2. NEW ENROLLMENT
+export function createEnrollment(sequence: OutreachSequence, lead: Lead, email: string, now = new Date()): SequenceEnrollment {
+  return {
+    id: `enr-${Math.random().toString(36).substr(2, 9)}`,
+    sequenceId: sequence.id,
+    leadId: lead.id,
+    lead,
+    email,
+    status: "active",
+    currentStep: 0,
+    nextSendAt: getStepSendAt(sequence, 0, now),
+    enrolledAt: now.toISOString(),
+    history: []
+  };
+}
+
+// 3. PROGRESS LABEL for the UI, e.g. "Step 2/3 · next Jun 4"
+export function describeProgress(enrollment: SequenceEnrollment, sequence?: OutreachSequence): string {
+  const total = sequence ? sequence.steps.length : enrollment.history.length;
+  if (enrollment.status === "completed") return `Completed ${total}/${total}`;
+  if (enrollment.status === "stopped") return `Stopped (${enrollment.stopReason}) after ${enrollment.currentStep}/${total}`;
+  const next = enrollment.nextSendAt ? new Date(enrollment.nextSendAt).toLocaleDateString() : "-";
+  return `Step ${enrollment.currentStep + 1}/${total} · next ${next}`;
+}
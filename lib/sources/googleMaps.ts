@@ -0,0 +1,129 @@
+import { Lead } from "../types";
+import { getApiKeys } from "../config";
+import { checkEmailOffline } from "../emailVerification";
+import { generateEmailCandidates, learnDomainPatterns } from "../emailPatterns";
+import { getLeads } from "../db";
+import { classifyBusinessType } from "../leadModel";
+import { LeadSource } from "./types";
+
+const splitList = (value: string | undefined, fallback: string) =>
+  (value || fallback).split(",").map(v => v.trim()).filter(v => v.length > 0);
+
+// 🌍 SerpApi's Google Maps engine
+export const googleMaps: LeadSource<any, ReturnType<typeof learnDomainPatterns>> = {
+  id: "google",
+  label: "Google Maps",
+  icon: "satellite",
+  theme: "dark",
+  submitLabel: "FIND REAL LEADS",
+  fields: [
+    { name: "keyword", label: "Target Business", defaultValue: "Jewelry Store" },
+    { name: "city", label: "Location", placeholder: "City", defaultValue: "Deira" },
+    { name: "country", label: "", placeholder: "Country", defaultValue: "Dubai" }
+  ],
+  presets: [
+    { label: "🇦🇪 Dubai Gold Souq", values: { city: "Deira", country: "Dubai" } },
+    { label: "🇯🇵 Tokyo Diamond Dist.", values: { city: "Okachimachi", country: "Japan" } },
+    { label: "🇺🇸 NYC Diamond Dist.", values: { city: "New York", country: "USA" } }
+  ],
+  maxPages: 2, // Safety limit
+  dedupe: true,
+
+  getSetupError() {
+    return getApiKeys().SERPAPI_KEY ? undefined : "Go to Settings (Gear Icon) and paste your SerpApi Key.";
+  },
+
+  // 📧 Learn each domain's email convention from addresses we already know
+  prepare() {
+    return learnDomainPatterns(getLeads());
+  },
+
+  plan(input) {
+    const keywords = splitList(input.keyword, "Jewelry");
+    const cities = splitList(input.city, "Local");
+    const country = input.country || "";
+    return cities.flatMap(city => keywords.map(term => ({
+      label: `${term} in ${city} ${country}`.trim(),
+      params: { term, city, country }
+    })));
+  },
+
+  async fetchPage(query, cursor, { signal }) {
+    const apiKey = getApiKeys().SERPAPI_KEY;
+    if (!cursor) console.log(`📡 SEARCHING: "${query.params.term}" in ${query.params.city}...`);
+    const url = cursor
+      ? `${cursor}&api_key=${apiKey}`
+      : `https://serpapi.com/search.json?engine=google_maps&q=${encodeURIComponent(query.label)}&api_key=${apiKey}&type=search`;
+
+    try {
+      const res = await fetch(url, { signal });
+      const text = await res.text();
+      let data: any;
+      try {
+        data = JSON.parse(text);
+      } catch (e) {
+        // An outage page (502 HTML) instead of JSON
+        return { items: [], error: `SerpApi answered HTTP ${res.status}`, quotaExhausted: res.status === 429 };
+      }
+
+      if (data.error) {
+        // "No results" comes back as an error too; it just means an empty query
+        if (/hasn't returned any results/i.test(data.error)) return { items: [] };
+        console.log(`❌ Skipped "${query.params.term}" error:`, data.error);
+        return { items: [], error: data.error, quotaExhausted: res.status === 429 || /run out of searches|plan limit/i.test(data.error) };
+      }
+      return { items: data.local_results || [], cursor: data.serpapi_pagination?.next };
+    } catch (e: any) {
+      if (signal.aborted) return { items: [] };
+      console.error(`Failed to search ${query.label}`, e);
+      return { items: [], error: e.message };
+    }
+  },
+
+  toLead(result, query, index, { shared: patternStats }) {
+    const { term, city, country } = query.params;
+    let domain = "google.com";
+
+    if (result.website) {
+        try { 
+            const urlObj = new URL(result.website);
+            domain = urlObj.hostname.replace("www.", "");
+        } catch (e) {}
+    }
+
+    const candidates = generateEmailCandidates("Store Manager", domain, patternStats);
+    const generatedEmail = candidates[0]?.email;
+
+    // Quick local check only: bulk-verify later for MX / mailbox
+    const check = generatedEmail ? checkEmailOffline(generatedEmail) : undefined;
+
+    return {
+        id: `lead-${city}-${term}-${index}-${Math.random()}`,
+        companyName: result.title,
+        website: result.website || "#",
+        country: country || "Local",
+        region: city,
+        businessType: classifyBusinessType(result.type, term),
+        category: result.type,
+        contactName: "Store Manager",
+        contactRole: "Owner",
+        rawEmail: undefined,
+        predictedEmail: generatedEmail,
+        emailCandidates: candidates,
+        domain: domain,
+        emailVerificationStatus: check ? check.status : "unknown",
+        emailVerificationReason: check ? check.reason : "No website, no email",
+        score: 0, // Scored with the shared rules when results are assembled
+        phone: result.phone,
+        rating: typeof result.rating === "number" ? result.rating : undefined,
+        reviewCount: typeof result.reviews === "number" ? result.reviews : undefined,
+        address: result.address,
+        coordinates: result.gps_coordinates
+            ? { lat: result.gps_coordinates.latitude, lng: result.gps_coordinates.longitude }
+            : undefined,
+        source: "google",
+        sourceQuery: query.label,
+        capturedAt: new Date().toISOString()
+    } as Lead;
+  }
+};
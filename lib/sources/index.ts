@@ -0,0 +1,19 @@
+import { googleMaps } from "./googleMaps";
+import { instagram } from "./instagram";
+import { LeadSource, SourceDescriptor } from "./types";
+
+// 🔌 REGISTERED SOURCES (tab order in FilterPanel)
+const SOURCES: LeadSource[] = [googleMaps, instagram];
+
+export function getSource(id: string): LeadSource | undefined {
+  return SOURCES.find(s => s.id === id);
+}
+
+export function describeSources(): SourceDescriptor[] {
+  return SOURCES.map(({ id, label, icon, theme, submitLabel, fields, presets, getSetupError }) => ({
+    id, label, icon, theme, submitLabel, fields, presets, setupError: getSetupError()
+  }));
+}
+
+export { googleMaps, instagram };
+export type { LeadSource, SourceDescriptor, SourceField, SourcePage, SourceQuery } from "./types";
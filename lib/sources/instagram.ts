@@ -0,0 +1,109 @@
+import { ApifyClient } from "apify-client";
+import { Lead } from "../types";
+import { getApiKeys } from "../config";
+import { getVerifyOptions, verifyLeads } from "../verifyLeads";
+import { getPostClasses } from "../db";
+import { parseCaption } from "../captionParser";
+import { LeadSource } from "./types";
+
+const APIFY_POLL_SECS = 5; // How often a running actor is checked for cancellation
+const DEFAULT_LIMIT = 10;
+
+const isQuotaError = (message: string) => /usage hard limit|insufficient|exceeded|402/i.test(message);
+
+// 📸 Apify's instagram-hashtag-scraper (searches and the Watchtower both use it)
+export const instagram: LeadSource<any, ApifyClient> = {
+  id: "instagram",
+  label: "Instagram",
+  icon: "camera",
+  theme: "instagram",
+  submitLabel: "SCAN INSTAGRAM",
+  fields: [
+    { name: "hashtag", label: "Target Hashtags", defaultValue: "diamondjewelry", hint: "Separate multiple tags with commas." }
+  ],
+  maxPages: 1, // The actor returns everything in one dataset
+  dedupe: false,
+
+  getSetupError() {
+    return getApiKeys().APIFY_TOKEN ? undefined : "MISSING APIFY_TOKEN. Go to Settings Tab.";
+  },
+
+  prepare() {
+    return new ApifyClient({ token: getApiKeys().APIFY_TOKEN });
+  },
+
+  // input.limit: posts per hashtag; input.idPrefix: ids from the post id (the Watchtower's "post-...")
+  plan(input) {
+    return (input.hashtag || "diamond").split(",")
+      .map(tag => tag.trim().replace("#", ""))
+      .filter(Boolean)
+      .map(tag => ({ label: `#${tag}`, params: { tag, limit: input.limit || String(DEFAULT_LIMIT), idPrefix: input.idPrefix || "" } }));
+  },
+
+  // Start the actor, then wait in short polls so a cancel can abort the run
+  async fetchPage(query, _cursor, { signal, shared: client }) {
+    console.log(`📸 INSTA HUNT: Scanning ${query.label}...`);
+    try {
+      let run = await client.actor("apify/instagram-hashtag-scraper").start({
+        "hashtags": [query.params.tag],
+        "resultsLimit": Number(query.params.limit),
+        "resultsType": "posts",
+      });
+      while (run.status === "READY" || run.status === "RUNNING") {
+        if (signal.aborted) {
+          await client.run(run.id).abort().catch(() => undefined);
+          return { items: [] };
+        }
+        run = await client.run(run.id).waitForFinish({ waitSecs: APIFY_POLL_SECS });
+      }
+      if (run.status !== "SUCCEEDED") return { items: [], error: `Apify run ${run.status.toLowerCase()}` };
+
+      // A dead or blocked hashtag comes back as an item with an error instead of posts
+      const { items } = await client.dataset(run.defaultDatasetId).listItems();
+      const posts = items.filter((item: any) => !item.error);
+      const failed: any = items.find((item: any) => item.error);
+      if (posts.length === 0 && failed) return { items: [], error: failed.errorDescription || failed.error };
+      return { items: posts };
+    } catch (e: any) {
+      console.error(`Failed to scan ${query.label}`, e);
+      return { items: [], error: e.message, quotaExhausted: isQuotaError(e.message || "") };
+    }
+  },
+
+  toLead(item, query, index) {
+    const { tag, idPrefix } = query.params;
+    const username = item.ownerUsername || item.owner?.username || "Unknown";
+    const caption = item.caption || "";
+    const details = parseCaption(caption, getPostClasses(), item.locationName);
+
+    return {
+        id: idPrefix && item.id ? `${idPrefix}-${item.id}` : `insta-${tag}-${index}-${Date.now()}`,
+        companyName: username,
+        website: `https://instagram.com/${username}`,
+        country: "Global", 
+        region: "Instagram",
+        businessType: "Unknown",
+        contactName: username,
+        contactRole: "Owner",
+        rawEmail: details.emails[0],
+        phone: details.phones[0] || details.whatsapp[0],
+        predictedEmail: undefined, 
+        domain: "instagram.com",
+        emailVerificationStatus: "unknown",
+        score: 0, // Scored with the shared rules when results are assembled
+        source: "instagram",
+        sourceQuery: query.label,
+        postUrl: item.url || (item.shortCode ? `https://www.instagram.com/p/${item.shortCode}/` : undefined),
+        postedAt: item.timestamp,
+        capturedAt: new Date().toISOString(),
+        notes: caption ? `"${caption.substring(0, 80)}..."` : undefined,
+        caption: caption || undefined,
+        captionDetails: caption ? details : undefined
+    } as Lead;
+  },
+
+  // ✅ Real verification for the emails found in captions (DNS only, no probe)
+  finish(leads) {
+    return verifyLeads(leads, { ...getVerifyOptions(), probe: false });
+  }
+};
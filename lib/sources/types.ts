@@ -0,0 +1,54 @@
+import { Lead } from "../types";
+
+// A place leads come from (Google Maps, an Instagram hashtag...). Register new ones in ./index.ts:
+// the search jobs, the one-shot routes and the FilterPanel tabs all work from that list.
+
+// One input box on the source's search tab
+export interface SourceField {
+  name: string;
+  label: string;
+  placeholder?: string;
+  defaultValue?: string;
+  hint?: string;
+}
+
+// What FilterPanel needs to draw a tab (sent as JSON by /api/sources)
+export interface SourceDescriptor {
+  id: string;
+  label: string;
+  icon: "satellite" | "camera" | "search";
+  theme: "dark" | "instagram";
+  submitLabel: string;
+  fields: SourceField[];
+  presets?: { label: string; values: Record<string, string> }[]; // "Quick Select" shortcuts
+  setupError?: string; // Set when the source can't run yet (missing key)
+}
+
+// One unit of progress: "Jewelry in Deira Dubai", "#diamondjewelry"
+export interface SourceQuery {
+  label: string;
+  params: Record<string, string>;
+}
+
+export interface SourcePage<T> {
+  items: T[];
+  cursor?: string;          // Where the next page starts; none = last page
+  error?: string;           // The query failed but the search can go on
+  quotaExhausted?: boolean; // Out of credits: no point running the remaining queries
+}
+
+export interface SourceContext<S = unknown> {
+  signal: AbortSignal;
+  shared: S; // Built once per search by prepare()
+}
+
+export interface LeadSource<T = any, S = unknown> extends Omit<SourceDescriptor, "setupError"> {
+  maxPages: number;       // Per query
+  dedupe: boolean;        // Merge duplicates across the result set
+  getSetupError(): string | undefined;
+  prepare?(): S;
+  plan(input: Record<string, string>): SourceQuery[]; // Comma-separated inputs expand to one query each
+  fetchPage(query: SourceQuery, cursor: string | undefined, context: SourceContext<S>): Promise<SourcePage<T>>;
+  toLead(item: T, query: SourceQuery, index: number, context: SourceContext<S>): Lead | null;
+  finish?(leads: Lead[]): Promise<Lead[]>; // Slow last step on the whole result set (e.g. verification)
+}
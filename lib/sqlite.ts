@@ -0,0 +1,295 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import { Lead, OutreachLog, SequenceEnrollment } from './types';
+import { getInstagramHandle, normalizeCompanyName, normalizePhone } from './dedupe';
+
+// The file where we save everything (WAL mode: scans and UI edits don't block each other)
+const DB_FILE = process.env.DB_FILE || path.join(process.cwd(), 'caratbridge.db');
+
+// Each entry runs once, in order. Append new ones; never edit a shipped migration.
+// SQL for schema changes, a function when existing rows need rewriting too.
+const MIGRATIONS: (string | ((db: Database.Database) => void))[] = [
+  // 1. Initial schema
+  `
+  CREATE TABLE leads (
+    id TEXT PRIMARY KEY,
+    company_name TEXT NOT NULL,
+    domain TEXT,
+    email TEXT,
+    source TEXT,
+    source_query TEXT,
+    score INTEGER NOT NULL DEFAULT 0,
+    email_status TEXT,
+    added_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_leads_added ON leads(added_at);
+  CREATE INDEX idx_leads_company ON leads(company_name);
+  CREATE INDEX idx_leads_domain ON leads(domain);
+  CREATE INDEX idx_leads_email ON leads(email);
+  CREATE INDEX idx_leads_source ON leads(source, source_query);
+  CREATE INDEX idx_leads_score ON leads(score);
+
+  CREATE TABLE tags (
+    tag TEXT PRIMARY KEY,
+    added_at TEXT NOT NULL
+  );
+
+  CREATE TABLE scans (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    tags TEXT NOT NULL,
+    new_leads INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX idx_scans_started ON scans(started_at);
+
+  CREATE TABLE outreach_logs (
+    id TEXT PRIMARY KEY,
+    lead_id TEXT,
+    email TEXT,
+    status TEXT NOT NULL,
+    sent_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_outreach_lead ON outreach_logs(lead_id);
+  CREATE INDEX idx_outreach_email ON outreach_logs(email);
+  CREATE INDEX idx_outreach_sent ON outreach_logs(sent_at);
+
+  CREATE TABLE templates (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE sequences (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE enrollments (
+    id TEXT PRIMARY KEY,
+    lead_id TEXT NOT NULL,
+    email TEXT NOT NULL,
+    status TEXT NOT NULL,
+    next_send_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_enrollments_lead ON enrollments(lead_id);
+  CREATE INDEX idx_enrollments_email ON enrollments(email);
+  CREATE INDEX idx_enrollments_due ON enrollments(status, next_send_at);
+
+  CREATE TABLE suppressions (
+    email TEXT PRIMARY KEY,
+    lead_id TEXT,
+    reason TEXT NOT NULL,
+    at TEXT NOT NULL
+  );
+
+  CREATE TABLE settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  `,
+
+  // 2. Duplicate-matching keys (normalized name, phone, Instagram handle)
+  (db) => {
+    db.exec(`
+      ALTER TABLE leads ADD COLUMN name_key TEXT;
+      ALTER TABLE leads ADD COLUMN phone_key TEXT;
+      ALTER TABLE leads ADD COLUMN handle_key TEXT;
+      CREATE INDEX idx_leads_name_key ON leads(name_key);
+      CREATE INDEX idx_leads_phone_key ON leads(phone_key);
+      CREATE INDEX idx_leads_handle_key ON leads(handle_key);
+    `);
+    // Only the columns this step adds: writeLead tracks the latest schema, which may have more
+    const setKeys = db.prepare(`UPDATE leads SET name_key = ?, phone_key = ?, handle_key = ? WHERE id = ?`);
+    const rows = db.prepare(`SELECT id, data FROM leads`).all() as { id: string; data: string }[];
+    rows.forEach(row => {
+      const lead: Lead = JSON.parse(row.data);
+      setKeys.run(normalizeCompanyName(lead.companyName) || null, normalizePhone(lead.phone) || null, getInstagramHandle(lead) || null, row.id);
+    });
+  },
+
+  // 3. Saved lead lists
+  `
+  CREATE TABLE lists (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE list_leads (
+    list_id TEXT NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+    lead_id TEXT NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    added_at TEXT NOT NULL,
+    PRIMARY KEY (list_id, lead_id)
+  );
+  CREATE INDEX idx_list_leads_lead ON list_leads(lead_id);
+  `,
+
+  // 4. Pipeline stage
+  (db) => {
+    db.exec(`
+      ALTER TABLE leads ADD COLUMN stage TEXT NOT NULL DEFAULT 'New';
+      CREATE INDEX idx_leads_stage ON leads(stage);
+    `);
+    const setStage = db.prepare(`UPDATE leads SET stage = ? WHERE id = ?`);
+    const rows = db.prepare(`SELECT id, data FROM leads`).all() as { id: string; data: string }[];
+    rows.forEach(row => setStage.run((JSON.parse(row.data) as Lead).stage || "New", row.id));
+  },
+
+  // 5. Background search jobs (results = latest partial or final lead list)
+  `
+  CREATE TABLE search_jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    results TEXT NOT NULL DEFAULT '[]'
+  );
+  CREATE INDEX idx_search_jobs_created ON search_jobs(created_at);
+  `,
+
+  // 6. Watchtower schedule (per tag, so WATCH_TAGS from the env can be scheduled too)
+  `
+  CREATE TABLE watch_schedule (
+    tag TEXT PRIMARY KEY,
+    interval_minutes INTEGER,
+    next_run_at TEXT,
+    last_run_at TEXT,
+    failures INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT
+  );
+  `,
+
+  // 7. Per-tag scan diagnostics (what each tag returned in each run)
+  `
+  ALTER TABLE scans ADD COLUMN trigger TEXT NOT NULL DEFAULT 'manual';
+  ALTER TABLE scans ADD COLUMN error TEXT;
+
+  CREATE TABLE scan_tags (
+    scan_id INTEGER NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    fetched INTEGER NOT NULL DEFAULT 0,
+    too_old INTEGER NOT NULL DEFAULT 0,
+    new_leads INTEGER NOT NULL DEFAULT 0,
+    duplicates INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    duration_ms INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (scan_id, tag)
+  );
+  `,
+
+  // 8. Per-tag alert routing (JSON array of channel ids; NULL = every configured channel)
+  `
+  ALTER TABLE watch_schedule ADD COLUMN channels TEXT;
+  `,
+
+  // 9. Alert delivery: leads held for the next digest, and sends that failed after retrying
+  `
+  CREATE TABLE alert_queue (
+    lead_id TEXT NOT NULL,
+    tag TEXT NOT NULL,
+    queued_at TEXT NOT NULL,
+    PRIMARY KEY (lead_id, tag)
+  );
+
+  CREATE TABLE alert_failures (
+    id TEXT PRIMARY KEY,
+    channel TEXT NOT NULL,
+    failed_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_alert_failures_failed ON alert_failures(failed_at);
+  `,
+  `
+  ALTER TABLE alert_failures ADD COLUMN retry_at TEXT;
+  CREATE INDEX idx_alert_failures_retry ON alert_failures(retry_at);
+  `
+];
+
+// 1. APPLY PENDING MIGRATIONS (PRAGMA user_version = how many have run)
+export function migrate(db: Database.Database) {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(current).forEach((step, i) => {
+    db.transaction(() => {
+      if (typeof step === "string") db.exec(step);
+      else step(db);
+      db.pragma(`user_version = ${current + i + 1}`);
+    })();
+    console.log(`🗄️ Applied migration ${current + i + 1}`);
+  });
+}
+
+// 2. OPEN ONCE PER PROCESS (kept on globalThis so dev hot-reloads reuse it)
+export function getSqlite(): Database.Database {
+  const cache = globalThis as unknown as { __caratbridgeDb?: Database.Database };
+  if (cache.__caratbridgeDb) return cache.__caratbridgeDb;
+
+  const db = new Database(DB_FILE);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+
+  cache.__caratbridgeDb = db;
+  return db;
+}
+
+// 3. ROW WRITERS (indexed columns + the full object as JSON in `data`)
+export function writeLead(db: Database.Database, lead: Lead, addedAt = new Date().toISOString()) {
+  db.prepare(`
+    INSERT INTO leads (id, company_name, domain, email, source, source_query, score, email_status, added_at,
+      name_key, phone_key, handle_key, stage, data)
+    VALUES (@id, @companyName, @domain, @email, @source, @sourceQuery, @score, @emailStatus, @addedAt,
+      @nameKey, @phoneKey, @handleKey, @stage, @data)
+    ON CONFLICT(id) DO UPDATE SET
+      company_name = excluded.company_name, domain = excluded.domain, email = excluded.email,
+      source = excluded.source, source_query = excluded.source_query, score = excluded.score,
+      email_status = excluded.email_status, name_key = excluded.name_key, phone_key = excluded.phone_key,
+      handle_key = excluded.handle_key, stage = excluded.stage, data = excluded.data
+  `).run({
+    id: lead.id,
+    companyName: lead.companyName,
+    domain: lead.domain || null,
+    email: (lead.rawEmail || lead.predictedEmail || "").toLowerCase() || null,
+    source: lead.source || null,
+    sourceQuery: lead.sourceQuery || null,
+    score: lead.score || 0,
+    emailStatus: lead.emailVerificationStatus || null,
+    addedAt,
+    nameKey: normalizeCompanyName(lead.companyName) || null,
+    phoneKey: normalizePhone(lead.phone) || null,
+    handleKey: getInstagramHandle(lead) || null,
+    stage: lead.stage || "New",
+    data: JSON.stringify(lead)
+  });
+}
+
+export function writeOutreachLog(db: Database.Database, log: OutreachLog) {
+  db.prepare(`INSERT OR REPLACE INTO outreach_logs (id, lead_id, email, status, sent_at, data) VALUES (?, ?, ?, ?, ?, ?)`)
+    .run(log.id, log.leadId || null, (log.emailUsed || "").toLowerCase() || null, log.status || "sent", log.sentAt, JSON.stringify(log));
+}
+
+export function writeEnrollment(db: Database.Database, enrollment: SequenceEnrollment) {
+  db.prepare(`
+    INSERT INTO enrollments (id, lead_id, email, status, next_send_at, data) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET status = excluded.status, next_send_at = excluded.next_send_at, data = excluded.data
+  `).run(enrollment.id, enrollment.leadId, enrollment.email.toLowerCase(), enrollment.status, enrollment.nextSendAt || null, JSON.stringify(enrollment));
+}
+
+export function writeDocument(db: Database.Database, table: "templates" | "sequences", doc: { id: string }) {
+  // Upsert keeps the rowid, so edited rows stay in their list position
+  db.prepare(`INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`)
+    .run(doc.id, JSON.stringify(doc));
+}
+
+export function writeSetting(db: Database.Database, key: string, value: unknown) {
+  db.prepare(`INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)`).run(key, JSON.stringify(value));
+}
+
+export function readSetting<T>(db: Database.Database, key: string): T | undefined {
+  const row = db.prepare(`SELECT value FROM settings WHERE key = ?`).get(key) as { value: string } | undefined;
+  return row ? JSON.parse(row.value) : undefined;
+}
@@ -0,0 +1,99 @@
+import { Lead, OutreachTemplate, TemplateAudience } from "./types";
+
+// Merge fields look like {{companyName}} or {{contactName|there}} (value | fallback).
+// Any Lead property works, plus the derived fields below.
+const MERGE_TAG = /\{\{\s*([a-zA-Z]+)\s*(?:\|([^}]*))?\}\}/g;
+
+// Placeholder names the sources fill in when they don't know the person
+const GENERIC_CONTACTS = ["store manager", "system", "unknown"];
+
+export const MERGE_FIELDS = [
+  "firstName", "contactName", "contactRole", "companyName",
+  "country", "region", "businessType", "category", "domain", "website",
+  "phone", "address", "sourceQuery"
+];
+
+export const DEFAULT_TEMPLATES: OutreachTemplate[] = [
+  {
+    id: "tpl-google-intro",
+    name: "Store Intro (Google Maps)",
+    audience: "google",
+    subject: "Partnership Opportunity: {{companyName}} x CaratBridge",
+    body: `Dear {{firstName|Sir/Madam}},
+
+I hope this email finds you well. I came across {{companyName}} and was impressed by your presence in the {{country|local}} market.
+
+At CaratBridge, we specialize in direct sourcing...`,
+    updatedAt: new Date(0).toISOString()
+  },
+  {
+    id: "tpl-instagram-intro",
+    name: "Creator Intro (Instagram)",
+    audience: "instagram",
+    subject: "Loved your recent post, @{{companyName}} 💎",
+    body: `Hi {{firstName|there}},
+
+Your work under {{sourceQuery|your latest post}} caught our eye on Instagram.
+
+CaratBridge supplies certified diamonds direct from the source, and we'd love to send you our current stock list...`,
+    updatedAt: new Date(0).toISOString()
+  },
+  {
+    id: "tpl-follow-up",
+    name: "Follow-up (3 days)",
+    audience: "any",
+    subject: "Re: {{companyName}} x CaratBridge",
+    body: `Hi {{firstName|there}},
+
+Just floating this back to the top of your inbox. Happy to share pricing on our current inventory whenever suits you.`,
+    updatedAt: new Date(0).toISOString()
+  },
+  {
+    id: "tpl-final-nudge",
+    name: "Final Nudge",
+    audience: "any",
+    subject: "Closing the loop, {{companyName}}",
+    body: `Hi {{firstName|there}},
+
+I haven't heard back, so I'll assume now isn't the right time. If sourcing ever comes up for {{companyName}}, just reply to this email.`,
+    updatedAt: new Date(0).toISOString()
+  }
+];
+
+// 1. WHICH AUDIENCE IS THIS LEAD?
+export function getLeadAudience(lead: Lead): Exclude<TemplateAudience, "any"> {
+  if (lead.source) return lead.source === "google" ? "google" : "instagram";
+  return lead.domain === "instagram.com" || lead.region === "Instagram" ? "instagram" : "google";
+}
+
+// 2. PICK A TEMPLATE (same audience first, then generic ones)
+export function pickTemplateForLead(templates: OutreachTemplate[], lead: Lead): OutreachTemplate | undefined {
+  const audience = getLeadAudience(lead);
+  return templates.find(t => t.audience === audience) || templates.find(t => t.audience === "any") || templates[0];
+}
+
+function getMergeValue(lead: Lead, field: string): string {
+  if (field === "firstName") {
+    const name = (lead.contactName || "").trim();
+    if (!name || GENERIC_CONTACTS.includes(name.toLowerCase())) return "";
+    return name.split(" ")[0];
+  }
+  const value = (lead as any)[field];
+  if (value === undefined || value === null) return "";
+  return String(value).trim();
+}
+
+// 3. RENDER ONE STRING
+export function renderMergeFields(text: string, lead: Lead): string {
+  return text.replace(MERGE_TAG, (_, field: string, fallback?: string) => {
+    return getMergeValue(lead, field) || (fallback ?? "").trim();
+  });
+}
+
+// 4. RENDER A WHOLE TEMPLATE (used by both the preview and /api/outreach)
+export function renderTemplate(template: Pick<OutreachTemplate, "subject" | "body">, lead: Lead) {
+  return {
+    subject: renderMergeFields(template.subject, lead),
+    body: renderMergeFields(template.body, lead)
+  };
+}
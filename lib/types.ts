@@ -1,20 +1,137 @@
 export type LeadStatus = "valid" | "risky" | "invalid" | "unknown";
 
+export type BusinessType = "Retailer" | "Wholesaler" | "Brand" | "Broker" | "Unknown";
+
+// A registered lead source's id (lib/sources), or "watchtower" for monitored hashtags
+export type LeadSourceId = string;
+
 export interface Lead {
   id: string;
   companyName: string;
   website: string;
   country: string;
   region: string;
-  businessType: "Retailer" | "Wholesaler" | "Brand" | "Broker";
+  businessType: BusinessType;
+  category?: string; // Source's own label, e.g. Google's "Jewelry store"
   contactName: string;
   contactRole: string;
   rawEmail?: string;
   domain: string;
   predictedEmail?: string;
+  emailCandidates?: EmailCandidate[];
   emailVerificationStatus: LeadStatus;
+  emailVerificationReason?: string;
+  emailVerifiedAt?: string;
   score: number;
-  notes?: string;
+  scoreBreakdown?: ScoreFactor[];
+  phone?: string;
+  rating?: number;
+  reviewCount?: number;
+  address?: string;
+  coordinates?: { lat: number; lng: number };
+  source?: LeadSourceId;
+  sourceQuery?: string; // Search term or "#hashtag" that found the lead
+  postUrl?: string;
+  postedAt?: string;    // When the source post/listing was published
+  capturedAt?: string;  // When we found it
+  notes?: string;       // Set by the source (phone, caption snippet); overwritten on re-capture
+  userNotes?: LeadNote[]; // The team's own notes, oldest first
+  tags?: string[];        // User-defined ("met at JCK", "wants lab-grown")
+  enrichment?: WebsiteEnrichment;
+  mergedFrom?: MergedRecord[]; // Records folded into this one, newest first
+  stage?: PipelineStage;       // Unset = "New"
+  stageHistory?: StageChange[];
+  crm?: CrmRecord;             // Set once the lead was pushed to the CRM
+  caption?: string;            // Full post text (Instagram); `notes` only keeps a snippet
+  captionDetails?: CaptionDetails; // What was parsed out of the caption
+  alertDecision?: AlertDecision; // Watchtower leads: whether they were announced, and why
+}
+
+export type PipelineStage = "New" | "Qualified" | "Contacted" | "Replied" | "Meeting" | "Won" | "Lost";
+
+export interface StageChange {
+  from: PipelineStage;
+  to: PipelineStage;
+  at: string;
+}
+
+export interface LeadNote {
+  id: string;
+  text: string;
+  createdAt: string;
+}
+
+// A duplicate that was merged away, kept as it was at merge time
+export interface MergedRecord {
+  lead: Lead;
+  mergedAt: string;
+}
+
+// A named, saved set of leads ("Dubai Gold Souq – Nov")
+export interface LeadList {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  leadCount: number;
+}
+
+export interface DuplicateMatch {
+  leadId: string;
+  duplicateId: string;
+  confidence: number; // 0-100
+  reasons: string[];
+}
+
+export interface NamedContact {
+  name: string;
+  role: string;
+}
+
+export interface SocialHandles {
+  instagram?: string;
+  facebook?: string;
+  linkedin?: string;
+}
+
+// What a post's caption mentions (lib/captionParser.ts)
+export interface CaptionDetails {
+  emails: string[];
+  phones: string[];     // International format ("+971501234567")
+  whatsapp: string[];
+  linkPages: string[];  // Link-in-bio pages (Linktree, beacons.ai...)
+  websites: string[];
+  mentions: string[];   // @handles, without the "@"
+  locations: string[];  // The post's tagged place, "📍 Antwerp", "based in Dubai"
+  classes: string[];    // Labels of the post classes whose keywords it mentions
+}
+
+// A kind of post, recognized by keywords in the caption ("Selling", "Looking for supplier")
+export interface PostClass {
+  label: string;
+  keywords: string[];
+}
+
+// What the website crawler found for a lead
+export interface WebsiteEnrichment {
+  emails: string[];
+  phones: string[];
+  whatsapp: string[];
+  socials: SocialHandles;
+  contacts: NamedContact[];
+  pagesCrawled: string[];
+  blockedByRobots: string[];
+  errors: string[];
+  enrichedAt: string;
+}
+
+export type EmailPattern = "first.last" | "first" | "flast" | "f.last" | "firstlast" | "info" | "sales" | "contact";
+
+export interface EmailCandidate {
+  email: string;
+  pattern: EmailPattern;
+  confidence: number; // 0-100
+  learned: boolean;   // true when backed by known addresses at this domain
 }
 
 export interface SearchFilters {
@@ -30,4 +147,135 @@ export interface OutreachLog {
   body: string;
   sentAt: string;
   emailUsed: string;
-}
\ No newline at end of file
+  status: "sent" | "failed";
+  templateId?: string;
+  sequenceId?: string;
+  messageId?: string;
+  error?: string;
+}
+export type TemplateAudience = "google" | "instagram" | "any";
+
+export interface OutreachTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  audience: TemplateAudience;
+  updatedAt: string;
+}
+
+export interface SequenceStep {
+  templateId: string;
+  delayDays: number; // Days after the previous step (0 = send right away)
+}
+
+export interface OutreachSequence {
+  id: string;
+  name: string;
+  steps: SequenceStep[];
+  updatedAt: string;
+}
+
+export type LeadOutcome = "replied" | "bounced" | "unsubscribed" | "won" | "lost";
+
+export interface SequenceEnrollment {
+  id: string;
+  sequenceId: string;
+  leadId: string;
+  lead: Lead; // Snapshot used to render merge fields at send time
+  email: string;
+  status: "active" | "completed" | "stopped";
+  currentStep: number; // Index of the next step to send
+  nextSendAt?: string;
+  stopReason?: LeadOutcome | "manual" | "missing-template" | "send-failed";
+  enrolledAt: string;
+  history: { step: number; sentAt: string; status: "sent" | "failed"; error?: string }[];
+}
+
+// --- LEAD SCORING ---
+export interface ScoringRules {
+  markets: { tier1: string[]; tier1Points: number; tier2: string[]; tier2Points: number; otherPoints: number };
+  businessTypes: { match: string; points: number }[]; // Best match wins
+  emailQuality: { rawEmail: number; predictedEmail: number; validBonus: number; riskyPenalty: number };
+  rating: { maxPoints: number };                         // Scaled from a 0-5 rating
+  reviewCount: { maxPoints: number; saturation: number }; // Full points at `saturation` reviews
+  recency: { maxPoints: number; freshHours: number; staleHours: number };
+  keywords: { terms: string[]; pointsEach: number; maxPoints: number };
+}
+
+export interface ScoreFactor {
+  factor: string;
+  points: number;
+  max: number;
+  detail: string;
+}
+
+// --- ALERT RULES ---
+// Decides whether a new Watchtower lead is announced. Rules run in order; the first whose conditions all hold wins.
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: "alert" | "mute";
+  tags: string[];             // Monitored tags it applies to; empty = every tag
+  hasEmail?: boolean;         // true = needs an email, false = has none
+  minScore?: number;
+  includeKeywords: string[];  // Caption mentions at least one (empty = no check)
+  excludeKeywords: string[];  // Caption mentions none of them
+  usernamePatterns: string[]; // Any of them matches, "*" as a wildcard ("*giveaway*", "rival_*")
+  maxAgeHours?: number;       // Post age
+}
+
+export interface AlertRules {
+  rules: AlertRule[];
+  fallback: "alert" | "mute"; // When no rule matches
+}
+
+// Which rule fired for a lead (kept on the lead, so noisy rules can be found and tuned)
+export interface AlertDecision {
+  ruleId?: string; // Unset = no rule matched, the fallback applied
+  rule: string;    // Its name at the time
+  alerted: boolean;
+  tag: string;
+  at: string;
+}
+
+// --- CRM ---
+// Where a pushed lead lives in the CRM; later pushes update these records
+export interface CrmRecord {
+  provider: "hubspot";
+  contactId?: string;
+  companyId?: string;
+  pushedAt: string;
+}
+
+// CRM property ← lead value (a Lead field or a derived one, see lib/crm LEAD_VALUES)
+export interface CrmPropertyMapping {
+  property: string;
+  value: string;
+}
+
+export interface CrmMapping {
+  contact: CrmPropertyMapping[];
+  company: CrmPropertyMapping[];
+}
+
+// --- SEARCH JOBS ---
+export interface SearchParams {
+  source: string;                // A registered lead source ("google", "instagram")
+  input: Record<string, string>; // Its fields; comma-separated values search in bulk
+}
+
+export interface SearchJob {
+  id: string;
+  params: SearchParams;
+  status: "running" | "done" | "failed" | "cancelled";
+  totalQueries: number;
+  completedQueries: number;
+  leadCount: number;
+  currentQuery?: string;
+  error?: string;
+  warnings?: string[]; // Queries that failed while the rest went on
+  createdAt: string;
+  finishedAt?: string;
+}
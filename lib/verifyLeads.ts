@@ -0,0 +1,31 @@
+import { getSmtpSettings, getVerificationSettings } from './config';
+import { createMxResolver, createSmtpProber, verifyEmails, VerifyOptions } from './emailVerification';
+import { Lead } from './types';
+
+// Options built from Settings: custom DNS servers, optional RCPT probe
+export function getVerifyOptions(): VerifyOptions {
+  const settings = getVerificationSettings();
+  const smtp = getSmtpSettings();
+  return {
+    resolveMx: createMxResolver(settings.dnsServers),
+    probe: settings.smtpProbe ? createSmtpProber({ port: settings.probePort, mailFrom: smtp.from }) : false
+  };
+}
+
+// Verify each lead's best address and write the result onto the lead
+export async function verifyLeads(leads: Lead[], options: VerifyOptions = getVerifyOptions()): Promise<Lead[]> {
+  const emails = leads.map(l => l.rawEmail || l.predictedEmail).filter((e): e is string => !!e);
+  const results = await verifyEmails(emails, options);
+
+  return leads.map(lead => {
+    const email = lead.rawEmail || lead.predictedEmail;
+    const result = email ? results.get(email.trim().toLowerCase()) : undefined;
+    if (!result) return { ...lead, emailVerificationStatus: "unknown", emailVerificationReason: "No email to verify" };
+    return {
+      ...lead,
+      emailVerificationStatus: result.status,
+      emailVerificationReason: result.reason,
+      emailVerifiedAt: result.checkedAt
+    };
+  });
+}
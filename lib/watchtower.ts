@@ -0,0 +1,213 @@
+import { ApifyClient } from "apify-client";
+import {
+  addLeadsToDb, finishScan, getTags, getWatchInterval, getWatchSchedules, isMonitorRunning, recordScanTag, saveWatchSchedule,
+  setWatchInterval, startScan, updateLeads, getAlertRules, getScoringRules, ScanTagResult, ScanTrigger, WatchSchedule
+} from "./db";
+import { decideAlert } from "./alertRules";
+import { getApiKeys } from "./config";
+import { alertNewLeads, retryDueAlerts, sendDueDigest, NotifierId } from "./notifiers";
+import { scoreLeads } from "./scoring";
+import { getVerifyOptions, verifyLeads } from "./verifyLeads";
+import { Lead } from "./types";
+import { instagram } from "./sources";
+import { runSourceQuery } from "./search";
+
+export const DEFAULT_INTERVAL_MINUTES = 15;
+const MAX_BACKOFF_MINUTES = 6 * 60; // Failing tags wait twice as long each time, up to this
+const FRESH_HOURS = 48;             // Older posts are ignored
+const TICK_MS = 30 * 1000;
+
+export interface WatchScanResult {
+  skipped?: boolean; // Another scan was still running
+  error?: string;
+  scannedCount: number;
+  newLeads: number;
+}
+
+// Live state of this server process (kept on globalThis: the scheduler and the routes share it)
+const state = () => {
+  const g = globalThis as unknown as { __watchtower?: { scanning: boolean; timer?: NodeJS.Timeout } };
+  if (!g.__watchtower) g.__watchtower = { scanning: false };
+  return g.__watchtower;
+};
+
+// 1. WHICH TAGS (WATCH_TAGS from the env overrides the saved list, e.g. on Render)
+export function getWatchTags(): string[] {
+  const rawEnvTags = process.env.WATCH_TAGS;
+  if (rawEnvTags) return rawEnvTags.split(',').map(t => t.trim()).filter(Boolean);
+  return getTags();
+}
+
+// 2. SCAN ONE TAG → what it returned, and the new leads to announce (all are stored, verified, scored and
+// checked against the alert rules; the alerts go out once the whole scan is done)
+async function scanTag(client: ApifyClient, monitoredTag: string, limit: number): Promise<{ result: Omit<ScanTagResult, "durationMs">; found: Lead[] }> {
+  console.log(`🕵️‍♂️ Checking #${monitoredTag}...`);
+  const [query] = instagram.plan({ hashtag: monitoredTag, limit: String(limit), idPrefix: "post" });
+  const { leads: posts, error } = await runSourceQuery(instagram, query, { signal: new AbortController().signal, shared: client });
+  if (error && posts.length === 0) throw new Error(error);
+
+  // SORT NEWEST FIRST, then 🚫 FILTER: STRICT 48 HOURS
+  const now = Date.now();
+  const leads = [...posts]
+    .sort((a, b) => new Date(b.postedAt || 0).getTime() - new Date(a.postedAt || 0).getTime())
+    .filter(lead => lead.postedAt && (now - new Date(lead.postedAt).getTime()) / (1000 * 60 * 60) <= FRESH_HOURS)
+    .map(lead => ({ ...lead, source: "watchtower", score: 0 }) as Lead); // Scored after verification
+
+  const addedLeads = addLeadsToDb(leads);
+  const result: Omit<ScanTagResult, "durationMs"> = {
+    tag: monitoredTag,
+    fetched: posts.length,
+    tooOld: posts.length - leads.length,
+    newLeads: addedLeads.length,
+    duplicates: leads.length - addedLeads.length
+  };
+
+  // The leads are stored from here on, so a failing step below is noted on the tag instead of losing them
+  let verifiedLeads = addedLeads;
+  const problems: string[] = [];
+  try {
+    // ✅ Real verification for new caption emails (DNS only, no probe)
+    verifiedLeads = await verifyLeads(addedLeads, { ...getVerifyOptions(), probe: false });
+  } catch (e: any) {
+    problems.push(`Verification failed: ${e.message}`);
+  }
+
+  let found = verifiedLeads; // Without scores or rules, every new lead is announced
+  try {
+    const rules = getAlertRules();
+    const newLeadsFound = scoreLeads(verifiedLeads, getScoringRules())
+      .map(lead => ({ ...lead, alertDecision: decideAlert(lead, monitoredTag, rules) }));
+    updateLeads(newLeadsFound);
+    found = newLeadsFound.filter(lead => lead.alertDecision.alerted);
+  } catch (e: any) {
+    problems.push(`Scoring failed: ${e.message}`);
+    updateLeads(verifiedLeads);
+  }
+
+  if (problems.length > 0) console.error(`Error #${monitoredTag}:`, problems.join("; "));
+  return { result: problems.length > 0 ? { ...result, error: problems.join("; ") } : result, found };
+}
+
+// 3. SCAN A SET OF TAGS (one scan at a time: a second caller is turned away, not queued)
+export async function runWatchScan(tags: string[], options: { limit?: number; trigger?: ScanTrigger } = {}): Promise<WatchScanResult> {
+  const s = state();
+  if (s.scanning) return { skipped: true, scannedCount: 0, newLeads: 0 };
+
+  const { APIFY_TOKEN } = getApiKeys();
+  if (!APIFY_TOKEN) {
+    finishScan(startScan(tags, options.trigger), 0, "Missing APIFY_TOKEN");
+    tags.forEach(tag => recordTagRun(tag, "Missing APIFY_TOKEN"));
+    return { error: "Missing APIFY_TOKEN", scannedCount: 0, newLeads: 0 };
+  }
+
+  s.scanning = true;
+  try {
+    const client = new ApifyClient({ token: APIFY_TOKEN });
+    const scanId = startScan(tags, options.trigger);
+    let totalNewLeads = 0;
+    const found: { tag: string; leads: Lead[] }[] = [];
+
+    for (const tag of tags) {
+      const started = Date.now();
+      try {
+        const { result, found: leads } = await scanTag(client, tag, options.limit || 20);
+        recordScanTag(scanId, { ...result, durationMs: Date.now() - started });
+        found.push({ tag, leads });
+        totalNewLeads += result.newLeads;
+        recordTagRun(tag);
+      } catch (e: any) {
+        console.error(`Error #${tag}:`, e.message);
+        recordScanTag(scanId, { tag, fetched: 0, tooOld: 0, newLeads: 0, duplicates: 0, error: e.message, durationMs: Date.now() - started });
+        recordTagRun(tag, e.message);
+      }
+    }
+    finishScan(scanId, totalNewLeads);
+
+    // 🔔 One batched alert per channel (or queued for the digest); failed sends are kept, not counted against the scan
+    await alertNewLeads(found);
+    return { scannedCount: tags.length, newLeads: totalNewLeads };
+  } finally {
+    s.scanning = false;
+  }
+}
+
+// 4. SCHEDULE (each tag runs on its own interval; failures back off)
+const intervalOf = (schedule: WatchSchedule) =>
+  schedule.intervalMinutes || getWatchInterval() || DEFAULT_INTERVAL_MINUTES;
+
+function recordTagRun(tag: string, error?: string, now = new Date()) {
+  const [schedule] = getWatchSchedules([tag]);
+  const failures = error ? schedule.failures + 1 : 0;
+  const waitMinutes = Math.min(intervalOf(schedule) * 2 ** failures, Math.max(MAX_BACKOFF_MINUTES, intervalOf(schedule)));
+  saveWatchSchedule({
+    ...schedule,
+    failures,
+    lastError: error,
+    lastRunAt: now.toISOString(),
+    nextRunAt: new Date(now.getTime() + waitMinutes * 60000).toISOString()
+  });
+}
+
+// Re-time the next run from the last one (a tag that is backing off keeps its wait)
+function retime(schedule: WatchSchedule) {
+  if (schedule.lastRunAt && !schedule.failures) {
+    schedule.nextRunAt = new Date(new Date(schedule.lastRunAt).getTime() + intervalOf(schedule) * 60000).toISOString();
+  }
+  saveWatchSchedule(schedule);
+}
+
+export function setTagInterval(tag: string, minutes?: number) {
+  const [schedule] = getWatchSchedules([tag]);
+  retime({ ...schedule, intervalMinutes: minutes });
+}
+
+// undefined = every configured channel, [] = no alerts for this tag
+export function setTagChannels(tag: string, channels?: NotifierId[]) {
+  const [schedule] = getWatchSchedules([tag]);
+  saveWatchSchedule({ ...schedule, channels });
+}
+
+export function setDefaultInterval(minutes: number) {
+  setWatchInterval(minutes);
+  getWatchSchedules(getWatchTags()).filter(s => !s.intervalMinutes).forEach(retime);
+}
+
+// What the panel shows: the interval, each tag's next run, and whether a scan is running now
+export interface WatchStatus {
+  intervalMinutes: number;
+  nextRunAt?: string;
+  scanning: boolean;
+  tags: (WatchSchedule & { nextRunAt: string })[]; // intervalMinutes only when the tag has its own
+}
+
+export function getWatchStatus(): WatchStatus {
+  const schedules = getWatchSchedules(getWatchTags());
+  const now = new Date().toISOString();
+  const tags = schedules.map(s => ({ ...s, nextRunAt: s.nextRunAt || now }));
+  return {
+    intervalMinutes: getWatchInterval() || DEFAULT_INTERVAL_MINUTES,
+    nextRunAt: tags.map(t => t.nextRunAt).sort()[0],
+    scanning: state().scanning,
+    tags
+  };
+}
+
+// Scans the tags that are due, only while the monitor is switched on
+export async function runDueTags(now = new Date()) {
+  if (!isMonitorRunning() || state().scanning) return;
+  const due = getWatchSchedules(getWatchTags())
+    .filter(s => !s.nextRunAt || new Date(s.nextRunAt).getTime() <= now.getTime())
+    .map(s => s.tag);
+  if (due.length > 0) await runWatchScan(due, { trigger: "schedule" });
+}
+
+// 5. BACKGROUND TICK (one per server process; started from instrumentation.ts and the monitor route)
+export function ensureWatchScheduler() {
+  const s = state();
+  if (s.timer) return;
+  s.timer = setInterval(() => {
+    runDueTags().catch(e => console.error("Watchtower Scheduler Error:", e));
+    sendDueDigest().catch(e => console.error("Watchtower Digest Error:", e));
+    retryDueAlerts().catch(e => console.error("Watchtower Alert Retry Error:", e));
+  }, TICK_MS);
+}
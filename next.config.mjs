@@ -6,6 +6,9 @@ const nextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  experimental: {
+    instrumentationHook: true, // Starts the Watchtower scheduler and the sequence runner (instrumentation.ts)
+  },
 };
 
 export default nextConfig;
\ No newline at end of file